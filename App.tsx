@@ -1,101 +1,355 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { GoogleGenAI, Type } from "@google/genai";
-import type { Song, Playlist, Comment, ProducerProfile } from './types';
-import { FileUpload } from './components/FileUpload';
+import type { Song, Playlist, Comment, Marker, ProducerProfile, TaggedField, LibraryFilterPreset, LibrarySort, SmartPlaylistRules, EditFormData } from './types';
+import { FileUpload, createSongFromFile } from './components/FileUpload';
 import { ShareModal } from './components/ShareModal';
+import { FeedbackModal } from './components/FeedbackModal';
+import { RelinkModal } from './components/RelinkModal';
+import { DuplicateModal } from './components/DuplicateModal';
+import { LibraryFilterBar } from './components/LibraryFilterBar';
+import { SmartPlaylistEditor } from './components/SmartPlaylistEditor';
+import { AutoSequenceModal } from './components/AutoSequenceModal';
+import { BulkEditModal } from './components/BulkEditModal';
+import { SelectionBar } from './components/SelectionBar';
+import { QueuePanel } from './components/QueuePanel';
+import { ShortcutsHelp } from './components/ShortcutsHelp';
+import { Waveform } from './components/Waveform';
+import { attachStoredAudio, deleteAudio, getStorageUsage, getStoredAudioIds, saveAudio } from './services/audioStore';
+import type { StorageUsage } from './services/audioStore';
+import { IncorrectPasswordError } from './services/shareCrypto';
+import { decodeShareBundle, decodeShareHash, unlockShare, BUNDLE_FILE_EXTENSION } from './services/shareFormat';
+import type { DecodedShare, EncryptedShare } from './services/shareFormat';
+import { analyzeAudioFile, measureAudioLoudness } from './services/audioAnalysis';
+import type { LocalAnalysisResult } from './services/audioAnalysis';
+import { computePeaks } from './services/waveform';
+import { loudnessMatchGain, LOUDNESS_TARGET } from './services/loudness';
+import { addMarker, adjacentMarker, markerEnd, removeMarker, updateMarker, SECTION_KINDS, SECTION_NAMES } from './services/markers';
+import { countUnreadComments, decodeFeedbackHash, mergeFeedback, parseFeedbackFile, FEEDBACK_FILE_EXTENSION, FEEDBACK_HASH_PREFIX } from './services/feedback';
+import type { PlaylistFeedback } from './services/feedback';
+import { parsePlaylistFile } from './services/playlistImport';
+import type { RelinkMatch } from './services/playlistImport';
+import {
+  addToQueue, clearUpNext, createQueue, cycleRepeat, next, playFrom, playNext, previous,
+  removeFromQueue, removeFromUpNext, renameInQueue, restoreQueue, setShuffle, stop, syncSource
+} from './services/playbackQueue';
+import type { QueueSource, QueueState } from './services/playbackQueue';
+import { GaplessPlayer } from './services/gaplessPlayer';
+import type { LoopRegion } from './services/gaplessPlayer';
+import { setMediaSessionHandlers, setMediaSessionPlaybackState, setMediaSessionPosition, setMediaSessionTrack } from './services/mediaSession';
+import { tagsForSong, writeTags } from './services/tagWriter';
+import { parseQuery, sortSongs } from './services/libraryQuery';
+import { describeRule, freezePlaylist, refreshSmartPlaylist } from './services/smartPlaylist';
+import { reorderByIds } from './services/autoSequence';
+import { EMPTY_HISTORY, mergeList, mergePlaylist, recordEntry, withoutSongs } from './services/history';
+import type { History, Workspace } from './services/history';
+import { addVersion, currentVersions, makeCurrentVersion, otherVersions, versionLabel, versionsOf } from './services/versions';
+import { computeFingerprint, findDuplicate, migrateLegacySongIds, uniqueSongId } from './services/songIdentity';
+import type { DuplicateMatch, DuplicateResolution } from './services/songIdentity';
+import { loadFilterPresets, loadPlaylist, loadPlaylists, loadProducerProfile, loadSongs, CURRENT_SCHEMA_VERSION } from './services/schema';
 import { 
   PlayIcon, PauseIcon, PlusIcon, TrashIcon, ShareIcon, 
   ChevronUpIcon, ChevronDownIcon, LoadingSpinnerIcon, AnalyzeIcon,
-  SaveIcon, CommentIcon, ClipboardIcon, CheckIcon, LockClosedIcon,
-  UserCircleIcon, LinkIcon, ExportIcon, EditIcon
+  SaveIcon, CommentIcon, LockClosedIcon,
+  UserCircleIcon, LinkIcon, ExportIcon, EditIcon,
+  PreviousIcon, NextIcon, ShuffleIcon, RepeatIcon, QueueListIcon, PlayNextIcon, TagIcon,
+  UndoIcon, RedoIcon
 } from './components/Icons';
+import { formatTime, formatCommentTimestamp, formatBytes, formatDecibels } from './utils/format';
+import { EMPTY_SELECTION, orderedSelection, pruneSelection, selectWithModifiers } from './utils/selection';
+import type { Selection } from './utils/selection';
+
+const CROSSFADE_OPTIONS = [0, 2, 4, 6, 8, 12]; // seconds
+const PLAYBACK_RATES = [0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5];
+const MAX_TRANSPOSE = 12; // semitones either way
+const MIN_LOOP_SECONDS = 0.25;
+
+const describeConfidence = (confidence?: number) =>
+  confidence === undefined ? undefined : `Detected from audio (${Math.round(confidence * 100)}% confidence)`;
+
+const describeSource = (song: Song, field: TaggedField, confidence?: number) =>
+  song.taggedFields?.includes(field) ? "From the file's embedded tags" : describeConfidence(confidence);
+
+// Values read from a file's embedded tags are what the producer set, so
+// analysis never overwrites them
+const withoutTaggedFields = <T extends Partial<Song>>(song: Song, updates: T): T => {
+  const result = { ...updates };
+  song.taggedFields?.forEach(field => {
+    delete result[field];
+    if (field === 'bpm') delete result.bpmConfidence;
+    if (field === 'key') delete result.keyConfidence;
+  });
+  return result;
+};
 
-const formatTime = (seconds: number) => {
-  const floorSeconds = Math.floor(seconds);
-  const minutes = Math.floor(floorSeconds / 60);
-  const remainingSeconds = floorSeconds % 60;
-  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+// Inserts songs before position `index`, moving any that are already in the list
+const insertSongsAt = (songs: Song[], incoming: Song[], index: number): Song[] => {
+  const moving = new Set(incoming.map(s => s.id));
+  const keep = (s: Song) => !moving.has(s.id);
+  return [...songs.slice(0, index).filter(keep), ...incoming, ...songs.slice(index).filter(keep)];
 };
 
-interface EditFormData {
-    name?: string;
-    bpm?: string;
-    key?: string;
-    genre?: string;
-    mood?: string;
-    instrumentation?: string;
-    genreTags?: string;
-}
+type SongList = 'library' | 'playlist';
+
+// Songs brought back by undo or redo aren't being analyzed any more
+const reviveSong = ({ analyzing, ...song }: Song): Song => song;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count !== 1 ? 's' : ''}`;
+
+// Keeps the same array when nothing is removed, so untouched state isn't replaced
+const withoutIds = <T extends { id: string }>(items: T[], ids: Set<string>): T[] =>
+  items.some(item => ids.has(item.id)) ? items.filter(item => !ids.has(item.id)) : items;
+
+// Updates songs wherever they appear in the library and the open playlist
+const updateSongs = (workspace: Workspace, songIds: string[], updates: (song: Song) => Partial<Song>): Workspace => {
+  const ids = new Set(songIds);
+  const update = (song: Song) => ids.has(song.id) ? { ...song, ...updates(song) } : song;
+  return {
+    ...workspace,
+    library: workspace.library.map(update),
+    playlist: { ...workspace.playlist, songs: workspace.playlist.songs.map(update) },
+  };
+};
+
+const withPlaylistSongs = (workspace: Workspace, songs: Song[]): Workspace =>
+  ({ ...workspace, playlist: { ...workspace.playlist, songs } });
+
+const splitList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+// Turns edit form values into song updates; fields missing from the form are left alone
+const updatesFromEditForm = (song: Song | undefined, form: EditFormData): Partial<Song> => {
+  const updates: Partial<Song> = {};
+  if (form.name !== undefined) updates.name = form.name;
+  if (form.bpm !== undefined) updates.bpm = form.bpm || undefined;
+  if (form.key !== undefined) updates.key = form.key || undefined;
+  if (form.genre !== undefined) updates.genre = form.genre || undefined;
+  if (form.mood !== undefined) updates.mood = form.mood || undefined;
+  if (form.instrumentation !== undefined) updates.instrumentation = splitList(form.instrumentation);
+  if (form.genreTags !== undefined) updates.genreTags = splitList(form.genreTags);
+  // Hand-corrected values no longer carry the detector's confidence
+  if ('bpm' in updates && updates.bpm !== song?.bpm) updates.bpmConfidence = undefined;
+  if ('key' in updates && updates.key !== song?.key) updates.keyConfidence = undefined;
+  // Nor do they count as tagged once changed, so the next analysis may refine them
+  if (song?.taggedFields) {
+    updates.taggedFields = song.taggedFields.filter(field => !(field in updates) || updates[field] === song[field]);
+  }
+  return updates;
+};
 
 const App: React.FC = () => {
   const [uploadedSongs, setUploadedSongs] = useState<Song[]>([]);
   const [playlist, setPlaylist] = useState<Playlist>({ id: `playlist-${Date.now()}`, name: "Untitled Playlist", songs: [] });
   const [savedPlaylists, setSavedPlaylists] = useState<Playlist[]>([]);
-  const [currentSong, setCurrentSong] = useState<Song | null>(null);
+  const [trashedSongs, setTrashedSongs] = useState<Song[]>([]);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [queue, setQueue] = useState<QueueState>(createQueue);
+  const [isQueueOpen, setIsQueueOpen] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isShareModalOpen, setShareModalOpen] = useState(false);
   const [isViewerMode, setIsViewerMode] = useState(false);
   const [isLinkExpired, setIsLinkExpired] = useState(false);
+  const [isLinkInvalid, setIsLinkInvalid] = useState(false);
   const [notification, setNotification] = useState<string | null>(null);
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
   const [expandedSongId, setExpandedSongId] = useState<string | null>(null);
   const [isFeedbackModalOpen, setFeedbackModalOpen] = useState(false);
   const [passwordProtectedPlaylist, setPasswordProtectedPlaylist] = useState<Playlist | null>(null);
+  const [encryptedShare, setEncryptedShare] = useState<EncryptedShare | null>(null);
+  const [isAwaitingShareFile, setIsAwaitingShareFile] = useState(false);
   const [producerProfile, setProducerProfile] = useState<ProducerProfile>({ name: '', contactInfo: '', bio: '' });
   const [editingSongId, setEditingSongId] = useState<string | null>(null);
   const [editFormData, setEditFormData] = useState<EditFormData>({});
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [libraryQuery, setLibraryQuery] = useState('');
+  const [librarySort, setLibrarySort] = useState<LibrarySort>({ field: 'added', direction: 'asc' });
+  const [filterPresets, setFilterPresets] = useState<LibraryFilterPreset[]>([]);
+  const [playerCommentText, setPlayerCommentText] = useState('');
+  const [commentRangeStart, setCommentRangeStart] = useState<number | null>(null);
+  const [isShortcutsHelpOpen, setIsShortcutsHelpOpen] = useState(false);
+  // Auditioning settings last the session and never touch the stored songs
+  const [isAuditionOpen, setIsAuditionOpen] = useState(false);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [loopStart, setLoopStart] = useState<number | null>(null); // The A point, until B is set
+  const [loopSongId, setLoopSongId] = useState<string | undefined>(); // The queued song the loop was set on
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [transpose, setTranspose] = useState(0); // semitones
+  const [isStretching, setIsStretching] = useState(false);
+  const [relinkRequest, setRelinkRequest] = useState<{ playlist: Playlist; missingSongs: Song[] } | null>(null);
+  const [duplicateRequest, setDuplicateRequest] = useState<DuplicateMatch[] | null>(null);
+  const [smartEditorMode, setSmartEditorMode] = useState<'new' | 'edit' | null>(null);
+  const [isSequencing, setIsSequencing] = useState(false);
+  const [librarySelection, setLibrarySelection] = useState<Selection>(EMPTY_SELECTION);
+  const [playlistSelection, setPlaylistSelection] = useState<Selection>(EMPTY_SELECTION);
+  const [bulkEditIds, setBulkEditIds] = useState<string[] | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Another version of the current song being heard in its place, for A/B comparison
+  const [abVersion, setAbVersion] = useState<{ songId: string; versionId: string } | null>(null);
   
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const playerRef = useRef<GaplessPlayer | null>(null);
+  if (!playerRef.current) playerRef.current = new GaplessPlayer();
+  const upcomingQueueRef = useRef<QueueState | null>(null);
+  const pendingSeekRef = useRef<number | null>(null);
+  const playerCommentInputRef = useRef<HTMLInputElement>(null);
+  const peaksRequestedRef = useRef(new Set<string>());
+  const fingerprintsRequestedRef = useRef(new Set<string>());
+  const loudnessRequestedRef = useRef(new Set<string>());
+  const decodeQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const dragRef = useRef<{ from: SongList; ids: string[] } | null>(null);
+  const undoToastTimeoutRef = useRef<number>();
+  // The workspace as of the last edit, so edits made in the same event build on each other
+  const workspaceRef = useRef<Workspace>({ library: uploadedSongs, trash: trashedSongs, playlist, savedPlaylists });
+  workspaceRef.current = { library: uploadedSongs, trash: trashedSongs, playlist, savedPlaylists };
   
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-  // Load from URL hash or local storage on initial mount
+  // The queue tracks ids only; songs are looked up so edits and re-attached audio apply immediately
+  const findSong = (songId: string, source: QueueSource = queue.source) => {
+    const pools = source === 'library' ? [uploadedSongs, playlist.songs] : [playlist.songs, uploadedSongs];
+    for (const pool of pools) {
+      const song = pool.find(s => s.id === songId);
+      if (song) return song;
+    }
+    return undefined;
+  };
+  const currentSong = queue.currentId ? findSong(queue.currentId) ?? null : null;
+  // Shared playlists carry their own earlier versions, if the producer included them
+  const versionPool = isViewerMode ? [...playlist.songs, ...(playlist.versions || [])] : uploadedSongs;
+  const currentSongVersions = currentSong ? versionsOf(currentSong, versionPool) : [];
+  const playingSong = (abVersion?.songId === currentSong?.id && currentSongVersions.find(v => v.id === abVersion?.versionId)) || currentSong;
+  const libraryCurrentVersions = currentVersions(uploadedSongs);
+  // Memoized because the share link is rebuilt whenever its inputs change
+  const shareVersions = useMemo(() => otherVersions(playlist.songs, uploadedSongs), [playlist.songs, uploadedSongs]);
+  const parsedLibraryQuery = parseQuery(libraryQuery);
+  const visibleLibrarySongs = sortSongs(libraryCurrentVersions.filter(parsedLibraryQuery.matches), librarySort);
+  // Playing from the library plays what the search and sort show
+  const sourceIds = (source: QueueSource) => (source === 'library' ? visibleLibrarySongs : playlist.songs).map(s => s.id);
+  const isPlayable = (songId: string) => !!findSong(songId)?.url;
+  // Loudness match, like the playlist's transitions, applies while the playlist plays
+  const trackGain = (song: Song, source: QueueSource) =>
+    source === 'playlist' && playlist.loudnessMatch ? loudnessMatchGain(song) : undefined;
+  const playingGain = playingSong ? trackGain(playingSong, queue.source) : undefined;
+  const playingMarkers = playingSong?.markers ?? [];
+  // A loop belongs to the song it was set on, and stays while switching between
+  // its versions. Reset while rendering so the player never gets a stale loop.
+  if (loopSongId !== currentSong?.id) {
+    setLoopSongId(currentSong?.id);
+    setLoopRegion(null);
+    setLoopStart(null);
+  }
+
+  // Keep the queue in step with edits to the playlist or library. Declared before
+  // the initial load so a restored queue isn't synced against the empty first render.
+  const playlistSongIds = playlist.songs.map(s => s.id).join('\n');
+  const librarySongIds = visibleLibrarySongs.map(s => s.id).join('\n');
   useEffect(() => {
-    const hash = window.location.hash.substring(1);
-    if (hash) {
-      try {
-        const decodedPlaylist: Playlist = JSON.parse(decodeURIComponent(escape(atob(hash))));
+    setQueue(prev => syncSource(prev, sourceIds(prev.source)));
+  }, [playlistSongIds, librarySongIds]);
 
-        if (decodedPlaylist.expiresAt && Date.now() > decodedPlaylist.expiresAt) {
-          setIsLinkExpired(true);
-          return;
-        }
+  // Selections only cover tracks that are still listed
+  useEffect(() => {
+    setPlaylistSelection(prev => pruneSelection(prev, sourceIds('playlist')));
+  }, [playlistSongIds]);
+  useEffect(() => {
+    setLibrarySelection(prev => pruneSelection(prev, sourceIds('library')));
+  }, [librarySongIds]);
 
-        if (decodedPlaylist.password) {
-            setPasswordProtectedPlaylist(decodedPlaylist);
-            return;
-        }
+  // Smart playlists follow the library, so their rules re-run whenever it changes
+  useEffect(() => {
+    if (isViewerMode || !playlist.smart) return;
+    setPlaylist(prev => refreshSmartPlaylist(prev, currentVersions(uploadedSongs)));
+  }, [uploadedSongs, playlist.smart, isViewerMode]);
 
-        setPlaylist(decodedPlaylist);
-        setIsViewerMode(true);
-        if (decodedPlaylist.songs.length > 0) {
-          setCurrentSong(decodedPlaylist.songs[0]);
-        }
-      } catch (error) {
-        console.error("Failed to parse playlist from URL hash:", error);
-      }
+  // Load from URL hash or local storage on initial mount
+  useEffect(() => {
+    const hash = window.location.hash.substring(1);
+    if (hash === 'open') {
+      // Landing page for clients who received a .playlist file instead of a link
+      setIsAwaitingShareFile(true);
+    } else if (hash && !hash.startsWith(FEEDBACK_HASH_PREFIX)) {
+      decodeShareHash(hash)
+        .then(openDecodedShare)
+        .catch(error => {
+          console.error("Failed to parse playlist from URL hash:", error);
+          setIsLinkInvalid(true);
+        });
     } else {
-        // Load saved playlists and producer profile from local storage
-        try {
-            const storedPlaylists = localStorage.getItem('producerPlaylists');
-            if (storedPlaylists) setSavedPlaylists(JSON.parse(storedPlaylists));
-            
-            const storedProfile = localStorage.getItem('producerProfile');
-            if (storedProfile) setProducerProfile(JSON.parse(storedProfile));
-
-            const storedLibrary = localStorage.getItem('songLibrary');
-            if (storedLibrary) {
-                setUploadedSongs(JSON.parse(storedLibrary));
+        // Load saved playlists and producer profile from local storage. Each key is
+        // read on its own so one damaged entry doesn't discard the others.
+        const loadStored = <T,>(key: string, load: (value: unknown) => T, apply: (value: T) => void) => {
+            try {
+                const stored = localStorage.getItem(key);
+                if (stored) apply(load(JSON.parse(stored)));
+            } catch (error) {
+                console.error(`Failed to load ${key} from local storage:`, error);
+                showNotification("Some saved data could not be read and was skipped.");
             }
-            
-            const storedActivePlaylist = localStorage.getItem('activePlaylist');
-            if (storedActivePlaylist) {
-                setPlaylist(JSON.parse(storedActivePlaylist));
+        };
+        // The library is stored as a bare list, so its version is kept alongside it
+        const workspaceVersion = Number(localStorage.getItem('workspaceSchemaVersion')) || 1;
+        // Legacy ids are migrated only once the open playlist has found its audio under them
+        let activePlaylistHydrated: Promise<unknown> = Promise.resolve();
+
+        loadStored('producerPlaylists', loadPlaylists, ({ playlists, rejected }) => {
+            setSavedPlaylists(playlists);
+            if (rejected > 0) {
+                showNotification(`${rejected} saved playlist${rejected !== 1 ? 's' : ''} could not be read and ${rejected !== 1 ? 'were' : 'was'} skipped.`);
             }
-        } catch (error) {
-            console.error("Failed to load data from local storage:", error);
+        });
+
+        loadStored('producerProfile', loadProducerProfile, setProducerProfile);
+
+        loadStored('libraryFilterPresets', loadFilterPresets, setFilterPresets);
+
+        loadStored('songLibrary', value => loadSongs(value, workspaceVersion), librarySongs => {
+            setUploadedSongs(librarySongs);
+            // Re-attach audio saved in IndexedDB so tracks are playable again
+            attachStoredAudio(librarySongs).then(async hydrated => {
+                const hydratedById = new Map(hydrated.map(song => [song.id, song]));
+                setUploadedSongs(prev => prev.map(s => s.url ? s : hydratedById.get(s.id) || s));
+                await activePlaylistHydrated;
+                renameSongIds(await migrateLegacySongIds(hydrated));
+            });
+        });
+
+        loadStored('songTrash', value => loadSongs(value, workspaceVersion), trashed => {
+            setTrashedSongs(trashed);
+            attachStoredAudio(trashed).then(hydrated => {
+                const hydratedById = new Map(hydrated.map(song => [song.id, song]));
+                setTrashedSongs(prev => prev.map(s => s.url ? s : hydratedById.get(s.id) || s));
+            });
+        });
+
+        loadStored('playbackQueue', restoreQueue, restored => {
+            if (!restored) return;
+            const { position, ...restoredQueue } = restored;
+            setQueue(restoredQueue);
+            // Resume where playback left off once the track's audio has loaded
+            if (position > 0) pendingSeekRef.current = position;
+        });
+
+        loadStored('activePlaylist', loadPlaylist, activePlaylist => {
+            setPlaylist(activePlaylist);
+            activePlaylistHydrated = attachStoredAudio(activePlaylist.songs).then(hydrated => {
+                const hydratedById = new Map(hydrated.map(song => [song.id, song]));
+                setPlaylist(prev => ({
+                    ...prev,
+                    songs: prev.songs.map(s => s.url ? s : hydratedById.get(s.id) || s)
+                }));
+            });
+        });
+
+        // A client's feedback return link opens the producer workspace and merges the comments
+        if (hash) {
+            window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+            decodeFeedbackHash(hash)
+                .then(handleImportFeedback)
+                .catch(error => {
+                    console.error("Failed to read feedback link:", error);
+                    showNotification("This feedback link could not be read.");
+                });
         }
     }
   }, []);
@@ -117,18 +371,45 @@ const App: React.FC = () => {
         try {
             const playlistToSave = {
                 ...playlist,
+                schemaVersion: CURRENT_SCHEMA_VERSION,
                 songs: playlist.songs.map(({ file, url, ...rest }) => rest)
             };
             localStorage.setItem('activePlaylist', JSON.stringify(playlistToSave));
             
             const libraryToSave = uploadedSongs.map(({ file, url, ...rest }) => rest);
             localStorage.setItem('songLibrary', JSON.stringify(libraryToSave));
+            localStorage.setItem('songTrash', JSON.stringify(trashedSongs.map(({ file, url, ...rest }) => rest)));
+            localStorage.setItem('workspaceSchemaVersion', String(CURRENT_SCHEMA_VERSION));
 
         } catch (error) {
             console.error("Failed to save workspace to local storage:", error);
         }
     }
-  }, [playlist, uploadedSongs, isViewerMode]);
+  }, [playlist, uploadedSongs, trashedSongs, isViewerMode]);
+
+  // Save the queue and playback position so the player picks up where it left off
+  useEffect(() => {
+    if (isViewerMode) return;
+    const saveQueue = () => {
+        try {
+            const position = pendingSeekRef.current ?? playerRef.current?.currentTime ?? 0;
+            localStorage.setItem('playbackQueue', JSON.stringify({ ...queue, position }));
+        } catch (error) {
+            console.error("Failed to save playback queue:", error);
+        }
+    };
+    saveQueue();
+    window.addEventListener('pagehide', saveQueue);
+    return () => window.removeEventListener('pagehide', saveQueue);
+  }, [queue, isPlaying, isViewerMode]);
+
+  // Refresh the storage usage readout whenever the library changes
+  useEffect(() => {
+    if (isViewerMode) return;
+    getStorageUsage()
+        .then(setStorageUsage)
+        .catch(error => console.error("Failed to estimate storage usage:", error));
+  }, [uploadedSongs, isViewerMode]);
 
   const showNotification = (message: string) => {
     setNotification(message);
@@ -137,41 +418,149 @@ const App: React.FC = () => {
     }, 2000);
   };
 
+  // Destructive edits get a toast that can take them back
+  const showUndoToast = (message: string) => {
+    setUndoToast(message);
+    window.clearTimeout(undoToastTimeoutRef.current);
+    undoToastTimeoutRef.current = window.setTimeout(() => setUndoToast(null), 6000);
+  };
+
+  // Replays the difference between two workspaces onto the current state
+  const applyWorkspaceChange = (from: Workspace, to: Workspace, revive: (song: Song) => Song = song => song) => {
+    if (from.library !== to.library) setUploadedSongs(prev => mergeList(prev, from.library, to.library, revive));
+    if (from.trash !== to.trash) setTrashedSongs(prev => mergeList(prev, from.trash, to.trash, revive));
+    if (from.playlist !== to.playlist) {
+      setPlaylist(prev => mergePlaylist(prev, from.playlist, to.playlist, workspaceRef.current.library, revive));
+    }
+    if (from.savedPlaylists !== to.savedPlaylists) {
+      setSavedPlaylists(prev => {
+        const newPlaylists = mergeList(prev, from.savedPlaylists, to.savedPlaylists);
+        localStorage.setItem('producerPlaylists', JSON.stringify(newPlaylists));
+        return newPlaylists;
+      });
+    }
+  };
+
+  // Every edit the producer makes goes through here so it can be undone.
+  // `edit` gets the workspace as it is and returns the changed one.
+  const applyEdit = (label: string, edit: (workspace: Workspace) => Workspace, coalesce?: string) => {
+    const before = workspaceRef.current;
+    const after = edit(before);
+    if (after === before) return;
+    workspaceRef.current = after;
+    applyWorkspaceChange(before, after);
+    setHistory(prev => recordEntry(prev, { label, before, after, coalesce }));
+  };
+
+  const handleUndo = () => {
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return;
+    applyWorkspaceChange(entry.after, entry.before, reviveSong);
+    setHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, entry] }));
+    setUndoToast(null);
+    showNotification(`Undid: ${entry.label}`);
+  };
+
+  const handleRedo = () => {
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return;
+    applyWorkspaceChange(entry.before, entry.after, reviveSong);
+    setHistory(prev => ({ undo: [...prev.undo, entry], redo: prev.redo.slice(0, -1) }));
+    showNotification(`Redid: ${entry.label}`);
+  };
+
   useEffect(() => {
-    if (audioRef.current && currentSong) {
-      if (currentSong.url) {
-        audioRef.current.src = currentSong.url;
-        if (isPlaying) {
-          audioRef.current.play().catch(e => console.error("Error playing audio:", e));
-        }
+    if (playerRef.current && playingSong) {
+      if (playingSong.url) {
+        playerRef.current.load({ id: playingSong.id, url: playingSong.url, gain: playingGain }, isPlaying)
+          .catch(e => console.error("Error playing audio:", e));
       } else if (isPlaying) {
           setIsPlaying(false);
       }
     }
-  }, [currentSong]);
+  }, [playingSong?.id, playingSong?.url, playingGain]);
 
+  // Loading a track clears the player's loop, so it's handed over again when
+  // another version of the song loads
   useEffect(() => {
-    const audio = audioRef.current;
+    playerRef.current?.setLoop(loopRegion);
+  }, [loopRegion, playingSong?.id]);
+
+  useEffect(() => {
+    let isLatest = true;
+    setIsStretching(true);
+    playerRef.current?.setTempo(playbackRate, transpose)
+      .catch(error => {
+        console.error("Failed to change playback speed:", error);
+        showNotification("Couldn't change the speed of this track.");
+      })
+      .finally(() => isLatest && setIsStretching(false));
+    return () => {
+      isLatest = false;
+    };
+  }, [playbackRate, transpose]);
+
+  // Hand the player the track the queue moves to next, so it's buffered ahead
+  // of time and joined without a gap (or crossfaded, if the playlist asks for it)
+  const prepareNextTrack = (fromQueue: QueueState) => {
+    const upcoming = next(fromQueue, 'ended', isPlayable);
+    upcomingQueueRef.current = upcoming;
+    const song = upcoming?.currentId ? findSong(upcoming.currentId, upcoming.source) : undefined;
+    // Crossfading a repeated track into itself would only dip the volume
+    const crossfade = fromQueue.source === 'playlist' && upcoming?.currentId !== fromQueue.currentId ? playlist.crossfade ?? 0 : 0;
+    playerRef.current?.setNext(song?.url ? { id: song.id, url: song.url, gain: trackGain(song, fromQueue.source) } : null, crossfade);
+  };
+
+  useEffect(() => {
+    prepareNextTrack(queue);
+  }, [queue, playlist.songs, uploadedSongs, playlist.crossfade, playlist.loudnessMatch]);
+
+  useEffect(() => {
+    const audio = playerRef.current;
     if (!audio) return;
 
     const handlePlay = () => setIsPlaying(true);
     const handlePause = () => setIsPlaying(false);
-    const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
-    const handleLoadedMetadata = () => setDuration(audio.duration);
+    const handleTimeUpdate = () => {
+      setCurrentTime(audio.currentTime);
+      setMediaSessionPosition(audio.duration, audio.currentTime, audio.playbackRate);
+    };
+    const handleLoadedMetadata = () => {
+      setDuration(audio.duration);
+      // Apply a seek requested from a waveform before this song was loaded
+      if (pendingSeekRef.current !== null) {
+        audio.currentTime = pendingSeekRef.current;
+        pendingSeekRef.current = null;
+      }
+    };
+    // Reached only when the next track wasn't ready in time (or there isn't one)
     const handleSongEnd = () => {
-      const currentIdx = playlist.songs.findIndex(s => s.id === currentSong?.id);
-      if (currentIdx !== -1 && currentIdx < playlist.songs.length - 1) {
-        setCurrentSong(playlist.songs[currentIdx + 1]);
+      const upcoming = next(queue, 'ended', isPlayable);
+      if (upcoming) {
+        playQueue(upcoming);
       } else {
         setIsPlaying(false);
       }
     }
+    const handleAdvance = () => {
+      const advanced = upcomingQueueRef.current;
+      if (!advanced) return;
+      setQueue(advanced);
+      // Under repeat-one the queue doesn't change, so re-arm the player directly
+      prepareNextTrack(advanced);
+    };
+    const handleError = () => {
+      setIsPlaying(false);
+      showNotification("This track could not be played.");
+    };
 
     audio.addEventListener('play', handlePlay);
     audio.addEventListener('pause', handlePause);
     audio.addEventListener('timeupdate', handleTimeUpdate);
     audio.addEventListener('loadedmetadata', handleLoadedMetadata);
     audio.addEventListener('ended', handleSongEnd);
+    audio.addEventListener('advance', handleAdvance);
+    audio.addEventListener('error', handleError);
 
     return () => {
       audio.removeEventListener('play', handlePlay);
@@ -179,8 +568,10 @@ const App: React.FC = () => {
       audio.removeEventListener('timeupdate', handleTimeUpdate);
       audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
       audio.removeEventListener('ended', handleSongEnd);
+      audio.removeEventListener('advance', handleAdvance);
+      audio.removeEventListener('error', handleError);
     };
-  }, [currentSong, playlist.songs]);
+  }, [currentSong?.id, queue, playlist.songs, uploadedSongs]);
 
   const updateSongInState = useCallback((songId: string, updates: Partial<Song>) => {
     const updater = (s: Song) => s.id === songId ? { ...s, ...updates } : s;
@@ -189,23 +580,85 @@ const App: React.FC = () => {
         ...prev,
         songs: prev.songs.map(updater)
     }));
-    if (currentSong?.id === songId) {
-        setCurrentSong(prev => prev ? { ...prev, ...updates } : null);
-    }
-  }, [currentSong?.id]);
+  }, []);
+
+  // Work that decodes a whole track runs one job at a time, so a big upload
+  // or library never holds more than one decoded track in memory
+  const queueDecode = useCallback(<T,>(decode: () => Promise<T>): Promise<T> => {
+    const result = decodeQueueRef.current.then(decode);
+    decodeQueueRef.current = result.catch(() => undefined);
+    return result;
+  }, []);
+
+  // Compute waveform peaks once for each library song that has audio but no peaks yet
+  useEffect(() => {
+    uploadedSongs.forEach(song => {
+      if (song.peaks || !song.file || peaksRequestedRef.current.has(song.id)) return;
+      peaksRequestedRef.current.add(song.id);
+      const file = song.file;
+      queueDecode(() => computePeaks(file))
+        .then(peaks => updateSongInState(song.id, { peaks }))
+        .catch(error => console.error(`Failed to compute waveform for song: ${song.name}`, error));
+    });
+  }, [uploadedSongs, updateSongInState, queueDecode]);
+
+  // Fingerprint songs uploaded before fingerprinting, so they take part in duplicate detection
+  useEffect(() => {
+    uploadedSongs.forEach(song => {
+      if (song.fingerprint || !song.file || fingerprintsRequestedRef.current.has(song.id)) return;
+      fingerprintsRequestedRef.current.add(song.id);
+      const file = song.file;
+      queueDecode(() => computeFingerprint(file))
+        .then(fingerprint => updateSongInState(song.id, { fingerprint }))
+        .catch(error => console.error(`Failed to fingerprint song: ${song.name}`, error));
+    });
+  }, [uploadedSongs, updateSongInState, queueDecode]);
+
+  // Measure loudness for songs that don't have it yet
+  useEffect(() => {
+    uploadedSongs.forEach(song => {
+      const file = song.file;
+      if (song.loudness !== undefined || !file || loudnessRequestedRef.current.has(song.id)) return;
+      loudnessRequestedRef.current.add(song.id);
+      queueDecode(() => measureAudioLoudness(file))
+        .then(measurement => updateSongInState(song.id, measurement))
+        .catch(error => console.error(`Failed to measure loudness for song: ${song.name}`, error));
+    });
+  }, [uploadedSongs, updateSongInState, queueDecode]);
 
   const analyzeTrack = useCallback(async (song: Song) => {
+    // BPM and key come from the audio itself when we have it; the AI only fills
+    // in descriptive fields, or guesses BPM/key from the title as a fallback.
+    const tagged = new Set(song.taggedFields);
+    let localResult: LocalAnalysisResult | null = null;
+    const file = song.file;
+    if (file && !(tagged.has('bpm') && tagged.has('key'))) {
+      try {
+        localResult = withoutTaggedFields(song, await queueDecode(() => analyzeAudioFile(file)));
+        updateSongInState(song.id, localResult);
+      } catch (error) {
+        console.error("Local audio analysis failed, falling back to AI estimates:", error);
+      }
+    }
+    const knownBpm = tagged.has('bpm') ? song.bpm : localResult?.bpm;
+    const knownKey = tagged.has('key') ? song.key : localResult?.key;
+    const needsAiTempoAndKey = !knownBpm || !knownKey;
+
     try {
       const response = await ai.models.generateContent({
         model: "gemini-2.5-flash",
-        contents: `Analyze the following track title and provide its estimated BPM, musical key, genre, mood, instrumentation (as a JSON array of strings), and a few relevant genre tags (as a JSON array of strings). Track title: "${song.name}"`,
+        contents: needsAiTempoAndKey
+          ? `Analyze the following track title and provide its estimated BPM, musical key, genre, mood, instrumentation (as a JSON array of strings), and a few relevant genre tags (as a JSON array of strings). Track title: "${song.name}"`
+          : `Analyze the following track and provide its genre, mood, instrumentation (as a JSON array of strings), and a few relevant genre tags (as a JSON array of strings). Track title: "${song.name}". Measured tempo: ${knownBpm} BPM. Measured key: ${knownKey}.`,
         config: {
           responseMimeType: "application/json",
           responseSchema: {
             type: Type.OBJECT,
             properties: {
-              bpm: { type: Type.STRING },
-              key: { type: Type.STRING },
+              ...(needsAiTempoAndKey && {
+                bpm: { type: Type.STRING },
+                key: { type: Type.STRING },
+              }),
               genre: { type: Type.STRING },
               mood: { type: Type.STRING },
               instrumentation: {
@@ -222,154 +675,653 @@ const App: React.FC = () => {
       });
       
       const data = JSON.parse(response.text);
-      updateSongInState(song.id, { 
-          bpm: data.bpm || 'N/A', 
-          key: data.key || 'N/A', 
+      updateSongInState(song.id, withoutTaggedFields(song, {
+          bpm: localResult?.bpm || data.bpm || 'N/A', 
+          bpmConfidence: localResult?.bpm ? localResult.bpmConfidence : undefined,
+          key: localResult?.key || data.key || 'N/A', 
+          keyConfidence: localResult?.key ? localResult.keyConfidence : undefined,
           genre: data.genre || 'N/A', 
           mood: data.mood || 'N/A',
           instrumentation: data.instrumentation || [],
           genreTags: data.genreTags || [],
           analyzing: false 
-      });
+      }));
 
     } catch (error) {
       console.error("Failed to analyze track:", error);
       updateSongInState(song.id, { analyzing: false });
     }
-  }, [ai.models, updateSongInState]);
+  }, [ai.models, updateSongInState, queueDecode]);
 
   const handleManualAnalysis = (song: Song) => {
     updateSongInState(song.id, { analyzing: true });
     analyzeTrack(song);
   };
 
-  const handlePlayPause = (song: Song) => {
+  // Moves playback to the queue's current track, restarting it if it's the one already loaded
+  const playQueue = (nextQueue: QueueState) => {
+    if (nextQueue.currentId === queue.currentId && playerRef.current) {
+      playerRef.current.currentTime = 0;
+      playerRef.current.play().catch(e => console.error("Error playing audio:", e));
+    }
+    setQueue(nextQueue);
+    setIsPlaying(true);
+  };
+
+  const handlePlayPause = (song: Song, source: QueueSource = 'playlist') => {
     if (currentSong?.id === song.id) {
       if (isPlaying) {
-        audioRef.current?.pause();
+        playerRef.current?.pause();
       } else {
-        audioRef.current?.play();
+        playerRef.current?.play();
       }
     } else {
-      setCurrentSong(song);
+      setQueue(prev => playFrom(prev, source, sourceIds(source), song.id));
       setIsPlaying(true);
     }
   };
 
+  const handleNextTrack = () => {
+    const upcoming = next(queue, 'skip', isPlayable);
+    if (upcoming) playQueue(upcoming);
+  };
+
+  const handlePreviousTrack = () => {
+    // Like most players, Previous restarts the track unless it has only just begun
+    const earlier = playerRef.current && playerRef.current.currentTime > 3 ? null : previous(queue);
+    if (earlier) {
+      playQueue(earlier);
+    } else if (playerRef.current) {
+      playerRef.current.currentTime = 0;
+    }
+  };
+
+  const handlePlayNext = (song: Song) => {
+    if (!currentSong) {
+      handlePlayPause(song, 'library');
+      return;
+    }
+    setQueue(prev => playNext(prev, song.id));
+    showNotification(`"${song.name}" will play next.`);
+  };
+
+  const handleAddToQueue = (song: Song) => {
+    if (!currentSong) {
+      handlePlayPause(song, 'library');
+      return;
+    }
+    setQueue(prev => addToQueue(prev, song.id));
+    showNotification(`Added "${song.name}" to the queue.`);
+  };
+
+  const handleSeekBy = (delta: number) => {
+    const player = playerRef.current;
+    if (!player || !currentSong?.url) return;
+    player.currentTime = Math.min(Math.max(player.currentTime + delta, 0), duration || 0);
+  };
+
+  // The OS lock screen, notification shade and hardware media keys
+  useEffect(() => {
+    const producerName = isViewerMode ? playlist.producerProfile?.name : producerProfile.name;
+    setMediaSessionTrack(currentSong
+      ? {
+          title: currentSong.name,
+          artist: currentSong.artist || producerName,
+          album: queue.source === 'playlist' ? playlist.name : 'Library',
+          artwork: currentSong.artwork,
+        }
+      : null);
+  }, [currentSong?.id, currentSong?.name, currentSong?.artist, currentSong?.artwork, queue.source, playlist.name, playlist.producerProfile?.name, producerProfile.name, isViewerMode]);
+
+  useEffect(() => {
+    setMediaSessionPlaybackState(!currentSong ? 'none' : isPlaying ? 'playing' : 'paused');
+  }, [currentSong?.id, isPlaying]);
+
+  useEffect(() => {
+    if (!currentSong) return;
+    return setMediaSessionHandlers({
+      play: () => playerRef.current?.play(),
+      pause: () => playerRef.current?.pause(),
+      previousTrack: handlePreviousTrack,
+      nextTrack: handleNextTrack,
+      seekTo: (time) => handleSeekTo(currentSong, time),
+      seekBy: handleSeekBy,
+      stop: () => {
+        playerRef.current?.pause();
+        handleSeekTo(currentSong, 0);
+      },
+    });
+  }, [currentSong?.id, currentSong?.url, queue, duration, playlist.songs, uploadedSongs]);
+
+  // Player shortcuts apply anywhere on the page except while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (e.key === '?') {
+        e.preventDefault();
+        setIsShortcutsHelpOpen(open => !open);
+        return;
+      }
+      if (!currentSong || isShortcutsHelpOpen) return;
+
+      const key = e.key.toLowerCase();
+      // Space still presses a focused button, as it normally would
+      if (key === ' ' && (target.tagName === 'BUTTON' || target.tagName === 'A')) return;
+
+      if (key === ' ' || key === 'k') {
+        if (currentSong.url) handlePlayPause(currentSong);
+      } else if (key === 'arrowleft') {
+        if (e.shiftKey) handlePreviousTrack(); else handleSeekBy(-5);
+      } else if (key === 'arrowright') {
+        if (e.shiftKey) handleNextTrack(); else handleSeekBy(5);
+      } else if (key === 'j') {
+        handleSeekBy(-10);
+      } else if (key === 'l') {
+        handleSeekBy(10);
+      } else if (/^[0-9]$/.test(key) && duration) {
+        handleSeekTo(currentSong, (Number(key) / 10) * duration);
+      } else if (key === 'm') {
+        // Viewers comment on the moment; the producer marks it
+        if (isViewerMode) playerCommentInputRef.current?.focus();
+        else if (playingSong) handleAddMarker(playingSong, playerRef.current?.currentTime ?? 0);
+      } else if (key === 'a' && currentSong.url) {
+        handleSetLoopStart(playerRef.current?.currentTime ?? 0);
+      } else if (key === 'b' && currentSong.url) {
+        handleSetLoopEnd(playerRef.current?.currentTime ?? 0);
+      } else if ((key === '[' || key === ']') && playingMarkers.length > 0) {
+        const marker = adjacentMarker(playingMarkers, playerRef.current?.currentTime ?? 0, key === '[' ? 'previous' : 'next');
+        if (marker) handleSeekTo(currentSong, marker.time);
+      } else if (key === 'v' && currentSongVersions.length > 1) {
+        const heard = currentSongVersions.findIndex(v => v.id === playingSong?.id);
+        handleListenToVersion(currentSong, currentSongVersions[(heard + 1) % currentSongVersions.length]);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [currentSong?.id, currentSong?.url, isPlaying, queue, duration, isViewerMode, isShortcutsHelpOpen, playlist.songs, uploadedSongs, abVersion, loopStart, loopRegion]);
+
+  // Undo and redo use the usual editor keys; text fields keep their own undo
+  useEffect(() => {
+    if (isViewerMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.defaultPrevented) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) {
+        handleRedo();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, isViewerMode]);
+
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (audioRef.current) {
-      audioRef.current.currentTime = Number(e.target.value);
+    if (playerRef.current) {
+      playerRef.current.currentTime = Number(e.target.value);
+    }
+  };
+
+  const handleSeekTo = (song: Song, time: number) => {
+    if (currentSong?.id === song.id) {
+      if (playerRef.current) {
+        playerRef.current.currentTime = time;
+      }
+      setCurrentTime(time);
+    } else if (song.url) {
+      pendingSeekRef.current = time;
+      const source = playlist.songs.some(s => s.id === song.id) ? 'playlist' : 'library';
+      setQueue(prev => playFrom(prev, source, sourceIds(source), song.id));
+      setIsPlaying(true);
     }
   };
 
+  // Points every reference to a renamed song (old id -> new id) at its new id:
+  // the library, the open playlist, saved playlists and the queue
+  const renameSongIds = (renamed: Map<string, string>) => {
+    if (renamed.size === 0) return;
+    const rename = (song: Song) => renamed.has(song.id) ? { ...song, id: renamed.get(song.id)! } : song;
+    setUploadedSongs(prev => prev.map(rename));
+    setTrashedSongs(prev => prev.map(rename));
+    setPlaylist(prev => ({ ...prev, songs: prev.songs.map(rename) }));
+    setSavedPlaylists(prev => {
+      const newPlaylists = prev.map(p => ({ ...p, songs: p.songs.map(rename) }));
+      localStorage.setItem('producerPlaylists', JSON.stringify(newPlaylists));
+      return newPlaylists;
+    });
+    setQueue(prev => renameInQueue(prev, renamed));
+  };
+
+  const addSongsToLibrary = (newSongs: Song[]) => {
+    if (newSongs.length === 0) return;
+    const songsToAnalyze = newSongs.map(song => ({ ...song, analyzing: true }));
+    const addedById = new Map(songsToAnalyze.map(song => [song.id, song]));
+    applyEdit(`Upload ${plural(newSongs.length, 'track')}`, workspace => ({
+      ...workspace,
+      library: [...workspace.library, ...songsToAnalyze],
+      // A re-uploaded file is back in the library, so it's no longer trash
+      trash: withoutIds(workspace.trash, new Set(addedById.keys())),
+      // A playlist may already reference the file (e.g. after it was deleted from the library)
+      playlist: {
+        ...workspace.playlist,
+        songs: workspace.playlist.songs.map(pSong => {
+          const added = addedById.get(pSong.id);
+          return added ? { ...added, comments: pSong.comments } : pSong;
+        })
+      },
+    }));
+    songsToAnalyze.forEach(analyzeTrack);
+  };
+
   const handleSongsUploaded = (newSongs: Song[]) => {
-    const songMap = new Map(uploadedSongs.map(s => [s.id, s]));
-    const songsToAnalyze: Song[] = [];
+    // The same file dropped twice in one go only counts once
+    const uniqueSongs = newSongs.filter((song, i) => newSongs.findIndex(s => s.id === song.id) === i);
+    const duplicates: DuplicateMatch[] = [];
+    const freshSongs: Song[] = [];
+    uniqueSongs.forEach(song => {
+      const duplicate = findDuplicate(song, uploadedSongs);
+      if (duplicate) duplicates.push(duplicate);
+      else freshSongs.push(song);
+    });
+    addSongsToLibrary(freshSongs);
+    if (duplicates.length > 0) setDuplicateRequest(duplicates);
+  };
 
-    newSongs.forEach(newSong => {
-        const existingSong = songMap.get(newSong.id);
-        const isNewAnalysisNeeded = !existingSong || !existingSong.bpm;
+  // Drops an upload that won't be used. An identical file shares its stored
+  // audio with the library song, so that's left alone.
+  const discardUpload = ({ song, kind }: DuplicateMatch) => {
+    if (song.url) URL.revokeObjectURL(song.url);
+    if (kind === 'similar') {
+      deleteAudio(song.id).catch(error => console.error("Failed to delete stored audio:", error));
+    }
+  };
 
-        const updatedSong = { 
-            ...(existingSong || {}), 
-            ...newSong, 
-            analyzing: isNewAnalysisNeeded 
-        };
-        
-        songMap.set(newSong.id, updatedSong);
-        
-        if (isNewAnalysisNeeded) {
-            songsToAnalyze.push(updatedSong);
+  const handleResolveDuplicates = (resolutions: DuplicateResolution[]) => {
+    if (!duplicateRequest) return;
+    const takenIds = new Set<string>(uploadedSongs.map(s => s.id));
+    const keptSongs: Song[] = [];
+    const edits: ((workspace: Workspace) => Workspace)[] = [];
+
+    duplicateRequest.forEach((duplicate, index) => {
+      const { song, existing, kind } = duplicate;
+      const resolution = resolutions[index];
+      if (resolution === 'merge') {
+        const { id, url, file, duration, fileName, fileSize, fingerprint, peaks, loudness, truePeak, loudnessRange, ...details } = song;
+        // A different encoding's file details don't describe the library song's audio
+        const candidates: Partial<Song> = kind === 'identical' ? { url, file, peaks, loudness, truePeak, loudnessRange, ...details } : details;
+        const additions: Partial<Song> = Object.fromEntries(Object.entries(candidates).filter(([field, value]) =>
+          value !== undefined && existing[field as keyof Song] === undefined
+        ));
+        if (!additions.url) discardUpload(duplicate);
+        edits.push(workspace => updateSongs(workspace, [existing.id], () => additions));
+      } else if (resolution === 'keep') {
+        if (kind === 'identical') {
+          const id = uniqueSongId(song.id, takenIds);
+          if (song.file) saveAudio(id, song.file).catch(error => console.error(`Failed to store audio for: ${song.name}`, error));
+          keptSongs.push({ ...song, id });
+          takenIds.add(id);
+        } else {
+          keptSongs.push(song);
         }
+      } else {
+        const replacement: Song = { ...song, comments: existing.comments, addedAt: existing.addedAt ?? song.addedAt, analyzing: true };
+        const isRenamed = existing.id !== song.id;
+        const rename = (s: Song) => s.id === existing.id ? { ...s, id: song.id } : s;
+        // The replaced song goes to the trash with its audio, so this can be undone
+        edits.push(workspace => ({
+          library: workspace.library.map(s => s.id === existing.id ? replacement : s),
+          trash: isRenamed ? [...workspace.trash, existing] : workspace.trash,
+          playlist: {
+            ...workspace.playlist,
+            songs: workspace.playlist.songs.map(s => s.id === existing.id ? { ...replacement, comments: s.comments } : s)
+          },
+          savedPlaylists: isRenamed ? workspace.savedPlaylists.map(p => ({ ...p, songs: p.songs.map(rename) })) : workspace.savedPlaylists,
+        }));
+        if (isRenamed) setQueue(prev => renameInQueue(prev, new Map([[existing.id, song.id]])));
+        analyzeTrack(replacement);
+      }
     });
-    
-    const newUploadedSongs = Array.from(songMap.values());
-    setUploadedSongs(newUploadedSongs);
 
-    setPlaylist(prev => ({
-        ...prev,
-        songs: prev.songs.map(pSong => songMap.get(pSong.id) || pSong)
+    if (edits.length > 0) {
+      applyEdit(`Resolve ${plural(edits.length, 'duplicate')}`, workspace => edits.reduce((current, edit) => edit(current), workspace));
+    }
+    addSongsToLibrary(keptSongs);
+    setDuplicateRequest(null);
+  };
+
+  const handleCancelDuplicates = () => {
+    duplicateRequest?.forEach(discardUpload);
+    setDuplicateRequest(null);
+  };
+
+  // A new bounce of a track becomes its current version everywhere the track is used
+  const handleUploadVersion = async (song: Song, file: File) => {
+    if (!file.type.startsWith('audio/')) {
+      showNotification(`"${file.name}" is not an audio file.`);
+      return;
+    }
+    const upload = await createSongFromFile(file, queueDecode);
+    if (workspaceRef.current.library.some(s => s.id === upload.id)) {
+      if (upload.url) URL.revokeObjectURL(upload.url);
+      showNotification(`"${file.name}" is already in your library.`);
+      return;
+    }
+    const version: Song = { ...upload, name: song.name, analyzing: true };
+    applyEdit(`New version of "${song.name}"`, workspace => ({
+      ...addVersion(workspace, song, version),
+      trash: withoutIds(workspace.trash, new Set([version.id])),
     }));
+    analyzeTrack(version);
+    showNotification(`New version of "${song.name}" uploaded.`);
+  };
 
-    songsToAnalyze.forEach(analyzeTrack);
+  const handleMakeCurrentVersion = (version: Song) => {
+    const label = versionLabel(version, versionsOf(version, uploadedSongs));
+    applyEdit(`Make ${label} of "${version.name}" current`, workspace => makeCurrentVersion(workspace, version));
+    showNotification(`${label} is now the current version of "${version.name}".`);
+  };
+
+  // A/B comparison: plays another version of `song` from the same position
+  const handleListenToVersion = (song: Song, version: Song, startPlayback?: () => void) => {
+    if (!version.url) return;
+    const isCurrent = currentSong?.id === song.id;
+    if (isCurrent && version.id === playingSong?.id) return;
+    setAbVersion(version.id === song.id ? null : { songId: song.id, versionId: version.id });
+    if (isCurrent) {
+      pendingSeekRef.current = playerRef.current?.currentTime ?? currentTime;
+    } else {
+      startPlayback?.();
+    }
   };
 
   const addSongToPlaylist = (song: Song) => {
+    if (playlist.smart) {
+      showNotification("Smart playlists pick their own tracks. Freeze it to add tracks by hand.");
+      return;
+    }
     if (!playlist.songs.find(s => s.id === song.id)) {
-      setPlaylist(prev => ({ ...prev, songs: [...prev.songs, song] }));
+      applyEdit(`Add "${song.name}" to the playlist`, workspace => withPlaylistSongs(workspace, [...workspace.playlist.songs, song]));
     }
   };
 
-  const removeSongFromPlaylist = (songId: string) => {
-    setPlaylist(prev => ({ ...prev, songs: prev.songs.filter(s => s.id !== songId) }));
-    if (currentSong?.id === songId) {
-        if (audioRef.current) {
-            audioRef.current.pause();
-            audioRef.current.src = '';
+  // Stops playback of a track that is no longer in the playlist being played
+  const stopIfRemovedFromPlaylist = (songIds: string[]) => {
+    // A library track can keep playing after leaving the playlist
+    if (currentSong && songIds.includes(currentSong.id) && queue.source === 'playlist') {
+        if (playerRef.current) {
+            playerRef.current.load(null, false);
         }
-        setCurrentSong(null);
+        setQueue(stop);
         setIsPlaying(false);
     }
   };
+
+  const removeSongsFromPlaylist = (songIds: string[]) => {
+    const ids = new Set(songIds);
+    const label = songIds.length === 1
+      ? `Remove "${findSong(songIds[0], 'playlist')?.name}" from the playlist`
+      : `Remove ${plural(songIds.length, 'track')} from the playlist`;
+    applyEdit(label, workspace => withPlaylistSongs(workspace, withoutIds(workspace.playlist.songs, ids)));
+    stopIfRemovedFromPlaylist(songIds);
+    showUndoToast(songIds.length === 1 ? 'Removed from the playlist.' : `Removed ${plural(songIds.length, 'track')} from the playlist.`);
+  };
   
-  const deleteSongFromLibrary = (songId: string) => {
-    const songToDelete = uploadedSongs.find(s => s.id === songId);
-    if (songToDelete && songToDelete.url) {
-        URL.revokeObjectURL(songToDelete.url);
-    }
-    setUploadedSongs(prev => prev.filter(s => s.id !== songId));
-    removeSongFromPlaylist(songId);
-    if (currentSong?.id === songId) {
-        if (audioRef.current) {
-            audioRef.current.pause();
-            audioRef.current.src = '';
+  // Downloads the song's audio with its current metadata written into the file
+  const handleDownloadTagged = async (song: Song) => {
+    let tagged: Blob;
+    try {
+      const audio = song.file || (song.url ? await (await fetch(song.url)).blob() : null);
+      if (!audio) return;
+      tagged = await writeTags(audio, tagsForSong(song, producerProfile.name));
+    } catch (error) {
+      console.error("Failed to write tags:", error);
+      showNotification(`Could not tag "${song.name}": ${error instanceof Error ? error.message : 'unreadable file'}`);
+      return;
+    }
+    const url = URL.createObjectURL(tagged);
+    const link = document.createElement("a");
+    link.href = url;
+    const sanitizedName = song.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    link.download = song.file?.name || `${sanitizedName || 'track'}.${tagged.type === 'audio/flac' ? 'flac' : 'mp3'}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    showNotification(`Downloaded "${song.name}" with tags`);
+  };
+
+  const handleSaveFilterPreset = (name: string) => {
+    const preset: LibraryFilterPreset = { id: `preset-${Date.now()}`, name, query: libraryQuery, sort: librarySort };
+    setFilterPresets(prev => {
+      const newPresets = [...prev, preset];
+      localStorage.setItem('libraryFilterPresets', JSON.stringify(newPresets));
+      return newPresets;
+    });
+    showNotification(`Saved filter "${name}"`);
+  };
+
+  const handleDeleteFilterPreset = (presetId: string) => {
+    setFilterPresets(prev => {
+      const newPresets = prev.filter(p => p.id !== presetId);
+      localStorage.setItem('libraryFilterPresets', JSON.stringify(newPresets));
+      return newPresets;
+    });
+  };
+
+  // Deleted songs go to the trash, keeping their audio until it's emptied
+  const deleteSongsFromLibrary = (songIds: string[]) => {
+    const ids = new Set(songIds);
+    const label = songIds.length === 1
+      ? `Delete "${findSong(songIds[0], 'library')?.name}"`
+      : `Delete ${plural(songIds.length, 'track')}`;
+    applyEdit(label, workspace => ({
+      ...workspace,
+      library: withoutIds(workspace.library, ids),
+      trash: [...workspace.trash, ...workspace.library.filter(s => ids.has(s.id))],
+      playlist: { ...workspace.playlist, songs: withoutIds(workspace.playlist.songs, ids) },
+    }));
+    if (currentSong && ids.has(currentSong.id)) {
+        if (playerRef.current) {
+            playerRef.current.load(null, false);
         }
-        setCurrentSong(null);
         setIsPlaying(false);
     }
+    setQueue(prev => songIds.reduce(removeFromQueue, prev));
+    showUndoToast(songIds.length === 1 ? 'Moved to the trash.' : `Moved ${plural(songIds.length, 'track')} to the trash.`);
+  };
+
+  const handleRestoreFromTrash = (songId: string) => {
+    const song = trashedSongs.find(s => s.id === songId);
+    if (!song) return;
+    applyEdit(`Restore "${song.name}"`, workspace => ({
+      ...workspace,
+      trash: withoutIds(workspace.trash, new Set([songId])),
+      // A re-upload of the same file may already be back in the library
+      library: workspace.library.some(s => s.id === songId) ? workspace.library : [...workspace.library, reviveSong(song)],
+    }));
+  };
+
+  // Permanent: the audio is deleted, and undo history that could bring it back is cleared
+  const handleEmptyTrash = () => {
+    // Saved playlists load their songs' audio from the store, so it stays for songs they still use
+    const keptFor = savedPlaylists.filter(saved => saved.songs.some(song => trashedSongs.some(t => t.id === song.id)));
+    const keptNote = keptFor.length > 0
+      ? ` Audio used by ${keptFor.length === 1 ? 'the saved playlist' : 'the saved playlists'} ${keptFor.map(p => `"${p.name}"`).join(', ')} is kept.`
+      : '';
+    if (!window.confirm(`Permanently delete ${plural(trashedSongs.length, 'track')} and their audio?${keptNote} This can't be undone.`)) return;
+    // The same file may have been uploaded again under the same id
+    const inUse = new Set([...uploadedSongs, ...playlist.songs, ...savedPlaylists.flatMap(saved => saved.songs)].map(s => s.id));
+    const openSongs = [...uploadedSongs, ...playlist.songs];
+    const openIds = new Set(openSongs.map(s => s.id));
+    const openUrls = new Set(openSongs.map(s => s.url));
+    trashedSongs.forEach(song => {
+      if (song.url && !openUrls.has(song.url)) URL.revokeObjectURL(song.url);
+      if (!inUse.has(song.id)) {
+        deleteAudio(song.id).catch(error => console.error("Failed to delete stored audio:", error));
+      }
+    });
+    setTrashedSongs([]);
+    setHistory(prev => withoutSongs(prev, new Set(trashedSongs.filter(song => !openIds.has(song.id)).map(song => song.id))));
+    setUndoToast(null);
+    showNotification("Trash emptied.");
   };
 
   const reorderSongInPlaylist = (songId: string, direction: 'up' | 'down') => {
     const songIndex = playlist.songs.findIndex(s => s.id === songId);
     if (songIndex === -1) return;
+    const label = `Move "${playlist.songs[songIndex].name}" ${direction}`;
 
     if (direction === 'up' && songIndex > 0) {
       const newSongs = [...playlist.songs];
       [newSongs[songIndex - 1], newSongs[songIndex]] = [newSongs[songIndex], newSongs[songIndex - 1]];
-      setPlaylist(prev => ({ ...prev, songs: newSongs }));
+      applyEdit(label, workspace => withPlaylistSongs(workspace, newSongs));
     } else if (direction === 'down' && songIndex < playlist.songs.length - 1) {
       const newSongs = [...playlist.songs];
       [newSongs[songIndex + 1], newSongs[songIndex]] = [newSongs[songIndex], newSongs[songIndex + 1]];
-      setPlaylist(prev => ({ ...prev, songs: newSongs }));
+      applyEdit(label, workspace => withPlaylistSongs(workspace, newSongs));
     }
   };
   
+  const handleSelectSong = (list: SongList, songId: string, e: React.MouseEvent) => {
+    const modifiers = { shift: e.shiftKey, toggle: e.ctrlKey || e.metaKey };
+    const setSelection = list === 'library' ? setLibrarySelection : setPlaylistSelection;
+    setSelection(prev => selectWithModifiers(prev, sourceIds(list), songId, modifiers));
+  };
+
+  const selectedIds = (list: SongList) =>
+    orderedSelection(list === 'library' ? librarySelection : playlistSelection, sourceIds(list));
+
+  const handleBulkAddToPlaylist = () => {
+    if (playlist.smart) {
+      showNotification("Smart playlists pick their own tracks. Freeze it to add tracks by hand.");
+      return;
+    }
+    const inPlaylist = new Set(playlist.songs.map(s => s.id));
+    const adding = selectedIds('library').filter(id => !inPlaylist.has(id)).map(id => findSong(id, 'library')).filter((s): s is Song => !!s);
+    if (adding.length > 0) {
+      applyEdit(`Add ${plural(adding.length, 'track')} to the playlist`, workspace => withPlaylistSongs(workspace, [...workspace.playlist.songs, ...adding]));
+    }
+    setLibrarySelection(EMPTY_SELECTION);
+    showNotification(adding.length > 0
+      ? `Added ${adding.length} track${adding.length !== 1 ? 's' : ''} to the playlist.`
+      : "Those tracks are already in the playlist.");
+  };
+
+  const handleBulkRemoveFromPlaylist = () => {
+    removeSongsFromPlaylist(selectedIds('playlist'));
+    setPlaylistSelection(EMPTY_SELECTION);
+  };
+
+  const handleBulkDelete = () => {
+    deleteSongsFromLibrary(selectedIds('library'));
+    setLibrarySelection(EMPTY_SELECTION);
+  };
+
+  const handleBulkAnalyze = (list: SongList) => {
+    selectedIds(list).forEach(id => {
+      const song = findSong(id, list);
+      if (song && !song.analyzing) handleManualAnalysis(song);
+    });
+  };
+
+  const handleSaveBulkEdit = (form: EditFormData) => {
+    if (!bulkEditIds) return;
+    applyEdit(`Edit ${plural(bulkEditIds.length, 'track')}`, workspace => updateSongs(workspace, bulkEditIds, song => updatesFromEditForm(song, form)));
+    showNotification(`Updated ${bulkEditIds.length} track${bulkEditIds.length !== 1 ? 's' : ''}.`);
+    setBulkEditIds(null);
+  };
+
+  // Dragging a selected track drags the whole selection along with it
+  const handleDragStart = (from: SongList, song: Song, e: React.DragEvent<HTMLDivElement>) => {
+    const selection = selectedIds(from);
+    const ids = selection.includes(song.id) ? selection : [song.id];
+    dragRef.current = { from, ids };
+    e.dataTransfer.effectAllowed = from === 'library' ? 'copy' : 'move';
+    e.dataTransfer.setData('text/plain', ids.map(id => findSong(id, from)?.name).join('\n'));
+  };
+
+  const handleDragEnd = () => {
+    dragRef.current = null;
+    setDropIndex(null);
+  };
+
+  // Dropping in the top half of a track inserts before it, the bottom half after it
+  const handlePlaylistDragOver = (e: React.DragEvent<HTMLDivElement>, index?: number) => {
+    if (!dragRef.current || playlist.smart) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = dragRef.current.from === 'library' ? 'copy' : 'move';
+    let position = playlist.songs.length;
+    if (index !== undefined) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      position = e.clientY < rect.top + rect.height / 2 ? index : index + 1;
+    }
+    if (position !== dropIndex) setDropIndex(position);
+  };
+
+  const handlePlaylistDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || playlist.smart) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const index = dropIndex ?? playlist.songs.length;
+    const label = drag.from === 'library'
+      ? `Add ${plural(drag.ids.length, 'track')} to the playlist`
+      : `Move ${plural(drag.ids.length, 'track')}`;
+    applyEdit(label, workspace => {
+      // Tracks already in the playlist keep their playlist copy, comments included
+      const incoming = drag.ids
+        .map(id => workspace.playlist.songs.find(s => s.id === id) || (drag.from === 'library' ? workspace.library.find(s => s.id === id) : undefined))
+        .filter((s): s is Song => !!s);
+      return withPlaylistSongs(workspace, insertSongsAt(workspace.playlist.songs, incoming, index));
+    });
+    handleDragEnd();
+  };
+
+  // Applied by id so edits made while the preview was open aren't lost
+  const handleApplySequence = (ordered: Song[]) => {
+    applyEdit('Auto-sequence', workspace => withPlaylistSongs(workspace, reorderByIds(workspace.playlist.songs, ordered.map(s => s.id))));
+    setIsSequencing(false);
+    showUndoToast("Playlist re-sequenced.");
+  };
+
   const handleSavePlaylist = () => {
     const playlistToSave: Playlist = {
       ...playlist,
       producerProfile: producerProfile,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       songs: playlist.songs.map(({ file, analyzing, url, ...song }) => song as Song),
     };
 
-    setSavedPlaylists(prev => {
-      const existingIndex = prev.findIndex(p => p.id === playlist.id);
+    applyEdit(`Save "${playlist.name}"`, workspace => {
+      const existingIndex = workspace.savedPlaylists.findIndex(p => p.id === playlist.id);
       let newPlaylists;
       if (existingIndex > -1) {
-        newPlaylists = [...prev];
+        newPlaylists = [...workspace.savedPlaylists];
         newPlaylists[existingIndex] = playlistToSave;
       } else {
-        newPlaylists = [...prev, playlistToSave];
+        newPlaylists = [...workspace.savedPlaylists, playlistToSave];
       }
-      localStorage.setItem('producerPlaylists', JSON.stringify(newPlaylists));
-      showNotification(`Playlist "${playlist.name}" saved!`);
-      return newPlaylists;
+      return { ...workspace, savedPlaylists: newPlaylists };
     });
+    showNotification(`Playlist "${playlist.name}" saved!`);
   };
 
   const handleExportPlaylist = () => {
     const playlistToExport: Playlist = {
       ...playlist,
       producerProfile: producerProfile,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       songs: playlist.songs.map(({ file, analyzing, url, ...song }) => song as Song),
     };
 
@@ -386,15 +1338,80 @@ const App: React.FC = () => {
     showNotification("Playlist exported as JSON!");
   };
 
-  const handleLoadPlaylist = (playlistId: string) => {
+  const handleImportPlaylistFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let importedPlaylist: Playlist;
+    try {
+      importedPlaylist = parsePlaylistFile(await file.text());
+    } catch (error) {
+      console.error("Failed to import playlist:", error);
+      showNotification(`Could not import "${file.name}": ${error instanceof Error ? error.message : 'invalid file'}`);
+      return;
+    }
+
+    applyEdit(`Import "${importedPlaylist.name}"`, workspace => {
+      const existingIndex = workspace.savedPlaylists.findIndex(p => p.id === importedPlaylist.id);
+      const newPlaylists = existingIndex > -1
+        ? workspace.savedPlaylists.map((p, i) => i === existingIndex ? importedPlaylist : p)
+        : [...workspace.savedPlaylists, importedPlaylist];
+      return { ...workspace, savedPlaylists: newPlaylists };
+    });
+
+    const storedIds = new Set(await getStoredAudioIds().catch(() => [] as string[]));
+    const missingSongs = importedPlaylist.songs.filter(song =>
+      !uploadedSongs.some(libSong => libSong.id === song.id && libSong.url) && !storedIds.has(song.id)
+    );
+    if (missingSongs.length > 0) {
+      setRelinkRequest({ playlist: importedPlaylist, missingSongs });
+    } else {
+      showNotification(`Playlist "${importedPlaylist.name}" imported!`);
+    }
+  };
+
+  const handleRelink = (matches: RelinkMatch[]) => {
+    if (!relinkRequest) return;
+    // Relinked audio is stored under the playlist's existing Song.id so every reference still resolves
+    const relinkedSongs: Song[] = matches.map(({ song, file }) => {
+      const { comments, ...librarySong } = song;
+      saveAudio(song.id, file).catch(error => console.error(`Failed to store audio for: ${file.name}`, error));
+      return { ...librarySong, file, url: URL.createObjectURL(file) };
+    });
+    const relinkedById = new Map(relinkedSongs.map(song => [song.id, song]));
+
+    applyEdit(`Relink ${plural(relinkedSongs.length, 'track')}`, workspace => ({
+      ...workspace,
+      library: [...workspace.library.filter(s => !relinkedById.has(s.id)), ...relinkedSongs],
+      playlist: {
+        ...workspace.playlist,
+        songs: workspace.playlist.songs.map(s => {
+          const relinked = relinkedById.get(s.id);
+          return relinked ? { ...relinked, comments: s.comments } : s;
+        })
+      },
+    }));
+
+    const stillMissing = relinkRequest.missingSongs.filter(song => !relinkedById.has(song.id));
+    showNotification(stillMissing.length > 0
+      ? `Relinked ${relinkedSongs.length} track${relinkedSongs.length !== 1 ? 's' : ''}. Still missing: ${stillMissing.map(s => s.name).join(', ')}`
+      : `All ${relinkedSongs.length} tracks relinked!`);
+    setRelinkRequest(null);
+  };
+
+  const handleLoadPlaylist = async (playlistId: string) => {
     const playlistToLoad = savedPlaylists.find(p => p.id === playlistId);
     if (playlistToLoad) {
-      const hydratedSongs = playlistToLoad.songs.map(savedSong => {
+      const librarySongs = playlistToLoad.songs.map(savedSong => {
         const librarySong = uploadedSongs.find(libSong => libSong.id === savedSong.id);
-        return librarySong || savedSong;
+        // Comments belong to the playlist, not the library copy of the song
+        return librarySong ? { ...librarySong, comments: savedSong.comments } : savedSong;
       });
+      // Songs no longer in the library may still have audio in the blob store
+      const hydratedSongs = await attachStoredAudio(librarySongs);
 
-      setPlaylist({ ...playlistToLoad, songs: hydratedSongs });
+      applyEdit(`Load "${playlistToLoad.name}"`, workspace => ({ ...workspace, playlist: { ...playlistToLoad, songs: hydratedSongs } }));
       if (playlistToLoad.producerProfile) {
         setProducerProfile(playlistToLoad.producerProfile);
       }
@@ -403,24 +1420,51 @@ const App: React.FC = () => {
   };
 
   const handleDeleteSavedPlaylist = (playlistId: string) => {
-      setSavedPlaylists(prev => {
-          const newPlaylists = prev.filter(p => p.id !== playlistId);
-          localStorage.setItem('producerPlaylists', JSON.stringify(newPlaylists));
-          showNotification(`Playlist deleted.`);
-          return newPlaylists;
-      });
+      const playlistToDelete = savedPlaylists.find(p => p.id === playlistId);
+      if (!playlistToDelete) return;
+      applyEdit(`Delete "${playlistToDelete.name}"`, workspace => ({
+          ...workspace,
+          savedPlaylists: withoutIds(workspace.savedPlaylists, new Set([playlistId])),
+      }));
+      showUndoToast(`Playlist "${playlistToDelete.name}" deleted.`);
   };
   
   const handleNewPlaylist = () => {
-    setPlaylist({ id: `playlist-${Date.now()}`, name: "Untitled Playlist", songs: [] });
+    applyEdit('New playlist', workspace => ({ ...workspace, playlist: { id: `playlist-${Date.now()}`, name: "Untitled Playlist", songs: [] } }));
     showNotification("New playlist created.");
   };
 
-  const handleAddComment = (songId: string, commentText: string) => {
+  const handleSaveSmartPlaylist = (name: string, rules: SmartPlaylistRules) => {
+    if (smartEditorMode === 'edit') {
+      applyEdit(`Edit rules of "${name}"`, workspace => ({ ...workspace, playlist: { ...workspace.playlist, name, smart: rules } }));
+    } else {
+      applyEdit(`New smart playlist "${name}"`, workspace => ({ ...workspace, playlist: { id: `playlist-${Date.now()}`, name, songs: [], smart: rules } }));
+      showNotification(`Smart playlist "${name}" created.`);
+    }
+    setSmartEditorMode(null);
+  };
+
+  // Keeps the current tracks and drops the rules, so the playlist can be reordered and shared
+  const handleFreezePlaylist = () => {
+    applyEdit(`Freeze "${playlist.name}"`, workspace => ({ ...workspace, playlist: freezePlaylist(workspace.playlist) }));
+    showNotification(`"${playlist.name}" is now a regular playlist.`);
+  };
+
+  const handleAddComment = (songId: string, commentText: string, rangeStart?: number) => {
     if (!commentText.trim()) return;
-    const newComment: Comment = { text: commentText };
-    setPlaylist(prevPlaylist => {
-      const newSongs = prevPlaylist.songs.map(song => {
+    const newComment: Comment = { id: crypto.randomUUID(), text: commentText, createdAt: Date.now() };
+    // Pin the comment to the playback position when it's about the song being played
+    if (currentSong?.id === songId && playerRef.current) {
+      const time = playerRef.current.currentTime;
+      if (rangeStart !== undefined && rangeStart < time) {
+        newComment.timestamp = rangeStart;
+        newComment.endTimestamp = time;
+      } else {
+        newComment.timestamp = time;
+      }
+    }
+    applyEdit('Add comment', workspace => {
+      const newSongs = workspace.playlist.songs.map(song => {
         if (song.id === songId) {
           return {
             ...song,
@@ -429,16 +1473,248 @@ const App: React.FC = () => {
         }
         return song;
       });
-      return { ...prevPlaylist, songs: newSongs };
+      return withPlaylistSongs(workspace, newSongs);
+    });
+  };
+
+  const editMarkers = (song: Song, label: string, change: (markers: Marker[]) => Marker[], coalesce?: string) => {
+    applyEdit(label, workspace => updateSongs(workspace, [song.id], s => {
+      const markers = change(s.markers ?? []);
+      return { markers: markers.length > 0 ? markers : undefined };
+    }), coalesce);
+  };
+
+  const handleAddMarker = (song: Song, time: number) => {
+    editMarkers(song, 'Add marker', markers => addMarker(markers, time));
+    setExpandedSongId(song.id);
+  };
+
+  const handleUpdateMarker = (song: Song, marker: Marker, changes: Partial<Omit<Marker, 'id'>>, coalesce?: string) => {
+    editMarkers(song, 'Edit marker', markers => updateMarker(markers, marker.id, changes), coalesce);
+  };
+
+  const handleRemoveMarker = (song: Song, marker: Marker) => {
+    editMarkers(song, `Delete marker "${marker.label}"`, markers => removeMarker(markers, marker.id));
+  };
+
+  const handleImportFeedback = (feedback: PlaylistFeedback) => {
+    const target = workspaceRef.current.savedPlaylists.find(p => p.id === feedback.playlistId);
+    if (!target) {
+      showNotification(`No saved playlist matches the feedback for "${feedback.playlistName}".`);
+      return;
+    }
+    const { playlist: merged, added } = mergeFeedback(target, feedback);
+    applyEdit(`Import feedback for "${merged.name}"`, workspace => ({
+      ...workspace,
+      savedPlaylists: workspace.savedPlaylists.map(p => p.id === merged.id ? merged : p),
+      playlist: workspace.playlist.id === feedback.playlistId ? mergeFeedback(workspace.playlist, feedback).playlist : workspace.playlist,
+    }));
+    showNotification(added > 0
+      ? `${added} new comment${added !== 1 ? 's' : ''}${feedback.reviewer ? ` from ${feedback.reviewer}` : ''} added to "${merged.name}".`
+      : `No new comments in this feedback.`);
+  };
+
+  const handleImportFeedbackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      handleImportFeedback(parseFeedbackFile(await file.text()));
+    } catch (error) {
+      console.error("Failed to import feedback:", error);
+      showNotification(`"${file.name}" is not a valid feedback file.`);
+    }
+  };
+
+  const handleMarkCommentsRead = (songId: string) => {
+    const markRead = (p: Playlist): Playlist => ({
+      ...p,
+      songs: p.songs.map(s => s.id === songId && s.comments
+        ? { ...s, comments: s.comments.map(({ unread, ...comment }) => comment) }
+        : s),
+    });
+    setPlaylist(prev => markRead(prev));
+    setSavedPlaylists(prev => {
+      const newPlaylists = prev.map(p => p.id === playlist.id ? markRead(p) : p);
+      localStorage.setItem('producerPlaylists', JSON.stringify(newPlaylists));
+      return newPlaylists;
+    });
+  };
+
+  const handleAddPlayerComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentSong) return;
+    handleAddComment(currentSong.id, playerCommentText, commentRangeStart ?? undefined);
+    setPlayerCommentText('');
+    setCommentRangeStart(null);
+  };
+
+  // Comment markers overlaid on the player timeline; clicking one jumps to that moment
+  const renderCommentMarkers = (song: Song) => {
+    const comments = playlist.songs.find(s => s.id === song.id)?.comments ?? song.comments ?? [];
+    const timelineDuration = duration || song.duration;
+    if (!timelineDuration) return null;
+    return comments.map((comment, index) => {
+      if (comment.timestamp === undefined) return null;
+      const left = Math.min(100, (comment.timestamp / timelineDuration) * 100);
+      const width = comment.endTimestamp !== undefined
+        ? Math.min(100 - left, ((comment.endTimestamp - comment.timestamp) / timelineDuration) * 100)
+        : 0;
+      return (
+        <button
+          key={index}
+          onClick={(e) => { e.stopPropagation(); handleSeekTo(song, comment.timestamp!); }}
+          className={`absolute top-0 bottom-0 ${width > 0 ? 'bg-yellow-400/20 border-l-2 border-yellow-400' : 'w-1 -ml-0.5 bg-yellow-400 rounded'} hover:bg-yellow-300/60`}
+          style={{ left: `${left}%`, ...(width > 0 && { width: `${width}%` }) }}
+          title={`${formatCommentTimestamp(comment)} — ${comment.text}`}
+          aria-label={`Jump to comment at ${formatCommentTimestamp(comment)}`}
+        />
+      );
     });
   };
 
+  // Setting A starts a new loop; setting B closes it and starts looping
+  const handleSetLoopStart = (time: number) => {
+    setLoopRegion(null);
+    setLoopStart(time);
+    setIsAuditionOpen(true);
+  };
+
+  const handleSetLoopEnd = (time: number) => {
+    const start = loopStart ?? loopRegion?.start ?? 0;
+    if (time < start + MIN_LOOP_SECONDS) {
+      showNotification("The loop has to end after it starts.");
+      return;
+    }
+    setLoopRegion({ start, end: time });
+    setLoopStart(null);
+    setIsAuditionOpen(true);
+  };
+
+  // A point marker loops up to the next marker
+  const handleLoopMarker = (marker: Marker) => {
+    const end = markerEnd(marker, playingMarkers, duration) ?? playingMarkers.find(m => m.time > marker.time)?.time ?? duration;
+    setLoopStart(null);
+    setLoopRegion({ start: marker.time, end });
+  };
+
+  const handleClearLoop = () => {
+    setLoopRegion(null);
+    setLoopStart(null);
+  };
+
+  const renderLoopOverlay = () => {
+    if (!duration || (!loopRegion && loopStart === null)) return null;
+    const start = loopRegion?.start ?? loopStart!;
+    const left = Math.min(100, (start / duration) * 100);
+    const width = loopRegion ? Math.min(100 - left, ((loopRegion.end - loopRegion.start) / duration) * 100) : 0;
+    return (
+      <div
+        className={`absolute top-0 bottom-0 pointer-events-none ${loopRegion ? 'bg-sky-400/15 border-x border-sky-400' : 'border-l border-dashed border-sky-400'}`}
+        style={{ left: `${left}%`, width: `${width}%` }}
+      />
+    );
+  };
+
+  // Cue markers overlaid on a timeline: points as ticks, sections as a band along the bottom
+  const renderMarkerOverlay = (markers: Marker[], timelineDuration: number, onJump: (time: number) => void) => {
+    if (!timelineDuration) return null;
+    return markers.map(marker => {
+      const end = markerEnd(marker, markers, timelineDuration);
+      const left = Math.min(100, (marker.time / timelineDuration) * 100);
+      const width = end !== undefined ? Math.max(0, Math.min(100 - left, ((end - marker.time) / timelineDuration) * 100)) : 0;
+      return (
+        <button
+          key={marker.id}
+          onClick={(e) => { e.stopPropagation(); onJump(marker.time); }}
+          className={`absolute ${width > 0 ? 'bottom-0 h-1.5 bg-pink-400/40 border-l-2 border-pink-400' : 'top-0 bottom-0 w-1 -ml-0.5 bg-pink-400 rounded'} hover:bg-pink-300/70`}
+          style={{ left: `${left}%`, ...(width > 0 && { width: `${width}%` }) }}
+          title={`${formatTime(marker.time)} — ${marker.label}`}
+          aria-label={`Jump to ${marker.label} at ${formatTime(marker.time)}`}
+        />
+      );
+    });
+  };
+
+  // Share payloads come from outside the app, so they're migrated and validated
+  // like stored data before anything reads them
+  const loadSharedPlaylist = (value: unknown): Playlist | null => {
+    try {
+      return loadPlaylist(value);
+    } catch (error) {
+      console.error("Shared playlist failed validation:", error);
+      setPasswordProtectedPlaylist(null);
+      setEncryptedShare(null);
+      setIsLinkInvalid(true);
+      return null;
+    }
+  };
+
+  const openDecodedShare = (decoded: DecodedShare) => {
+    // Encrypted shares only expose their header until the password is entered
+    if (decoded.kind === 'encrypted') {
+      setEncryptedShare(decoded.share);
+      return;
+    }
+    const sharedPlaylist = loadSharedPlaylist(decoded.playlist);
+    if (!sharedPlaylist) return;
+
+    if (sharedPlaylist.expiresAt && Date.now() > sharedPlaylist.expiresAt) {
+      setIsLinkExpired(true);
+      return;
+    }
+
+    // Legacy links with a plaintext password
+    if (sharedPlaylist.password) {
+      setPasswordProtectedPlaylist(sharedPlaylist);
+      return;
+    }
+
+    handleUnlockPlaylist(sharedPlaylist);
+  };
+
+  const handleOpenShareFile = async (file: File) => {
+    try {
+      const decoded = await decodeShareBundle(new Uint8Array(await file.arrayBuffer()));
+      setIsAwaitingShareFile(false);
+      openDecodedShare(decoded);
+    } catch (error) {
+      console.error("Failed to open playlist file:", error);
+      showNotification(`"${file.name}" is not a valid playlist file.`);
+    }
+  };
+
+  const handleShareFileDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const shareFile = Array.from<File>(e.dataTransfer.files).find(f => f.name.toLowerCase().endsWith(BUNDLE_FILE_EXTENSION));
+    if (!shareFile) return;
+    e.preventDefault();
+    handleOpenShareFile(shareFile);
+  };
+
   const handleUnlockPlaylist = (unlockedPlaylist: Playlist) => {
     setPasswordProtectedPlaylist(null);
+    setEncryptedShare(null);
+    // Expiration of encrypted links is only known once decrypted
+    if (unlockedPlaylist.expiresAt && Date.now() > unlockedPlaylist.expiresAt) {
+      setIsLinkExpired(true);
+      return;
+    }
     setPlaylist(unlockedPlaylist);
     setIsViewerMode(true);
     if (unlockedPlaylist.songs.length > 0) {
-      setCurrentSong(unlockedPlaylist.songs[0]);
+      setQueue(playFrom(createQueue(), 'playlist', unlockedPlaylist.songs.map(s => s.id), unlockedPlaylist.songs[0].id));
+    }
+  };
+
+  const handleSubmitSharePassword = async (passwordAttempt: string) => {
+    if (encryptedShare) {
+      const sharedPlaylist = loadSharedPlaylist(await unlockShare(encryptedShare, passwordAttempt));
+      if (sharedPlaylist) handleUnlockPlaylist(sharedPlaylist);
+    } else if (passwordProtectedPlaylist) {
+      if (passwordAttempt !== passwordProtectedPlaylist.password) {
+        throw new IncorrectPasswordError();
+      }
+      handleUnlockPlaylist(passwordProtectedPlaylist);
     }
   };
 
@@ -463,18 +1739,8 @@ const App: React.FC = () => {
 
   const handleSaveEditing = () => {
     if (!editingSongId) return;
-
-    const updates: Partial<Song> = {
-        name: editFormData.name,
-        bpm: editFormData.bpm || undefined,
-        key: editFormData.key || undefined,
-        genre: editFormData.genre || undefined,
-        mood: editFormData.mood || undefined,
-        instrumentation: editFormData.instrumentation?.split(',').map(s => s.trim()).filter(Boolean) || [],
-        genreTags: editFormData.genreTags?.split(',').map(s => s.trim()).filter(Boolean) || [],
-    };
-
-    updateSongInState(editingSongId, updates);
+    const editedSong = uploadedSongs.find(s => s.id === editingSongId) || playlist.songs.find(s => s.id === editingSongId);
+    applyEdit(`Edit "${editedSong?.name}"`, workspace => updateSongs(workspace, [editingSongId], song => updatesFromEditForm(song, editFormData)));
     handleCancelEditing();
   };
 
@@ -483,16 +1749,24 @@ const App: React.FC = () => {
     setEditFormData(prev => ({ ...prev, [name]: value }));
   };
 
-  const PasswordPromptModal: React.FC<{ playlist: Playlist, onUnlock: (playlist: Playlist) => void }> = ({ playlist, onUnlock }) => {
+  const PasswordPromptModal: React.FC<{ producerName?: string, onSubmitPassword: (password: string) => Promise<void> }> = ({ producerName, onSubmitPassword }) => {
     const [passwordAttempt, setPasswordAttempt] = useState('');
     const [error, setError] = useState('');
+    const [isUnlocking, setIsUnlocking] = useState(false);
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (passwordAttempt === playlist.password) {
-            onUnlock(playlist);
-        } else {
-            setError('Incorrect password. Please try again.');
+        setIsUnlocking(true);
+        try {
+            await onSubmitPassword(passwordAttempt);
+        } catch (unlockError) {
+            if (unlockError instanceof IncorrectPasswordError) {
+                setError('Incorrect password. Please try again.');
+            } else {
+                console.error("Failed to unlock playlist:", unlockError);
+                setError('This link could not be opened. It may be damaged or incomplete.');
+            }
+            setIsUnlocking(false);
         }
     };
 
@@ -503,7 +1777,9 @@ const App: React.FC = () => {
                     <LockClosedIcon />
                     Password Required
                 </h2>
-                <p className="text-gray-400 mb-4">This playlist is password protected. Please enter the password to continue.</p>
+                <p className="text-gray-400 mb-4">
+                    {producerName ? `This playlist from ${producerName} is password protected.` : 'This playlist is password protected.'} Please enter the password to continue.
+                </p>
                 <form onSubmit={handleSubmit}>
                     <input
                         type="password"
@@ -517,8 +1793,9 @@ const App: React.FC = () => {
                         autoFocus
                     />
                     {error && <p role="alert" className="text-red-400 text-sm mt-2">{error}</p>}
-                    <button type="submit" className="mt-4 w-full bg-teal-600 text-white px-4 py-2 rounded-md hover:bg-teal-500 transition-colors">
-                        Unlock Playlist
+                    <button type="submit" disabled={isUnlocking || !passwordAttempt} className="mt-4 w-full flex items-center justify-center gap-2 bg-teal-600 text-white px-4 py-2 rounded-md hover:bg-teal-500 transition-colors disabled:opacity-50">
+                        {isUnlocking && <LoadingSpinnerIcon />}
+                        {isUnlocking ? 'Unlocking...' : 'Unlock Playlist'}
                     </button>
                 </form>
             </div>
@@ -526,93 +1803,60 @@ const App: React.FC = () => {
     );
   };
 
-  const CommentSection: React.FC<{ song: Song; onAddComment: (songId: string, text: string) => void }> = ({ song, onAddComment }) => {
+  const CommentSection: React.FC<{ song: Song; onAddComment?: (songId: string, text: string) => void }> = ({ song, onAddComment }) => {
     const [commentText, setCommentText] = useState('');
+    const hasUnread = song.comments?.some(c => c.unread);
     const handleSubmit = (e: React.FormEvent) => {
       e.preventDefault();
-      onAddComment(song.id, commentText);
+      onAddComment?.(song.id, commentText);
       setCommentText('');
     };
 
     return (
       <div className="mt-3">
-        <h4 className="font-semibold text-sm text-gray-300 mb-2">Feedback & Comments</h4>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-semibold text-sm text-gray-300">Feedback & Comments</h4>
+          {hasUnread && (
+            <button onClick={() => handleMarkCommentsRead(song.id)} className="text-xs text-yellow-300 hover:text-yellow-200">Mark all read</button>
+          )}
+        </div>
         <div className="space-y-2 mb-3 max-h-24 overflow-y-auto">
           {(!song.comments || song.comments.length === 0) && <p className="text-xs text-gray-500">No comments yet.</p>}
           {song.comments?.map((comment, index) => (
-            <div key={index} className="flex items-start gap-2">
-              <CommentIcon className="w-4 h-4 text-teal-400 mt-0.5 flex-shrink-0"/>
-              <p className="text-sm text-gray-400 bg-gray-800/50 p-2 rounded-md w-full">{comment.text}</p>
+            <div key={comment.id ?? index} className="flex items-start gap-2">
+              <CommentIcon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${comment.unread ? 'text-yellow-400' : 'text-teal-400'}`}/>
+              <p className={`text-sm text-gray-400 bg-gray-800/50 p-2 rounded-md w-full ${comment.unread ? 'ring-1 ring-yellow-500/60' : ''}`}>
+                {comment.author && <span className="mr-2 text-xs font-semibold text-gray-300">{comment.author}</span>}
+                {comment.timestamp !== undefined && (
+                  <button
+                    onClick={() => handleSeekTo(song, comment.timestamp!)}
+                    className="mr-2 text-xs font-mono text-teal-300 bg-teal-900/50 px-1.5 py-0.5 rounded hover:bg-teal-800/60"
+                    title="Jump to this moment"
+                  >
+                    {formatCommentTimestamp(comment)}
+                  </button>
+                )}
+                {comment.text}
+              </p>
             </div>
           ))}
         </div>
-        <form onSubmit={handleSubmit} className="flex gap-2">
-          <input
-            type="text"
-            value={commentText}
-            onChange={(e) => setCommentText(e.target.value)}
-            placeholder="Add a comment..."
-            className="flex-grow bg-gray-700 text-sm rounded-md px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-teal-500"
-          />
-          <button type="submit" className="bg-teal-600 text-sm text-white px-3 py-1.5 rounded-md hover:bg-teal-500 transition-colors">Add</button>
-        </form>
+        {onAddComment && (
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={commentText}
+              onChange={(e) => setCommentText(e.target.value)}
+              placeholder="Add a comment..."
+              className="flex-grow bg-gray-700 text-sm rounded-md px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-teal-500"
+            />
+            <button type="submit" className="bg-teal-600 text-sm text-white px-3 py-1.5 rounded-md hover:bg-teal-500 transition-colors">Add</button>
+          </form>
+        )}
       </div>
     );
   };
   
-  const FeedbackModal: React.FC<{ isOpen: boolean; onClose: () => void; playlist: Playlist }> = ({ isOpen, onClose, playlist }) => {
-    const [copied, setCopied] = useState(false);
-    
-    if (!isOpen) return null;
-
-    const generateFeedbackText = () => {
-      let text = `Feedback for Playlist: "${playlist.name}"\n`;
-      if (playlist.producerProfile?.name) {
-          text += `From: ${playlist.producerProfile.name}\n`;
-      }
-      text += '\n';
-
-      playlist.songs.forEach(song => {
-        if (song.comments && song.comments.length > 0) {
-          text += `Track: ${song.name}\n`;
-          song.comments.forEach(comment => {
-            text += `- ${comment.text}\n`;
-          });
-          text += '\n';
-        }
-      });
-      return text;
-    };
-
-    const copyToClipboard = () => {
-      navigator.clipboard.writeText(generateFeedbackText()).then(() => {
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-      });
-    };
-
-    return (
-        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
-            <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg m-4" onClick={(e) => e.stopPropagation()}>
-                <h2 className="text-2xl font-bold text-teal-300 mb-4">Export Feedback</h2>
-                <p className="text-gray-400 mb-4">Here is a summary of all comments. Copy this and send it back to the producer.</p>
-                <textarea
-                    readOnly
-                    value={generateFeedbackText()}
-                    className="w-full h-48 bg-gray-900 text-gray-300 p-3 rounded-md text-sm font-mono border border-gray-700"
-                />
-                <button
-                    onClick={copyToClipboard}
-                    className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-500 transition-colors"
-                >
-                    {copied ? <CheckIcon/> : <ClipboardIcon/>}
-                    {copied ? 'Copied to Clipboard!' : 'Copy Feedback'}
-                </button>
-            </div>
-        </div>
-    );
-  };
-
   const ProducerProfileSection = () => (
     <div className="bg-gray-800 p-4 rounded-lg">
         <h2 className="text-xl font-bold mb-4 text-teal-300 flex items-center gap-2">
@@ -643,20 +1887,33 @@ const App: React.FC = () => {
   );
 
 
-  const SongItem: React.FC<{
+  // Called as a function rather than rendered as a component: it's redefined on
+  // every render, so React would otherwise remount it (dropping focus from its
+  // inputs) each time the playback position ticks
+  const renderSongItem = ({ song, actions, isPlaying, isCurrent, onPlayPause, extraControls, isSelected, onSelect }: {
     song: Song;
     actions?: React.ReactNode;
     isPlaying: boolean;
     isCurrent: boolean;
     onPlayPause: (song: Song) => void;
     extraControls?: React.ReactNode;
-  }> = ({ song, actions, isPlaying, isCurrent, onPlayPause, extraControls }) => {
+    isSelected?: boolean;
+    onSelect?: (e: React.MouseEvent) => void;
+  }) => {
     const isExpanded = expandedSongId === song.id;
+    const matchGain = loudnessMatchGain(song);
     const isEditing = editingSongId === song.id;
+    const unreadCount = song.comments?.filter(c => c.unread).length || 0;
+    const versions = versionsOf(song, versionPool);
 
     const handleToggleExpand = (e: React.MouseEvent<HTMLDivElement>) => {
       // Prevent toggle when clicking on a button inside, or if we are editing
       if ((e.target as HTMLElement).closest('button, a, input') || isEditing) return;
+      // Shift and ctrl/cmd clicks select tracks instead
+      if (onSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+        onSelect(e);
+        return;
+      }
       setExpandedSongId(prevId => prevId === song.id ? null : song.id)
     };
     
@@ -664,21 +1921,36 @@ const App: React.FC = () => {
       <div className={`rounded-md transition-all duration-300 ${isExpanded ? 'bg-gray-700/50' : ''}`}>
         <div 
           onClick={handleToggleExpand}
-          className={`flex items-center p-3 transition-colors duration-200 cursor-pointer ${isCurrent ? 'bg-teal-600/30' : 'hover:bg-gray-700/80'}`}
+          className={`flex items-center p-3 transition-colors duration-200 cursor-pointer select-none rounded-md ${isCurrent ? 'bg-teal-600/30' : isSelected ? 'bg-blue-900/40' : 'hover:bg-gray-700/80'} ${isSelected ? 'ring-1 ring-blue-500' : ''}`}
+          aria-selected={onSelect ? !!isSelected : undefined}
         >
             <button onClick={() => onPlayPause(song)} className="mr-4 flex-shrink-0" aria-label={isCurrent && isPlaying ? `Pause ${song.name}` : `Play ${song.name}`} disabled={!song.url}>
                 {isCurrent && isPlaying ? <PauseIcon className="w-6 h-6 text-teal-300" /> : <PlayIcon className={`w-6 h-6 ${song.url ? 'text-gray-400 hover:text-white' : 'text-gray-600 cursor-not-allowed'}`} />}
             </button>
+            {song.artwork && <img src={song.artwork} alt="" className="w-10 h-10 rounded object-cover mr-3 flex-shrink-0" />}
             <div className="flex-grow min-w-0">
                 <div className="flex items-center gap-2">
                   <p className={`font-medium truncate ${isCurrent ? 'text-teal-300' : 'text-gray-200'}`}>{song.name}</p>
                   {song.analyzing && <LoadingSpinnerIcon className="w-4 h-4 text-gray-400" />}
+                  {song.versionGroup && (
+                    <span className="text-xs bg-gray-700 text-gray-300 px-1.5 py-0.5 rounded flex-shrink-0" title={versions.length > 1 ? `${versions.length} versions` : undefined}>
+                      {versionLabel(song, versions)}
+                    </span>
+                  )}
+                  {!isViewerMode && unreadCount > 0 && (
+                    <span className="flex items-center gap-1 text-xs bg-yellow-900/60 text-yellow-300 px-2 py-0.5 rounded-full flex-shrink-0" title="New client feedback">
+                      <CommentIcon className="w-3 h-3" />{unreadCount} new
+                    </span>
+                  )}
                 </div>
+                {(song.artist || song.album) && (
+                  <p className="text-xs text-gray-400 truncate">{[song.artist, song.album].filter(Boolean).join(' — ')}</p>
+                )}
                 {!song.analyzing && (song.bpm || song.key || song.genre) && (
                   <div className="flex items-center gap-2 flex-wrap mt-1.5">
-                      {song.bpm && <span className="text-xs bg-blue-900/50 text-blue-300 px-2 py-0.5 rounded-full">{song.bpm} BPM</span>}
-                      {song.key && <span className="text-xs bg-purple-900/50 text-purple-300 px-2 py-0.5 rounded-full">Key: {song.key}</span>}
-                      {song.genre && <span className="text-xs bg-green-900/50 text-green-300 px-2 py-0.5 rounded-full">{song.genre}</span>}
+                      {song.bpm && <span className="text-xs bg-blue-900/50 text-blue-300 px-2 py-0.5 rounded-full" title={describeSource(song, 'bpm', song.bpmConfidence)}>{song.bpm} BPM</span>}
+                      {song.key && <span className="text-xs bg-purple-900/50 text-purple-300 px-2 py-0.5 rounded-full" title={describeSource(song, 'key', song.keyConfidence)}>Key: {song.key}</span>}
+                      {song.genre && <span className="text-xs bg-green-900/50 text-green-300 px-2 py-0.5 rounded-full" title={describeSource(song, 'genre')}>{song.genre}</span>}
                   </div>
                 )}
             </div>
@@ -732,6 +2004,115 @@ const App: React.FC = () => {
                   </div>
                 ) : (
                   <>
+                    {song.peaks && (
+                      <Waveform
+                        peaks={song.peaks}
+                        duration={isCurrent ? duration : song.duration}
+                        currentTime={isCurrent ? currentTime : 0}
+                        onSeek={(time) => handleSeekTo(song, time)}
+                        label={`Seek in ${song.name}`}
+                        className="h-12 mb-3"
+                      >
+                        {renderMarkerOverlay(song.markers ?? [], isCurrent ? duration : song.duration, (time) => handleSeekTo(song, time))}
+                      </Waveform>
+                    )}
+                    {song.loudness !== undefined && (
+                      <div className="flex items-center gap-x-4 gap-y-1 flex-wrap text-xs text-gray-400 mb-3">
+                        <span title="Integrated loudness (EBU R128)">Loudness <span className="text-gray-200">{song.loudness.toFixed(1)} LUFS</span></span>
+                        {song.truePeak !== undefined && (
+                          <span title="The highest peak, including between samples; above -1 dBTP may clip once encoded">
+                            True peak <span className={song.truePeak > -1 ? 'text-yellow-300' : 'text-gray-200'}>{song.truePeak.toFixed(1)} dBTP</span>
+                          </span>
+                        )}
+                        {song.loudnessRange !== undefined && (
+                          <span title="Loudness range: how far apart the quiet and loud passages are">Dynamic range <span className="text-gray-200">{song.loudnessRange.toFixed(1)} LU</span></span>
+                        )}
+                        {playlist.loudnessMatch && matchGain !== undefined && (
+                          <span title="The level change loudness match plays this track with">
+                            Match <span className="text-gray-200">{formatDecibels(20 * Math.log10(matchGain))}</span>
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {(song.markers?.length || !isViewerMode) && (
+                      <div className="mb-3">
+                        <div className="flex items-center justify-between mb-1">
+                          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Markers</h4>
+                          {!isViewerMode && (
+                            <button
+                              onClick={() => handleAddMarker(song, isCurrent ? currentTime : 0)}
+                              className="text-xs text-teal-300 hover:text-teal-200"
+                              title={isCurrent ? 'Mark the current moment (M)' : 'Play the track to mark a moment while listening'}
+                            >
+                              Add at {formatTime(isCurrent ? currentTime : 0)}
+                            </button>
+                          )}
+                        </div>
+                        {song.markers?.length ? (
+                          <ul className="space-y-1">
+                            {song.markers.map(marker => {
+                              const end = markerEnd(marker, song.markers!, song.duration);
+                              return (
+                                <li key={marker.id} className="flex items-center gap-2 text-sm">
+                                  <button
+                                    onClick={() => handleSeekTo(song, marker.time)}
+                                    disabled={!song.url}
+                                    className="font-mono text-xs text-pink-300 hover:text-pink-200 disabled:opacity-50 whitespace-nowrap flex-shrink-0"
+                                    title="Jump here"
+                                  >
+                                    {formatTime(marker.time)}{end !== undefined && `–${formatTime(end)}`}
+                                  </button>
+                                  {isViewerMode ? (
+                                    <>
+                                      <span className="text-gray-200 truncate">{marker.label}</span>
+                                      {marker.section && <span className="text-xs bg-pink-900/50 text-pink-300 px-2 py-0.5 rounded-full flex-shrink-0">{SECTION_NAMES[marker.section]}</span>}
+                                    </>
+                                  ) : (
+                                    <>
+                                      <input
+                                        type="text"
+                                        value={marker.label}
+                                        onChange={(e) => handleUpdateMarker(song, marker, { label: e.target.value }, `marker-label-${marker.id}`)}
+                                        className="flex-grow min-w-0 bg-gray-700 rounded px-2 py-0.5 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                                        aria-label="Marker label"
+                                      />
+                                      <select
+                                        value={marker.section ?? ''}
+                                        onChange={(e) => handleUpdateMarker(song, marker, { section: (e.target.value || undefined) as Marker['section'] })}
+                                        className="bg-gray-700 text-gray-200 rounded px-1 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-teal-500"
+                                        aria-label="Section"
+                                      >
+                                        <option value="">Point</option>
+                                        {SECTION_KINDS.map(kind => <option key={kind} value={kind}>{SECTION_NAMES[kind]}</option>)}
+                                      </select>
+                                      {marker.endTime !== undefined ? (
+                                        <button onClick={() => handleUpdateMarker(song, marker, { endTime: undefined })} className="text-xs text-gray-400 hover:text-white whitespace-nowrap" title="Make this a single moment again">
+                                          Clear end
+                                        </button>
+                                      ) : (
+                                        <button
+                                          onClick={() => handleUpdateMarker(song, marker, { endTime: currentTime })}
+                                          disabled={!isCurrent || currentTime <= marker.time}
+                                          className="text-xs text-gray-400 hover:text-white disabled:opacity-40 whitespace-nowrap"
+                                          title="End the marked range at the current moment"
+                                        >
+                                          End here
+                                        </button>
+                                      )}
+                                      <button onClick={() => handleRemoveMarker(song, marker)} className="p-1 rounded-full hover:bg-gray-600" aria-label={`Delete marker ${marker.label}`}>
+                                        <TrashIcon className="w-4 h-4 text-gray-400 hover:text-red-400" />
+                                      </button>
+                                    </>
+                                  )}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        ) : (
+                          <p className="text-xs text-gray-500">Flag moments like where the hook starts, so clients can jump straight to them.</p>
+                        )}
+                      </div>
+                    )}
                     {!song.analyzing ? (
                       <>
                         {(song.mood || (song.instrumentation && song.instrumentation.length > 0)) && (
@@ -749,7 +2130,63 @@ const App: React.FC = () => {
                                 ))}
                             </div>
                         )}
-                        {isViewerMode && <CommentSection song={song} onAddComment={handleAddComment} />}
+                        {(versions.length > 1 || !isViewerMode) && (
+                          <div className="mt-3">
+                            <div className="flex items-center justify-between mb-1">
+                              <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Versions</h4>
+                              {!isViewerMode && (
+                                <label className="text-xs text-teal-300 hover:text-teal-200 cursor-pointer">
+                                  Upload New Version
+                                  <input
+                                    type="file"
+                                    accept="audio/*"
+                                    className="hidden"
+                                    onChange={(e) => {
+                                      const file = e.target.files?.[0];
+                                      e.target.value = '';
+                                      if (file) handleUploadVersion(song, file);
+                                    }}
+                                  />
+                                </label>
+                              )}
+                            </div>
+                            {versions.length > 1 ? (
+                              <ul className="space-y-1 text-sm">
+                                {[...versions].reverse().map(version => {
+                                  const isHeard = isCurrent && playingSong?.id === version.id;
+                                  return (
+                                    <li key={version.id} className={`flex items-center gap-2 rounded-md px-2 py-1 ${isHeard ? 'bg-teal-900/40' : 'bg-gray-800/60'}`}>
+                                      <span className="font-mono text-xs text-gray-300 w-10 flex-shrink-0">{versionLabel(version, versions)}</span>
+                                      <span className="flex-grow text-xs text-gray-400 truncate">
+                                        {version.addedAt ? new Date(version.addedAt).toLocaleDateString() : ''}
+                                        {version.duration ? ` · ${formatTime(version.duration)}` : ''}
+                                        {version.id === song.id && <span className="ml-2 text-teal-300">Current</span>}
+                                      </span>
+                                      <button
+                                        onClick={() => handleListenToVersion(song, version, () => onPlayPause(song))}
+                                        disabled={!version.url || isHeard}
+                                        className="text-xs px-2 py-0.5 rounded-md text-gray-300 hover:bg-gray-600 disabled:opacity-40"
+                                        title="Listen from the same position"
+                                      >
+                                        {isHeard ? 'Playing' : 'Listen'}
+                                      </button>
+                                      {!isViewerMode && version.id !== song.id && (
+                                        <button onClick={() => handleMakeCurrentVersion(version)} className="text-xs px-2 py-0.5 rounded-md text-teal-300 hover:bg-gray-600">
+                                          Make Current
+                                        </button>
+                                      )}
+                                    </li>
+                                  );
+                                })}
+                              </ul>
+                            ) : (
+                              <p className="text-xs text-gray-500">Upload a revised mix to keep it with this track and compare the two.</p>
+                            )}
+                          </div>
+                        )}
+                        {isViewerMode
+                          ? <CommentSection song={song} onAddComment={handleAddComment} />
+                          : song.comments && song.comments.length > 0 && <CommentSection song={song} />}
                       </>
                     ) : <p className="text-sm text-gray-400">Analyzing track details...</p>}
                   </>
@@ -771,8 +2208,52 @@ const App: React.FC = () => {
     );
   }
 
+  if (isLinkInvalid) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
+        <div className="text-center p-8 bg-gray-800 rounded-lg shadow-xl">
+          <h1 className="text-3xl font-bold text-red-400 mb-2">Invalid Link</h1>
+          <p className="text-gray-400">This shared playlist link is damaged or incomplete. Ask the producer to send it again.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isAwaitingShareFile) {
+    return (
+      <div
+        className="min-h-screen bg-gray-900 text-white flex items-center justify-center"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleShareFileDrop}
+      >
+        <div className="text-center p-8 bg-gray-800 rounded-lg shadow-xl border-2 border-dashed border-gray-600 max-w-md m-4">
+          <h1 className="text-3xl font-bold text-teal-300 mb-2">Open Shared Playlist</h1>
+          <p className="text-gray-400 mb-4">Drag the {BUNDLE_FILE_EXTENSION} file you received onto this page, or choose it below.</p>
+          <label className="inline-block bg-teal-600 px-4 py-2 rounded-md hover:bg-teal-500 transition-colors cursor-pointer font-semibold">
+            Choose File
+            <input
+              type="file"
+              accept={BUNDLE_FILE_EXTENSION}
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleOpenShareFile(e.target.files[0])}
+            />
+          </label>
+        </div>
+        {notification && (
+          <div className="fixed top-20 right-8 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg z-50 animate-pulse">
+            {notification}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
-    <div className="min-h-screen bg-gray-900 text-white flex flex-col font-sans">
+    <div
+      className="min-h-screen bg-gray-900 text-white flex flex-col font-sans"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleShareFileDrop}
+    >
       <header className="bg-gray-800/50 backdrop-blur-sm p-4 shadow-lg border-b border-gray-700 sticky top-0 z-10">
         <div className="flex items-center justify-between max-w-7xl mx-auto">
             <h1 className="text-2xl md:text-3xl font-bold text-teal-300 tracking-wider">Producer Playlist Hub</h1>
@@ -798,6 +2279,9 @@ const App: React.FC = () => {
                 )}
             </div>
         )}
+        {isViewerMode && playlist.songs.some(song => song.previewOffset !== undefined) && (
+            <p className="max-w-7xl mx-auto mt-3 text-sm text-gray-400">These are preview clips. Contact the producer for the full tracks.</p>
+        )}
       </header>
       
       {notification && (
@@ -806,46 +2290,167 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {undoToast && (
+        <div className="fixed bottom-28 left-1/2 -translate-x-1/2 flex items-center gap-4 bg-gray-700 text-white px-4 py-2 rounded-lg shadow-lg z-40" role="status">
+          <span className="text-sm">{undoToast}</span>
+          <button onClick={handleUndo} className="text-sm font-semibold text-teal-300 hover:text-teal-200">Undo</button>
+          <button onClick={() => setUndoToast(null)} className="text-gray-400 hover:text-white" aria-label="Dismiss">&times;</button>
+        </div>
+      )}
+
       <main className="flex-grow p-4 md:p-8 flex flex-col lg:flex-row gap-8 pb-32">
         {!isViewerMode && (
           <div className="lg:w-1/2 flex flex-col gap-8">
-            <FileUpload onSongsUploaded={handleSongsUploaded} disabled={isViewerMode} />
+            <FileUpload onSongsUploaded={handleSongsUploaded} queueDecode={queueDecode} disabled={isViewerMode} />
             <ProducerProfileSection />
             <div className="bg-gray-800 p-4 rounded-lg">
-              <h2 className="text-xl font-bold mb-4 text-teal-300">Your Library</h2>
+              <div className="flex items-baseline justify-between mb-4">
+                <h2 className="text-xl font-bold text-teal-300">Your Library</h2>
+                <div className="flex items-center gap-2">
+                  {storageUsage && (
+                    <span className="text-xs text-gray-400" title="Audio stored in this browser for offline use">
+                      {formatBytes(storageUsage.usage)}{storageUsage.quota ? ` of ${formatBytes(storageUsage.quota)}` : ''} used
+                    </span>
+                  )}
+                  <button
+                    onClick={handleUndo}
+                    disabled={history.undo.length === 0}
+                    className="p-1.5 rounded-full hover:bg-gray-600 disabled:opacity-30"
+                    title={history.undo.length ? `Undo: ${history.undo[history.undo.length - 1].label}` : 'Nothing to undo'}
+                  >
+                    <UndoIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={history.redo.length === 0}
+                    className="p-1.5 rounded-full hover:bg-gray-600 disabled:opacity-30"
+                    title={history.redo.length ? `Redo: ${history.redo[history.redo.length - 1].label}` : 'Nothing to redo'}
+                  >
+                    <RedoIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {uploadedSongs.length > 0 && (
+                <LibraryFilterBar
+                  query={libraryQuery}
+                  onQueryChange={setLibraryQuery}
+                  errors={parsedLibraryQuery.errors}
+                  sort={librarySort}
+                  onSortChange={setLibrarySort}
+                  presets={filterPresets}
+                  onSavePreset={handleSaveFilterPreset}
+                  onDeletePreset={handleDeleteFilterPreset}
+                  shownCount={visibleLibrarySongs.length}
+                  totalCount={libraryCurrentVersions.length}
+                />
+              )}
+              {librarySelection.ids.length > 0 && (
+                <SelectionBar count={librarySelection.ids.length} onClear={() => setLibrarySelection(EMPTY_SELECTION)}>
+                  <button onClick={handleBulkAddToPlaylist} className="px-2 py-1 rounded-md hover:bg-gray-600">Add to Playlist</button>
+                  <button onClick={() => handleBulkAnalyze('library')} className="px-2 py-1 rounded-md hover:bg-gray-600">Re-analyze</button>
+                  <button onClick={() => setBulkEditIds(selectedIds('library'))} className="px-2 py-1 rounded-md hover:bg-gray-600">Edit</button>
+                  <button onClick={handleBulkDelete} className="px-2 py-1 rounded-md text-red-300 hover:bg-gray-600">Delete</button>
+                </SelectionBar>
+              )}
               <div className="space-y-2 max-h-[30vh] overflow-y-auto pr-2">
-                {uploadedSongs.length > 0 ? uploadedSongs.map(song => (
-                  <SongItem
-                    key={song.id} song={song} isPlaying={isPlaying} isCurrent={currentSong?.id === song.id}
-                    onPlayPause={handlePlayPause}
-                    actions={<>
-                      <button onClick={() => handleStartEditing(song)} className="p-2 rounded-full hover:bg-gray-600" title="Edit metadata">
-                          <EditIcon className="w-5 h-5 text-gray-400 hover:text-teal-300"/>
-                      </button>
-                      {!song.analyzing && (
-                        <button onClick={() => handleManualAnalysis(song)} className="p-2 rounded-full hover:bg-gray-600" title={song.bpm ? "Re-analyze track" : "Analyze track"}>
-                            <AnalyzeIcon className="w-5 h-5 text-gray-400 hover:text-teal-300"/>
+                {visibleLibrarySongs.length > 0 ? visibleLibrarySongs.map(song => (
+                  <div
+                    key={song.id}
+                    draggable={expandedSongId !== song.id}
+                    onDragStart={(e) => handleDragStart('library', song, e)}
+                    onDragEnd={handleDragEnd}
+                  >
+                    {renderSongItem({
+                      song,
+                      isPlaying,
+                      isCurrent: currentSong?.id === song.id,
+                      onPlayPause: (s) => handlePlayPause(s, 'library'),
+                      isSelected: librarySelection.ids.includes(song.id),
+                      onSelect: (e) => handleSelectSong('library', song.id, e),
+                      actions: <>
+                        <button onClick={() => handleStartEditing(song)} className="p-2 rounded-full hover:bg-gray-600" title="Edit metadata">
+                            <EditIcon className="w-5 h-5 text-gray-400 hover:text-teal-300"/>
                         </button>
-                      )}
-                      <button onClick={() => addSongToPlaylist(song)} className="p-2 rounded-full hover:bg-gray-600" title="Add to playlist">
-                        <PlusIcon className="w-5 h-5 text-gray-400 hover:text-white"/>
-                      </button>
-                      <button onClick={() => deleteSongFromLibrary(song.id)} className="p-2 rounded-full hover:bg-gray-600" title="Delete from library">
-                          <TrashIcon className="w-5 h-5 text-gray-400 hover:text-red-400"/>
-                      </button>
-                    </>}
-                  />
-                )) : <p className="text-gray-500 text-center py-8">Upload tracks to see them here.</p>}
+                        <button onClick={() => handleDownloadTagged(song)} disabled={!song.url} className="p-2 rounded-full hover:bg-gray-600 disabled:opacity-30" title="Download with tags">
+                            <TagIcon className="w-5 h-5 text-gray-400 hover:text-teal-300"/>
+                        </button>
+                        {!song.analyzing && (
+                          <button onClick={() => handleManualAnalysis(song)} className="p-2 rounded-full hover:bg-gray-600" title={song.bpm ? "Re-analyze track" : "Analyze track"}>
+                              <AnalyzeIcon className="w-5 h-5 text-gray-400 hover:text-teal-300"/>
+                          </button>
+                        )}
+                        <button onClick={() => handlePlayNext(song)} disabled={!song.url} className="p-2 rounded-full hover:bg-gray-600 disabled:opacity-30" title="Play next">
+                          <PlayNextIcon className="w-5 h-5 text-gray-400 hover:text-white"/>
+                        </button>
+                        <button onClick={() => handleAddToQueue(song)} disabled={!song.url} className="p-2 rounded-full hover:bg-gray-600 disabled:opacity-30" title="Add to queue">
+                          <QueueListIcon className="w-5 h-5 text-gray-400 hover:text-white"/>
+                        </button>
+                        <button onClick={() => addSongToPlaylist(song)} className="p-2 rounded-full hover:bg-gray-600" title="Add to playlist">
+                          <PlusIcon className="w-5 h-5 text-gray-400 hover:text-white"/>
+                        </button>
+                        <button onClick={() => deleteSongsFromLibrary([song.id])} className="p-2 rounded-full hover:bg-gray-600" title="Delete from library">
+                            <TrashIcon className="w-5 h-5 text-gray-400 hover:text-red-400"/>
+                        </button>
+                      </>,
+                    })}
+                  </div>
+                )) : (
+                  <p className="text-gray-500 text-center py-8">
+                    {uploadedSongs.length > 0 ? 'No tracks match this search.' : 'Upload tracks to see them here.'}
+                  </p>
+                )}
               </div>
+              {trashedSongs.length > 0 && (
+                <div className="mt-4 pt-3 border-t border-gray-700">
+                  <div className="flex items-center justify-between">
+                    <button onClick={() => setIsTrashOpen(open => !open)} className="flex items-center gap-1 text-sm text-gray-400 hover:text-white">
+                      <TrashIcon className="w-4 h-4" />
+                      <span>Trash ({trashedSongs.length})</span>
+                      {isTrashOpen ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+                    </button>
+                    {isTrashOpen && (
+                      <button onClick={handleEmptyTrash} className="text-sm px-2 py-1 rounded-md text-red-300 hover:bg-gray-600">Empty Trash</button>
+                    )}
+                  </div>
+                  {isTrashOpen && (
+                    <ul className="mt-2 space-y-1 max-h-[20vh] overflow-y-auto pr-2">
+                      {trashedSongs.map(song => (
+                        <li key={song.id} className="flex items-center justify-between gap-2 bg-gray-700/50 rounded-md px-3 py-1.5 text-sm">
+                          <span className="truncate text-gray-300">{song.name}</span>
+                          <button onClick={() => handleRestoreFromTrash(song.id)} className="flex-shrink-0 px-2 py-0.5 rounded-md text-teal-300 hover:bg-gray-600">Restore</button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
             </div>
              <div className="bg-gray-800 p-4 rounded-lg flex-grow">
-              <h2 className="text-xl font-bold mb-4 text-teal-300">Saved Playlists</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-teal-300">Saved Playlists</h2>
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-1.5 text-sm bg-gray-600 px-3 py-1 rounded-md hover:bg-gray-500 cursor-pointer" title="Import a playlist exported as JSON">
+                    <ExportIcon className="w-4 h-4 rotate-180" />
+                    <span>Import Playlist</span>
+                    <input type="file" accept=".json,application/json" onChange={handleImportPlaylistFile} className="hidden" />
+                  </label>
+                  <label className="flex items-center gap-1.5 text-sm bg-gray-600 px-3 py-1 rounded-md hover:bg-gray-500 cursor-pointer" title="Import a client's feedback file">
+                    <CommentIcon className="w-4 h-4" />
+                    <span>Import Feedback</span>
+                    <input type="file" accept={`${FEEDBACK_FILE_EXTENSION},application/json`} onChange={handleImportFeedbackFile} className="hidden" />
+                  </label>
+                </div>
+              </div>
               <div className="space-y-2 max-h-[30vh] overflow-y-auto pr-2">
                 {savedPlaylists.length > 0 ? savedPlaylists.map(p => (
                   <div key={p.id} className="flex items-center justify-between p-3 rounded-md bg-gray-700/50">
                     <div>
                         <p className="font-medium text-gray-200">{p.name}</p>
-                        <p className="text-sm text-gray-400">{p.songs.length} track{p.songs.length !== 1 && 's'}</p>
+                        <p className="text-sm text-gray-400">
+                          {p.songs.length} track{p.songs.length !== 1 && 's'}
+                          {p.smart && <span className="ml-2 text-teal-300">· Smart</span>}
+                          {countUnreadComments(p) > 0 && <span className="ml-2 text-yellow-300">· {countUnreadComments(p)} new comment{countUnreadComments(p) !== 1 && 's'}</span>}
+                        </p>
                     </div>
                     <div className="flex items-center gap-2">
                         <button onClick={() => handleLoadPlaylist(p.id)} className="text-sm bg-teal-600 px-3 py-1 rounded-md hover:bg-teal-500 transition-colors">Load</button>
@@ -864,7 +2469,7 @@ const App: React.FC = () => {
           <div className="bg-gray-800 p-4 rounded-lg h-full flex flex-col">
             <div className="flex justify-between items-center mb-4 flex-wrap gap-2">
                 <input 
-                  type="text" value={playlist.name} onChange={e => !isViewerMode && setPlaylist(p => ({ ...p, name: e.target.value }))}
+                  type="text" value={playlist.name} onChange={e => !isViewerMode && applyEdit('Rename playlist', workspace => ({ ...workspace, playlist: { ...workspace.playlist, name: e.target.value } }), `name-${playlist.id}`)}
                   placeholder="My Next Hit Playlist"
                   className={`text-xl font-bold bg-transparent text-teal-300 w-full md:w-auto flex-grow focus:outline-none ${!isViewerMode ? 'border-b-2 border-transparent focus:border-teal-400' : ''}`}
                   readOnly={isViewerMode} aria-label="Playlist name"
@@ -872,47 +2477,133 @@ const App: React.FC = () => {
               {!isViewerMode && (
                 <div className="flex items-center gap-2 flex-shrink-0">
                     <button onClick={handleNewPlaylist} className="text-sm bg-gray-600 px-3 py-2 rounded-md hover:bg-gray-500 font-semibold">New</button>
-                    <button onClick={handleSavePlaylist} disabled={playlist.songs.length === 0} className="flex items-center gap-2 bg-blue-600 px-3 py-2 rounded-md hover:bg-blue-500 text-sm font-semibold disabled:opacity-50">
+                    <button onClick={() => setSmartEditorMode('new')} className="text-sm bg-gray-600 px-3 py-2 rounded-md hover:bg-gray-500 font-semibold" title="New playlist that fills itself from the library by rules">Smart</button>
+                    <button onClick={handleSavePlaylist} disabled={playlist.songs.length === 0 && !playlist.smart} className="flex items-center gap-2 bg-blue-600 px-3 py-2 rounded-md hover:bg-blue-500 text-sm font-semibold disabled:opacity-50">
                         <SaveIcon /><span>Save</span>
                     </button>
                     <button onClick={handleExportPlaylist} disabled={playlist.songs.length === 0} className="flex items-center gap-2 bg-indigo-600 px-3 py-2 rounded-md hover:bg-indigo-500 text-sm font-semibold disabled:opacity-50">
                         <ExportIcon /><span>Export</span>
                     </button>
-                    <button onClick={() => setShareModalOpen(true)} disabled={playlist.songs.length === 0} className="flex items-center gap-2 bg-teal-600 px-3 py-2 rounded-md hover:bg-teal-500 text-sm font-semibold disabled:opacity-50">
+                    <button
+                      onClick={() => setShareModalOpen(true)}
+                      disabled={playlist.songs.length === 0 || !!playlist.smart}
+                      title={playlist.smart ? "Freeze this smart playlist before sharing it" : undefined}
+                      className="flex items-center gap-2 bg-teal-600 px-3 py-2 rounded-md hover:bg-teal-500 text-sm font-semibold disabled:opacity-50">
                       <ShareIcon /><span>Share</span>
                     </button>
                 </div>
               )}
             </div>
-            <div className="space-y-2 flex-grow max-h-[calc(100vh-20rem)] overflow-y-auto pr-2">
+            {!isViewerMode && (
+              <div className="flex items-center justify-between gap-2 mb-3 flex-wrap">
+                <label className="flex items-center gap-2 text-sm text-gray-400" title="How tracks join during continuous playback; clients hear the same when you share">
+                  Transitions
+                  <select
+                    value={playlist.crossfade ?? 0}
+                    onChange={e => applyEdit('Change transitions', workspace => ({ ...workspace, playlist: { ...workspace.playlist, crossfade: Number(e.target.value) || undefined } }))}
+                    className="bg-gray-700 text-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  >
+                    {CROSSFADE_OPTIONS.map(seconds => (
+                      <option key={seconds} value={seconds}>{seconds === 0 ? 'Gapless' : `Crossfade ${seconds}s`}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-400" title={`Brings every track toward ${LOUDNESS_TARGET} LUFS, without pushing peaks into clipping or over-boosting quiet tracks; clients hear the same when you share`}>
+                  <input
+                    type="checkbox"
+                    checked={!!playlist.loudnessMatch}
+                    onChange={e => applyEdit(e.target.checked ? 'Turn on loudness match' : 'Turn off loudness match', workspace => ({ ...workspace, playlist: { ...workspace.playlist, loudnessMatch: e.target.checked || undefined } }))}
+                    className="accent-teal-500"
+                  />
+                  Match loudness
+                </label>
+                {!playlist.smart && (
+                  <button
+                    onClick={() => setIsSequencing(true)}
+                    disabled={playlist.songs.length < 2}
+                    className="px-2 py-1 text-sm bg-gray-600 rounded-md hover:bg-gray-500 disabled:opacity-50"
+                    title="Reorder for smooth key, tempo and energy flow"
+                  >
+                    Auto-sequence
+                  </button>
+                )}
+              </div>
+            )}
+            {!isViewerMode && playlist.smart && (
+              <div className="flex items-center justify-between gap-2 mb-3 p-2 rounded-md bg-teal-900/30 text-sm">
+                <p className="text-gray-300 min-w-0">
+                  <span className="font-semibold text-teal-300">Smart playlist</span>
+                  {' · '}
+                  {playlist.smart.rules.length > 0
+                    ? `${playlist.smart.match === 'all' ? 'All' : 'Any'} of: ${playlist.smart.rules.map(describeRule).join(', ')}`
+                    : 'Every track in the library'}
+                  {playlist.smart.limit && ` · up to ${playlist.smart.limit}`}
+                </p>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button onClick={() => setSmartEditorMode('edit')} className="px-2 py-1 bg-gray-600 rounded-md hover:bg-gray-500">Edit Rules</button>
+                  <button onClick={handleFreezePlaylist} className="px-2 py-1 bg-teal-600 rounded-md hover:bg-teal-500" title="Keep these tracks as a regular playlist">Freeze</button>
+                </div>
+              </div>
+            )}
+            {!isViewerMode && playlistSelection.ids.length > 0 && (
+              <SelectionBar count={playlistSelection.ids.length} onClear={() => setPlaylistSelection(EMPTY_SELECTION)}>
+                {!playlist.smart && <button onClick={handleBulkRemoveFromPlaylist} className="px-2 py-1 rounded-md hover:bg-gray-600">Remove</button>}
+                <button onClick={() => handleBulkAnalyze('playlist')} className="px-2 py-1 rounded-md hover:bg-gray-600">Re-analyze</button>
+                <button onClick={() => setBulkEditIds(selectedIds('playlist'))} className="px-2 py-1 rounded-md hover:bg-gray-600">Edit</button>
+              </SelectionBar>
+            )}
+            <div
+              className="space-y-2 flex-grow max-h-[calc(100vh-20rem)] overflow-y-auto pr-2"
+              onDragOver={(e) => handlePlaylistDragOver(e)}
+              onDrop={handlePlaylistDrop}
+              onDragLeave={(e) => !e.currentTarget.contains(e.relatedTarget as Node) && setDropIndex(null)}
+            >
               {playlist.songs.length > 0 ? playlist.songs.map((song, index) => (
-                <SongItem
-                  key={song.id} song={song} isPlaying={isPlaying} isCurrent={currentSong?.id === song.id} onPlayPause={handlePlayPause}
-                  actions={!isViewerMode ?
-                    <>
-                      <button onClick={() => handleStartEditing(song)} className="p-2 rounded-full hover:bg-gray-600" title="Edit metadata">
-                          <EditIcon className="w-5 h-5 text-gray-400 hover:text-teal-300"/>
-                      </button>
-                      <button onClick={() => removeSongFromPlaylist(song.id)} className="p-2 rounded-full hover:bg-gray-600" title="Remove from playlist">
-                        <TrashIcon className="w-5 h-5 text-gray-400 hover:text-red-400"/>
-                      </button>
-                    </> : undefined
-                  }
-                  extraControls={!isViewerMode ? (
-                    <>
-                      <button onClick={() => reorderSongInPlaylist(song.id, 'up')} disabled={index === 0} className="p-2 rounded-full hover:bg-gray-600 disabled:opacity-30" aria-label={`Move ${song.name} up`}>
-                        <ChevronUpIcon className="w-4 h-4 text-gray-400" />
-                      </button>
-                      <button onClick={() => reorderSongInPlaylist(song.id, 'down')} disabled={index === playlist.songs.length - 1} className="p-2 rounded-full hover:bg-gray-600 disabled:opacity-30" aria-label={`Move ${song.name} down`}>
-                        <ChevronDownIcon className="w-4 h-4 text-gray-400" />
-                      </button>
-                    </>
-                  ) : <span className="w-4 mr-10"></span>}
-                />
+                <div
+                  key={song.id}
+                  draggable={!isViewerMode && !playlist.smart && expandedSongId !== song.id}
+                  onDragStart={(e) => handleDragStart('playlist', song, e)}
+                  onDragEnd={handleDragEnd}
+                  onDragOver={(e) => handlePlaylistDragOver(e, index)}
+                  className={`border-y-2 ${dropIndex === index ? 'border-t-teal-400' : 'border-t-transparent'} ${dropIndex === index + 1 && index === playlist.songs.length - 1 ? 'border-b-teal-400' : 'border-b-transparent'}`}
+                >
+                  {renderSongItem({
+                    song,
+                    isPlaying,
+                    isCurrent: currentSong?.id === song.id,
+                    onPlayPause: handlePlayPause,
+                    isSelected: playlistSelection.ids.includes(song.id),
+                    onSelect: !isViewerMode ? (e) => handleSelectSong('playlist', song.id, e) : undefined,
+                    actions: !isViewerMode ?
+                      <>
+                        <button onClick={() => handleStartEditing(song)} className="p-2 rounded-full hover:bg-gray-600" title="Edit metadata">
+                            <EditIcon className="w-5 h-5 text-gray-400 hover:text-teal-300"/>
+                        </button>
+                        <button onClick={() => handleDownloadTagged(song)} disabled={!song.url} className="p-2 rounded-full hover:bg-gray-600 disabled:opacity-30" title="Download with tags">
+                            <TagIcon className="w-5 h-5 text-gray-400 hover:text-teal-300"/>
+                        </button>
+                        {!playlist.smart && (
+                          <button onClick={() => removeSongsFromPlaylist([song.id])} className="p-2 rounded-full hover:bg-gray-600" title="Remove from playlist">
+                            <TrashIcon className="w-5 h-5 text-gray-400 hover:text-red-400"/>
+                          </button>
+                        )}
+                      </> : undefined,
+                    extraControls: !isViewerMode && !playlist.smart ? (
+                      <>
+                        <button onClick={() => reorderSongInPlaylist(song.id, 'up')} disabled={index === 0} className="p-2 rounded-full hover:bg-gray-600 disabled:opacity-30" aria-label={`Move ${song.name} up`}>
+                          <ChevronUpIcon className="w-4 h-4 text-gray-400" />
+                        </button>
+                        <button onClick={() => reorderSongInPlaylist(song.id, 'down')} disabled={index === playlist.songs.length - 1} className="p-2 rounded-full hover:bg-gray-600 disabled:opacity-30" aria-label={`Move ${song.name} down`}>
+                          <ChevronDownIcon className="w-4 h-4 text-gray-400" />
+                        </button>
+                      </>
+                    ) : <span className="w-4 mr-10"></span>,
+                  })}
+                </div>
               )) : 
               <div className="flex items-center justify-center h-full">
                  <p className="text-gray-500 text-center py-8">
-                  {isViewerMode ? "This playlist is empty." : "Add songs from your library to build a playlist."}
+                  {isViewerMode ? "This playlist is empty." : playlist.smart ? "No tracks in the library match these rules yet." : "Add songs from your library to build a playlist."}
                  </p>
               </div>
               }
@@ -923,40 +2614,288 @@ const App: React.FC = () => {
 
       {currentSong && (
         <footer className="fixed bottom-0 left-0 right-0 bg-gray-800/80 backdrop-blur-md border-t border-gray-700 p-4 z-20">
-          <audio ref={audioRef} />
+          {isQueueOpen && (
+            <QueuePanel
+              upNext={queue.upNext.flatMap((id, position) => {
+                const song = findSong(id);
+                return song ? [{ position, song }] : [];
+              })}
+              upcoming={queue.order.slice(queue.index + 1).map(id => findSong(id)).filter((s): s is Song => !!s)}
+              willRepeat={queue.repeat !== 'off'}
+              onRemove={(position) => setQueue(prev => removeFromUpNext(prev, position))}
+              onClear={() => setQueue(clearUpNext)}
+            />
+          )}
           <div className="max-w-7xl mx-auto flex items-center gap-4">
-            <button onClick={() => handlePlayPause(currentSong)} className="text-teal-300 hover:text-teal-200" aria-label={isPlaying ? "Pause" : "Play"} disabled={!currentSong.url}>
-              {isPlaying ? <PauseIcon className="w-8 h-8" /> : <PlayIcon className={`w-8 h-8 ${!currentSong.url && 'opacity-50'}`} />}
-            </button>
+            <div className="flex items-center gap-2">
+              <button onClick={handlePreviousTrack} className="text-gray-400 hover:text-white" aria-label="Previous track">
+                <PreviousIcon className="w-5 h-5" />
+              </button>
+              <button onClick={() => handlePlayPause(currentSong)} className="text-teal-300 hover:text-teal-200" aria-label={isPlaying ? "Pause" : "Play"} disabled={!currentSong.url}>
+                {isPlaying ? <PauseIcon className="w-8 h-8" /> : <PlayIcon className={`w-8 h-8 ${!currentSong.url && 'opacity-50'}`} />}
+              </button>
+              <button onClick={handleNextTrack} className="text-gray-400 hover:text-white" aria-label="Next track">
+                <NextIcon className="w-5 h-5" />
+              </button>
+            </div>
             <div className="flex-grow flex items-center gap-4">
                 <p className="w-32 truncate text-gray-300 font-medium">{currentSong.name}</p>
+                {currentSongVersions.length > 1 && (
+                    <div className="flex items-center gap-1 flex-shrink-0" role="group" aria-label="Compare versions">
+                        {currentSongVersions.map(version => (
+                            <button
+                                key={version.id}
+                                onClick={() => handleListenToVersion(currentSong, version)}
+                                disabled={!version.url}
+                                className={`px-2 py-1 text-xs font-mono rounded-md disabled:opacity-40 ${playingSong?.id === version.id ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                aria-pressed={playingSong?.id === version.id}
+                                title={`Switch to ${versionLabel(version, currentSongVersions)} at the same position (V)`}
+                            >
+                                {versionLabel(version, currentSongVersions)}
+                            </button>
+                        ))}
+                    </div>
+                )}
                 <span className="text-sm text-gray-400">{formatTime(currentTime)}</span>
-                <input
-                    type="range" min="0" max={duration || 0} value={currentTime} onChange={handleSeek}
-                    className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-teal-400"
-                    aria-label="Seek slider" disabled={!currentSong.url}
-                />
+                {playingSong?.peaks && currentSong.url ? (
+                    <Waveform
+                        peaks={playingSong.peaks}
+                        duration={duration}
+                        currentTime={currentTime}
+                        onSeek={(time) => handleSeekTo(currentSong, time)}
+                        label="Seek slider"
+                        className="h-10"
+                    >
+                        {renderCommentMarkers(currentSong)}
+                        {renderMarkerOverlay(playingMarkers, duration, (time) => handleSeekTo(currentSong, time))}
+                        {renderLoopOverlay()}
+                    </Waveform>
+                ) : (
+                    <div className="relative w-full flex items-center">
+                        <input
+                            type="range" min="0" max={duration || 0} value={currentTime} onChange={handleSeek}
+                            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-teal-400"
+                            aria-label="Seek slider" disabled={!currentSong.url}
+                        />
+                        {renderCommentMarkers(currentSong)}
+                        {renderMarkerOverlay(playingMarkers, duration, (time) => handleSeekTo(currentSong, time))}
+                        {renderLoopOverlay()}
+                    </div>
+                )}
                 <span className="text-sm text-gray-400">{formatTime(duration)}</span>
             </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setQueue(prev => setShuffle(prev, !prev.shuffle, sourceIds(prev.source)))}
+                className={`p-2 rounded-full hover:bg-gray-700 ${queue.shuffle ? 'text-teal-300' : 'text-gray-400'}`}
+                aria-label="Shuffle" aria-pressed={queue.shuffle}
+              >
+                <ShuffleIcon />
+              </button>
+              <button
+                onClick={() => setQueue(cycleRepeat)}
+                className={`relative p-2 rounded-full hover:bg-gray-700 ${queue.repeat !== 'off' ? 'text-teal-300' : 'text-gray-400'}`}
+                aria-label={queue.repeat === 'one' ? 'Repeat one' : queue.repeat === 'all' ? 'Repeat all' : 'Repeat off'}
+                title={queue.repeat === 'one' ? 'Repeat one' : queue.repeat === 'all' ? 'Repeat all' : 'Repeat off'}
+              >
+                <RepeatIcon />
+                {queue.repeat === 'one' && <span className="absolute top-0.5 right-0.5 text-[10px] font-bold leading-none">1</span>}
+              </button>
+              <button
+                onClick={() => setIsAuditionOpen(open => !open)}
+                className={`px-2 h-9 rounded-full hover:bg-gray-700 text-xs font-semibold whitespace-nowrap ${loopRegion || playbackRate !== 1 || transpose !== 0 ? 'text-teal-300' : 'text-gray-400'}`}
+                aria-label="Loop and speed" aria-expanded={isAuditionOpen}
+                title="Loop a section, change the speed or transpose"
+              >
+                {playbackRate !== 1 ? `${playbackRate}×` : 'A–B'}
+              </button>
+              <button
+                onClick={() => setIsQueueOpen(open => !open)}
+                className={`relative p-2 rounded-full hover:bg-gray-700 ${isQueueOpen ? 'text-teal-300' : 'text-gray-400'}`}
+                aria-label="Show queue" aria-expanded={isQueueOpen}
+              >
+                <QueueListIcon />
+                {queue.upNext.length > 0 && <span className="absolute -top-0.5 -right-0.5 bg-teal-600 text-white text-[10px] rounded-full px-1 leading-4">{queue.upNext.length}</span>}
+              </button>
+              <button
+                onClick={() => setIsShortcutsHelpOpen(true)}
+                className="w-9 h-9 rounded-full hover:bg-gray-700 text-gray-400 font-semibold"
+                aria-label="Keyboard shortcuts" title="Keyboard shortcuts (?)"
+              >
+                ?
+              </button>
+            </div>
           </div>
+          {isAuditionOpen && (
+            <div className="max-w-7xl mx-auto flex items-center gap-x-4 gap-y-2 mt-2 flex-wrap text-sm" role="group" aria-label="Loop and speed">
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => handleSetLoopStart(currentTime)}
+                  disabled={!currentSong.url}
+                  className={`px-2 py-1 text-xs font-mono rounded-md disabled:opacity-40 ${loopStart !== null ? 'bg-sky-700 text-sky-100' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  title="Set the loop start here (A)"
+                >
+                  A {loopStart !== null || loopRegion ? formatTime(loopStart ?? loopRegion!.start) : ''}
+                </button>
+                <button
+                  onClick={() => handleSetLoopEnd(currentTime)}
+                  disabled={!currentSong.url}
+                  className={`px-2 py-1 text-xs font-mono rounded-md disabled:opacity-40 ${loopRegion ? 'bg-sky-700 text-sky-100' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  title="Set the loop end here and start looping (B)"
+                >
+                  B {loopRegion ? formatTime(loopRegion.end) : ''}
+                </button>
+                {(loopRegion || loopStart !== null) && (
+                  <button onClick={handleClearLoop} className="px-2 py-1 text-xs rounded-md text-gray-300 hover:bg-gray-600">Clear loop</button>
+                )}
+                {playingMarkers.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const marker = playingMarkers.find(m => m.id === e.target.value);
+                      if (marker) handleLoopMarker(marker);
+                    }}
+                    className="bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    aria-label="Loop a marker"
+                  >
+                    <option value="">Loop a marker…</option>
+                    {playingMarkers.map(marker => (
+                      <option key={marker.id} value={marker.id}>{marker.label} ({formatTime(marker.time)})</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-gray-400" title="Changes the speed without changing the pitch">
+                Speed
+                <select
+                  value={playbackRate}
+                  onChange={(e) => setPlaybackRate(Number(e.target.value))}
+                  className="bg-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                  {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                </select>
+              </label>
+              <div className="flex items-center gap-1 text-gray-400" role="group" aria-label="Transpose">
+                <span className="mr-1">Transpose</span>
+                <button onClick={() => setTranspose(t => t - 1)} disabled={transpose <= -MAX_TRANSPOSE} className="w-6 h-6 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-40" aria-label="Down a semitone">−</button>
+                <span className="w-8 text-center font-mono text-xs text-gray-200">{transpose > 0 ? `+${transpose}` : transpose}</span>
+                <button onClick={() => setTranspose(t => t + 1)} disabled={transpose >= MAX_TRANSPOSE} className="w-6 h-6 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-40" aria-label="Up a semitone">+</button>
+              </div>
+              {(playbackRate !== 1 || transpose !== 0) && (
+                <button onClick={() => { setPlaybackRate(1); setTranspose(0); }} className="text-xs text-gray-400 hover:text-white">Reset</button>
+              )}
+              {isStretching && (
+                <span className="flex items-center gap-1 text-xs text-gray-400"><LoadingSpinnerIcon className="w-3 h-3" />Preparing…</span>
+              )}
+            </div>
+          )}
+          {playingMarkers.length > 0 && currentSong.url && (
+            <div className="max-w-7xl mx-auto flex items-center gap-2 mt-2 overflow-x-auto" role="group" aria-label="Jump to marker">
+              <span className="text-xs text-gray-500 flex-shrink-0">Jump to</span>
+              {playingMarkers.map(marker => {
+                const end = markerEnd(marker, playingMarkers, duration || currentSong.duration);
+                const isActive = end !== undefined && currentTime >= marker.time && currentTime < end;
+                return (
+                  <button
+                    key={marker.id}
+                    onClick={() => handleSeekTo(currentSong, marker.time)}
+                    className={`px-2 py-1 text-xs rounded-md whitespace-nowrap ${isActive ? 'bg-pink-700 text-pink-100' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                    aria-current={isActive || undefined}
+                  >
+                    {marker.label} <span className="font-mono opacity-70">{formatTime(marker.time)}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {isViewerMode && (
+            <form onSubmit={handleAddPlayerComment} className="max-w-7xl mx-auto flex items-center gap-2 mt-3">
+              <button
+                type="button"
+                onClick={() => setCommentRangeStart(commentRangeStart === null ? currentTime : null)}
+                className={`text-xs font-mono px-2 py-1.5 rounded-md whitespace-nowrap ${commentRangeStart !== null ? 'bg-yellow-700 text-yellow-100' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                title="Mark the start of a section to comment on"
+              >
+                {commentRangeStart !== null ? `From ${formatTime(commentRangeStart)}` : 'Mark start'}
+              </button>
+              <input
+                ref={playerCommentInputRef}
+                type="text"
+                value={playerCommentText}
+                onChange={(e) => setPlayerCommentText(e.target.value)}
+                placeholder={commentRangeStart !== null
+                  ? `Comment on ${formatTime(commentRangeStart)}–${formatTime(currentTime)}...`
+                  : `Comment at ${formatTime(currentTime)}...`}
+                className="flex-grow bg-gray-700 text-sm rounded-md px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                aria-label="Comment on the current moment"
+              />
+              <button type="submit" className="bg-teal-600 text-sm text-white px-3 py-1.5 rounded-md hover:bg-teal-500 transition-colors">Add</button>
+            </form>
+          )}
         </footer>
       )}
       
+      {isShortcutsHelpOpen && (
+        <ShortcutsHelp onClose={() => setIsShortcutsHelpOpen(false)} canComment={isViewerMode} canEdit={!isViewerMode} />
+      )}
       <ShareModal 
         isOpen={isShareModalOpen} 
         onClose={() => setShareModalOpen(false)}
         playlist={playlist}
         producerProfile={producerProfile}
+        versions={shareVersions}
+        onPreviewChange={(preview) => applyEdit('Change preview settings', workspace => ({ ...workspace, playlist: { ...workspace.playlist, preview } }), `preview-${playlist.id}`)}
       />
       <FeedbackModal
         isOpen={isFeedbackModalOpen}
         onClose={() => setFeedbackModalOpen(false)}
         playlist={playlist}
       />
-      {passwordProtectedPlaylist && (
+      {duplicateRequest && (
+        <DuplicateModal
+            duplicates={duplicateRequest}
+            onResolve={handleResolveDuplicates}
+            onCancel={handleCancelDuplicates}
+        />
+      )}
+      {bulkEditIds && (
+        <BulkEditModal
+            songs={bulkEditIds.map(id => findSong(id)).filter((s): s is Song => !!s)}
+            onSave={handleSaveBulkEdit}
+            onClose={() => setBulkEditIds(null)}
+        />
+      )}
+      {isSequencing && (
+        <AutoSequenceModal
+            songs={playlist.songs}
+            onApply={handleApplySequence}
+            onClose={() => setIsSequencing(false)}
+        />
+      )}
+      {smartEditorMode && (
+        <SmartPlaylistEditor
+            name={smartEditorMode === 'edit' ? playlist.name : 'Smart Playlist'}
+            rules={smartEditorMode === 'edit' ? playlist.smart : undefined}
+            library={libraryCurrentVersions}
+            onSave={handleSaveSmartPlaylist}
+            onClose={() => setSmartEditorMode(null)}
+        />
+      )}
+      {relinkRequest && (
+        <RelinkModal
+            playlistName={relinkRequest.playlist.name}
+            missingSongs={relinkRequest.missingSongs}
+            onRelink={handleRelink}
+            onClose={() => {
+              showNotification(`Playlist "${relinkRequest.playlist.name}" imported without ${relinkRequest.missingSongs.length} track${relinkRequest.missingSongs.length !== 1 ? 's' : ''} of audio.`);
+              setRelinkRequest(null);
+            }}
+        />
+      )}
+      {(encryptedShare || passwordProtectedPlaylist) && (
         <PasswordPromptModal 
-            playlist={passwordProtectedPlaylist}
-            onUnlock={handleUnlockPlaylist}
+            producerName={encryptedShare ? encryptedShare.header.producerName : passwordProtectedPlaylist?.producerProfile?.name}
+            onSubmitPassword={handleSubmitSharePassword}
         />
       )}
     </div>
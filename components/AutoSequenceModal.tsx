@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import type { Song } from '../types';
+import { scoreSequence, sequencePlaylist } from '../services/autoSequence';
+import type { SequenceGoal, TransitionScore } from '../services/autoSequence';
+
+interface AutoSequenceModalProps {
+  songs: Song[];
+  onApply: (songs: Song[]) => void;
+  onClose: () => void;
+}
+
+const GOAL_LABELS: Record<SequenceGoal, string> = {
+  smooth: 'Smooth flow',
+  buildEnergy: 'Build energy',
+  keepTempo: 'Keep tempo',
+};
+
+const GOAL_HINTS: Record<SequenceGoal, string> = {
+  smooth: 'Balance key compatibility, tempo and energy',
+  buildEnergy: 'Start calm and rise, avoiding drops in energy',
+  keepTempo: 'Keep neighbouring tempos as close as possible',
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const scoreColor = (value: number) =>
+  value >= 0.75 ? 'bg-green-900/50 text-green-300' : value >= 0.5 ? 'bg-yellow-900/50 text-yellow-300' : 'bg-red-900/50 text-red-300';
+
+const TransitionBadge: React.FC<{ transition: TransitionScore }> = ({ transition }) => (
+  <div className="flex items-center gap-2 pl-8 py-0.5 text-xs text-gray-500">
+    <span className={`px-2 rounded-full ${scoreColor(transition.total)}`}>{percent(transition.total)}</span>
+    <span>Key {percent(transition.key)} · Tempo {percent(transition.bpm)} · Energy {percent(transition.energy)}</span>
+  </div>
+);
+
+export const AutoSequenceModal: React.FC<AutoSequenceModalProps> = ({ songs, onApply, onClose }) => {
+  const [goal, setGoal] = useState<SequenceGoal>('smooth');
+  const proposal = useMemo(() => sequencePlaylist(songs, goal), [songs, goal]);
+  const current = useMemo(() => scoreSequence(songs, goal), [songs, goal]);
+  const unchanged = proposal.songs.every((song, index) => song.id === songs[index].id);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-xl m-4 text-sm" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-teal-300 mb-2">Auto-sequence</h2>
+        <p className="text-gray-400 mb-4">Reorders the playlist by key compatibility, tempo and energy.</p>
+
+        <div className="flex gap-1 mb-4" role="radiogroup" aria-label="Sequencing goal">
+          {(Object.keys(GOAL_LABELS) as SequenceGoal[]).map(option => (
+            <button
+              key={option}
+              role="radio"
+              aria-checked={goal === option}
+              onClick={() => setGoal(option)}
+              title={GOAL_HINTS[option]}
+              className={`px-3 py-1 rounded-md text-xs ${goal === option ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {GOAL_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        <ol className="max-h-96 overflow-y-auto mb-4 p-2 rounded-md bg-gray-900/50">
+          {proposal.songs.map((song, index) => (
+            <li key={song.id}>
+              {index > 0 && <TransitionBadge transition={proposal.transitions[index - 1]} />}
+              <div className="flex items-center gap-2">
+                <span className="w-6 text-right text-gray-500">{index + 1}</span>
+                <span className="truncate flex-grow text-gray-200">{song.name}</span>
+                <span className="text-xs text-gray-400 flex-shrink-0">
+                  {[song.key, song.bpm && `${song.bpm} BPM`].filter(Boolean).join(' · ') || 'Not analyzed'}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-gray-400">
+            Flow {percent(current.score)} → <span className="text-teal-300 font-semibold">{percent(proposal.score)}</span>
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 bg-gray-600 rounded-md hover:bg-gray-500">Cancel</button>
+            <button
+              onClick={() => onApply(proposal.songs)}
+              disabled={unchanged}
+              className="px-3 py-1.5 bg-teal-600 rounded-md hover:bg-teal-500 font-semibold disabled:opacity-50"
+            >
+              Apply Order
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import type { EditFormData, Song } from '../types';
+
+interface BulkEditModalProps {
+  songs: Song[];
+  onSave: (form: EditFormData) => void;
+  onClose: () => void;
+}
+
+// Names stay per-track; everything else can be set across a selection
+type BulkField = Exclude<keyof EditFormData, 'name'>;
+
+const FIELDS: { field: BulkField; label: string; placeholder?: string }[] = [
+  { field: 'bpm', label: 'BPM' },
+  { field: 'key', label: 'Key' },
+  { field: 'genre', label: 'Genre' },
+  { field: 'mood', label: 'Mood' },
+  { field: 'instrumentation', label: 'Instrumentation (comma-separated)', placeholder: 'e.g., synth, drums, bass' },
+  { field: 'genreTags', label: 'Genre Tags (comma-separated)', placeholder: 'e.g., trap, lo-fi, chill' },
+];
+
+const formValue = (song: Song, field: BulkField) => {
+  const value = song[field];
+  return Array.isArray(value) ? value.join(', ') : value || '';
+};
+
+// The value every song shares, or undefined when they differ
+const sharedValue = (songs: Song[], field: BulkField) => {
+  const values = new Set(songs.map(song => formValue(song, field)));
+  return values.size === 1 ? [...values][0] : undefined;
+};
+
+export const BulkEditModal: React.FC<BulkEditModalProps> = ({ songs, onSave, onClose }) => {
+  const [initial] = useState(() => Object.fromEntries(FIELDS.map(({ field }) => [field, sharedValue(songs, field)])) as Record<BulkField, string | undefined>);
+  const [form, setForm] = useState<Record<BulkField, string>>(() =>
+    Object.fromEntries(FIELDS.map(({ field }) => [field, initial[field] ?? ''])) as Record<BulkField, string>
+  );
+
+  // Only fields the user changed are applied, so mixed values survive untouched
+  const changes: EditFormData = Object.fromEntries(FIELDS
+    .filter(({ field }) => form[field] !== (initial[field] ?? ''))
+    .map(({ field }) => [field, form[field]]));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg m-4 text-sm" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-teal-300 mb-2">Edit {songs.length} Tracks</h2>
+        <p className="text-gray-400 mb-4">Fields marked "Mixed" differ between tracks and are kept unless you type a new value.</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-3 mb-4">
+          {FIELDS.map(({ field, label, placeholder }) => (
+            <div key={field} className={field === 'instrumentation' || field === 'genreTags' ? 'sm:col-span-2' : ''}>
+              <label htmlFor={`bulk-${field}`} className="block font-medium text-gray-400 mb-1">{label}</label>
+              <input
+                type="text"
+                id={`bulk-${field}`}
+                value={form[field]}
+                onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+                placeholder={initial[field] === undefined ? 'Mixed' : placeholder}
+                className="w-full bg-gray-700 rounded p-1.5 focus:outline-none focus:ring-2 focus:ring-teal-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 bg-gray-600 rounded-md hover:bg-gray-500">Cancel</button>
+          <button
+            onClick={() => onSave(changes)}
+            disabled={Object.keys(changes).length === 0}
+            className="px-3 py-1.5 bg-teal-600 rounded-md hover:bg-teal-500 font-semibold disabled:opacity-50"
+          >
+            Save Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { DuplicateMatch, DuplicateResolution } from '../services/songIdentity';
+import { formatTime } from '../utils/format';
+
+interface DuplicateModalProps {
+  duplicates: DuplicateMatch[];
+  onResolve: (resolutions: DuplicateResolution[]) => void;
+  onCancel: () => void;
+}
+
+const RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  merge: 'Merge',
+  keep: 'Keep both',
+  replace: 'Replace',
+};
+
+const RESOLUTION_HINTS: Record<DuplicateResolution, string> = {
+  merge: 'Keep the library track, filling in anything it lacks from the upload',
+  keep: 'Add the upload as a separate track',
+  replace: 'Use the upload instead of the library track, keeping its comments and playlist places',
+};
+
+export const DuplicateModal: React.FC<DuplicateModalProps> = ({ duplicates, onResolve, onCancel }) => {
+  // An identical file is almost always an accidental re-upload; a re-encode may be deliberate
+  const [resolutions, setResolutions] = useState<DuplicateResolution[]>(
+    () => duplicates.map(duplicate => duplicate.kind === 'identical' ? 'merge' : 'keep')
+  );
+
+  const setResolution = (index: number, resolution: DuplicateResolution) =>
+    setResolutions(prev => prev.map((r, i) => i === index ? resolution : r));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onCancel}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl m-4" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-teal-300 mb-2">Possible Duplicates</h2>
+        <p className="text-gray-400 mb-4">
+          {duplicates.length} upload{duplicates.length !== 1 ? 's match tracks' : ' matches a track'} already in your library.
+        </p>
+
+        <ul className="space-y-2 max-h-80 overflow-y-auto mb-4 text-sm">
+          {duplicates.map(({ song, existing, kind }, index) => (
+            <li key={`${index}-${song.id}`} className="p-3 rounded-md bg-gray-900/50">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="truncate text-gray-200" title={song.fileName}>{song.fileName || song.name}</span>
+                <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${kind === 'identical' ? 'bg-red-900/50 text-red-300' : 'bg-yellow-900/50 text-yellow-300'}`}>
+                  {kind === 'identical' ? 'Identical file' : 'Same audio, different file'}
+                </span>
+              </div>
+              <p className="text-gray-400 truncate mb-2">
+                Matches <span className="text-gray-200">{existing.name}</span> ({formatTime(existing.duration)})
+              </p>
+              <div className="flex gap-1" role="radiogroup" aria-label={`What to do with ${song.name}`}>
+                {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                  <button
+                    key={resolution}
+                    role="radio"
+                    aria-checked={resolutions[index] === resolution}
+                    onClick={() => setResolution(index, resolution)}
+                    title={RESOLUTION_HINTS[resolution]}
+                    className={`px-3 py-1 rounded-md text-xs ${resolutions[index] === resolution ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    {RESOLUTION_LABELS[resolution]}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onCancel} className="px-3 py-1.5 bg-gray-600 rounded-md hover:bg-gray-500 text-sm">Skip These Uploads</button>
+          <button onClick={() => onResolve(resolutions)} className="px-3 py-1.5 bg-teal-600 rounded-md hover:bg-teal-500 text-sm font-semibold">Apply</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import type { Playlist } from '../types';
+import { ClipboardIcon, CheckIcon, ExportIcon, LinkIcon } from './Icons';
+import { formatCommentTimestamp } from '../utils/format';
+import { createFeedback, encodeFeedbackHash, FEEDBACK_FILE_EXTENSION } from '../services/feedback';
+
+interface FeedbackModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  playlist: Playlist;
+}
+
+export const FeedbackModal: React.FC<FeedbackModalProps> = ({ isOpen, onClose, playlist }) => {
+  const [copied, setCopied] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [reviewer, setReviewer] = useState('');
+  const [returnLink, setReturnLink] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) {
+      setCopied(false);
+      setLinkCopied(false);
+      setReturnLink('');
+      return;
+    }
+    let cancelled = false;
+    encodeFeedbackHash(createFeedback(playlist, reviewer))
+      .then(hash => {
+        if (!cancelled) setReturnLink(`${window.location.origin}${window.location.pathname}#${hash}`);
+      })
+      .catch(error => console.error("Failed to create feedback link:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, playlist, reviewer]);
+
+  if (!isOpen) return null;
+
+  const generateFeedbackText = () => {
+    let text = `Feedback for Playlist: "${playlist.name}"\n`;
+    if (playlist.producerProfile?.name) {
+        text += `From: ${playlist.producerProfile.name}\n`;
+    }
+    if (reviewer) {
+        text += `Reviewed by: ${reviewer}\n`;
+    }
+    text += '\n';
+
+    playlist.songs.forEach(song => {
+      if (song.comments && song.comments.length > 0) {
+        text += `Track: ${song.name}\n`;
+        song.comments.forEach(comment => {
+          const timestamp = formatCommentTimestamp(comment);
+          text += timestamp ? `- [${timestamp}] ${comment.text}\n` : `- ${comment.text}\n`;
+        });
+        text += '\n';
+      }
+    });
+    return text;
+  };
+
+  const copyToClipboard = () => {
+    navigator.clipboard.writeText(generateFeedbackText()).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const copyReturnLink = () => {
+    navigator.clipboard.writeText(returnLink).then(() => {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    });
+  };
+
+  const downloadFeedbackFile = () => {
+    const jsonString = `data:text/json;charset=utf-8,${encodeURIComponent(
+      JSON.stringify(createFeedback(playlist, reviewer), null, 2)
+    )}`;
+    const link = document.createElement("a");
+    link.href = jsonString;
+    const sanitizedName = playlist.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    link.download = `${sanitizedName || 'playlist'}${FEEDBACK_FILE_EXTENSION}`;
+    link.click();
+  };
+
+  return (
+      <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+          <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg m-4" onClick={(e) => e.stopPropagation()}>
+              <h2 className="text-2xl font-bold text-teal-300 mb-4">Export Feedback</h2>
+              <label htmlFor="reviewerName" className="block text-sm font-medium text-gray-300 mb-2">Your Name (optional)</label>
+              <input
+                  type="text"
+                  id="reviewerName"
+                  value={reviewer}
+                  onChange={(e) => setReviewer(e.target.value)}
+                  placeholder="So the producer knows who this is from"
+                  className="w-full mb-4 bg-gray-900 border border-gray-700 text-white rounded-md p-2 focus:ring-teal-500 focus:border-teal-500"
+              />
+              <p className="text-gray-400 mb-4">Send the return link or feedback file to the producer so your comments appear in their workspace, or copy the summary below into an email.</p>
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                  <button
+                      onClick={copyReturnLink}
+                      disabled={!returnLink}
+                      className="flex items-center justify-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-500 transition-colors disabled:opacity-50"
+                  >
+                      {linkCopied ? <CheckIcon/> : <LinkIcon/>}
+                      {linkCopied ? 'Link Copied!' : 'Copy Return Link'}
+                  </button>
+                  <button
+                      onClick={downloadFeedbackFile}
+                      className="flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-500 transition-colors"
+                  >
+                      <ExportIcon/>
+                      Download File
+                  </button>
+              </div>
+              <textarea
+                  readOnly
+                  value={generateFeedbackText()}
+                  className="w-full h-48 bg-gray-900 text-gray-300 p-3 rounded-md text-sm font-mono border border-gray-700"
+              />
+              <button
+                  onClick={copyToClipboard}
+                  className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+              >
+                  {copied ? <CheckIcon/> : <ClipboardIcon/>}
+                  {copied ? 'Copied to Clipboard!' : 'Copy Summary'}
+              </button>
+          </div>
+      </div>
+  );
+};
@@ -2,45 +2,79 @@
 import React, { useState, useCallback, useRef } from 'react';
 import type { Song } from '../types';
 import { UploadIcon } from './Icons';
+import { saveAudio } from '../services/audioStore';
+import { computeFingerprint, songIdForFile } from '../services/songIdentity';
+import { readTags, songFieldsFromTags } from '../services/tags';
+import { getAudioDuration, songNameForFile } from '../utils/audioFile';
+import { createThumbnail } from '../utils/image';
+
+// Runs work that decodes a whole track, one job at a time (see App)
+export type DecodeQueue = <T>(decode: () => Promise<T>) => Promise<T>;
 
 interface FileUploadProps {
   onSongsUploaded: (songs: Song[]) => void;
+  queueDecode: DecodeQueue;
   disabled: boolean;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onSongsUploaded, disabled }) => {
+// Stores the file's audio and reads what it can about it: tags, cover art and a fingerprint
+export const createSongFromFile = async (file: File, queueDecode: DecodeQueue): Promise<Song> => {
+  const duration = await getAudioDuration(file);
+  const id = await songIdForFile(file);
+  try {
+    await saveAudio(id, file);
+  } catch (error) {
+    console.error(`Failed to store audio for: ${file.name}`, error);
+  }
+  let tagFields: Partial<Song> = {};
+  try {
+    const tags = await readTags(file);
+    tagFields = songFieldsFromTags(tags);
+    if (tags.picture) {
+      try {
+        tagFields.artwork = await createThumbnail(new Blob([tags.picture.data], { type: tags.picture.mimeType }));
+      } catch (error) {
+        console.error(`Failed to read cover art for: ${file.name}`, error);
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to read tags for: ${file.name}`, error);
+  }
+  let fingerprint: number[] | undefined;
+  try {
+    fingerprint = await queueDecode(() => computeFingerprint(file));
+  } catch (error) {
+    console.error(`Failed to fingerprint audio for: ${file.name}`, error);
+  }
+  return {
+    id,
+    name: songNameForFile(file),
+    ...tagFields,
+    fileName: file.name,
+    fileSize: file.size,
+    fingerprint,
+    addedAt: Date.now(),
+    url: URL.createObjectURL(file),
+    duration: duration,
+    file: file,
+  };
+};
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onSongsUploaded, queueDecode, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const getAudioDuration = (file: File): Promise<number> => {
-    return new Promise((resolve) => {
-      const audio = document.createElement('audio');
-      audio.src = URL.createObjectURL(file);
-      audio.addEventListener('loadedmetadata', () => {
-        resolve(audio.duration);
-        URL.revokeObjectURL(audio.src);
-      });
-    });
-  };
-
   const processFiles = useCallback(async (files: FileList | null) => {
     if (!files || files.length === 0) return;
 
     const newSongs: Song[] = [];
     for (const file of Array.from(files)) {
       if (file.type.startsWith('audio/')) {
-        const duration = await getAudioDuration(file);
-        newSongs.push({
-          id: `${file.name}-${file.size}`,
-          name: file.name.replace(/\.[^/.]+$/, ""),
-          url: URL.createObjectURL(file),
-          duration: duration,
-          file: file,
-        });
+        newSongs.push(await createSongFromFile(file, queueDecode));
       }
     }
     onSongsUploaded(newSongs);
-  }, [onSongsUploaded]);
+  }, [onSongsUploaded, queueDecode]);
 
   const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
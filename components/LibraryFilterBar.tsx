@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import type { LibraryFilterPreset, LibrarySort, LibrarySortField } from '../types';
+import { ChevronDownIcon, ChevronUpIcon, SaveIcon, SearchIcon, TrashIcon } from './Icons';
+
+interface LibraryFilterBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  errors: string[];
+  sort: LibrarySort;
+  onSortChange: (sort: LibrarySort) => void;
+  presets: LibraryFilterPreset[];
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (presetId: string) => void;
+  shownCount: number;
+  totalCount: number;
+}
+
+const SORT_COLUMNS: { field: LibrarySortField; label: string }[] = [
+  { field: 'added', label: 'Added' },
+  { field: 'name', label: 'Name' },
+  { field: 'bpm', label: 'BPM' },
+  { field: 'key', label: 'Key' },
+  { field: 'duration', label: 'Length' },
+];
+
+const QUERY_HELP = 'Free text, or filters: bpm:85-95, bpm:>120, key:Am, key:8A, mood:dark, genre:trap, tag:drill, inst:piano, artist:, dur:<3:00, dur:2:00-4:00, is:unanalyzed, is:missing. Prefix a term with - to exclude it, and quote values with spaces.';
+
+export const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({
+  query, onQueryChange, errors, sort, onSortChange, presets, onSavePreset, onDeletePreset, shownCount, totalCount,
+}) => {
+  const [presetName, setPresetName] = useState<string | null>(null);
+  const activePreset = presets.find(p => p.query === query && p.sort.field === sort.field && p.sort.direction === sort.direction);
+
+  // Clicking the active column flips its direction; a new column starts ascending
+  const handleSortClick = (field: LibrarySortField) => {
+    onSortChange(sort.field === field
+      ? { field, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+      : { field, direction: 'asc' });
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) return;
+    onQueryChange(preset.query);
+    onSortChange(preset.sort);
+  };
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName?.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName(null);
+  };
+
+  return (
+    <div className="mb-3 space-y-2 text-sm">
+      <div className="relative">
+        <SearchIcon className="w-4 h-4 text-gray-500 absolute left-2.5 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search, or try bpm:85-95 key:Am mood:dark"
+          title={QUERY_HELP}
+          aria-label="Search the library"
+          className="w-full bg-gray-700 rounded-md py-1.5 pl-8 pr-2 text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+      </div>
+      {errors.length > 0 && <p className="text-xs text-red-400">{errors.join(' ')}</p>}
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1 flex-wrap" role="group" aria-label="Sort by">
+          {SORT_COLUMNS.map(({ field, label }) => (
+            <button
+              key={field}
+              onClick={() => handleSortClick(field)}
+              aria-pressed={sort.field === field}
+              className={`flex items-center gap-0.5 px-2 py-0.5 rounded text-xs ${sort.field === field ? 'bg-teal-600/40 text-teal-200' : 'text-gray-400 hover:bg-gray-700'}`}
+            >
+              {label}
+              {sort.field === field && (sort.direction === 'asc' ? <ChevronUpIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />)}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500 flex-shrink-0">{shownCount === totalCount ? `${totalCount} tracks` : `${shownCount} of ${totalCount}`}</span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={activePreset?.id ?? ''}
+          onChange={(e) => handleApplyPreset(e.target.value)}
+          className="flex-grow min-w-0 bg-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+          aria-label="Saved filters"
+        >
+          <option value="" disabled>{presets.length > 0 ? 'Saved filters…' : 'No saved filters'}</option>
+          {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+        </select>
+        {activePreset && (
+          <button onClick={() => onDeletePreset(activePreset.id)} className="p-1 rounded-full hover:bg-gray-600" title={`Delete "${activePreset.name}"`}>
+            <TrashIcon className="w-4 h-4 text-gray-400 hover:text-red-400" />
+          </button>
+        )}
+        {presetName === null ? (
+          <button
+            onClick={() => setPresetName('')}
+            disabled={!query.trim() || !!activePreset}
+            className="flex items-center gap-1 px-2 py-1 bg-gray-600 rounded-md hover:bg-gray-500 text-xs disabled:opacity-50"
+            title="Save this search and sort"
+          >
+            <SaveIcon className="w-3 h-3" /> Save
+          </button>
+        ) : (
+          <form onSubmit={handleSavePreset} className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setPresetName(null)}
+              placeholder="Name"
+              aria-label="Filter name"
+              className="w-28 bg-gray-700 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+            />
+            <button type="submit" disabled={!presetName.trim()} className="px-2 py-1 bg-teal-600 rounded-md hover:bg-teal-500 text-xs disabled:opacity-50">Save</button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
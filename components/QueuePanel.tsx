@@ -0,0 +1,52 @@
+import React from 'react';
+import type { Song } from '../types';
+import { TrashIcon } from './Icons';
+import { formatTime } from '../utils/format';
+
+interface QueuePanelProps {
+  upNext: { position: number; song: Song }[];
+  upcoming: Song[];
+  willRepeat: boolean;
+  onRemove: (position: number) => void;
+  onClear: () => void;
+}
+
+const QueueRow: React.FC<{ song: Song; children?: React.ReactNode }> = ({ song, children }) => (
+  <li className="flex items-center justify-between gap-2 px-2 py-1 rounded-md hover:bg-gray-700/50">
+    <span className={`truncate ${song.url ? 'text-gray-200' : 'text-gray-500'}`} title={song.url ? undefined : 'No audio — will be skipped'}>{song.name}</span>
+    <span className="flex items-center gap-1 flex-shrink-0 text-gray-500">
+      {formatTime(song.duration)}
+      {children}
+    </span>
+  </li>
+);
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({ upNext, upcoming, willRepeat, onRemove, onClear }) => (
+  <div className="max-w-7xl mx-auto mb-3 bg-gray-900/90 rounded-lg p-3 max-h-64 overflow-y-auto text-sm">
+    {upNext.length > 0 && (
+      <>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="font-semibold text-teal-300">Up Next</h3>
+          <button onClick={onClear} className="text-xs text-gray-400 hover:text-white">Clear</button>
+        </div>
+        <ul className="mb-3">
+          {upNext.map(({ position, song }) => (
+            <QueueRow key={`${position}-${song.id}`} song={song}>
+              <button onClick={() => onRemove(position)} className="p-1 rounded-full hover:bg-gray-600" aria-label={`Remove ${song.name} from queue`}>
+                <TrashIcon className="w-4 h-4 hover:text-red-400" />
+              </button>
+            </QueueRow>
+          ))}
+        </ul>
+      </>
+    )}
+    <h3 className="font-semibold text-gray-300 mb-1">Then</h3>
+    {upcoming.length > 0 ? (
+      <ul>
+        {upcoming.map((song, i) => <QueueRow key={`${i}-${song.id}`} song={song} />)}
+      </ul>
+    ) : (
+      <p className="text-gray-500 px-2">{willRepeat ? 'Starts over from the top.' : 'Nothing else queued.'}</p>
+    )}
+  </div>
+);
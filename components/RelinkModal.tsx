@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import type { Song } from '../types';
+import { CheckIcon, LinkIcon, LoadingSpinnerIcon, UploadIcon } from './Icons';
+import { matchFilesToSongs } from '../services/playlistImport';
+import type { RelinkMatch } from '../services/playlistImport';
+import { getAudioDuration } from '../utils/audioFile';
+import { formatTime } from '../utils/format';
+
+interface RelinkModalProps {
+  playlistName: string;
+  missingSongs: Song[];
+  onRelink: (matches: RelinkMatch[]) => void;
+  onClose: () => void;
+}
+
+export const RelinkModal: React.FC<RelinkModalProps> = ({ playlistName, missingSongs, onRelink, onClose }) => {
+  const [matches, setMatches] = useState<RelinkMatch[]>([]);
+  const [unusedFiles, setUnusedFiles] = useState<File[]>([]);
+  const [isMatching, setIsMatching] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const matchedFileFor = (song: Song) => matches.find(m => m.song.id === song.id)?.file;
+
+  const processFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsMatching(true);
+    const audioFiles = Array.from(files).filter(file => file.type.startsWith('audio/'));
+    const candidates = await Promise.all(audioFiles.map(async file => ({ file, duration: await getAudioDuration(file) })));
+    // Only songs still missing take part, so files can be dropped in several batches
+    const stillMissing = missingSongs.filter(song => !matchedFileFor(song));
+    const result = matchFilesToSongs(stillMissing, candidates);
+    setMatches(prev => [...prev, ...result.matches]);
+    setUnusedFiles(prev => [...prev, ...result.unmatchedFiles]);
+    setIsMatching(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    processFiles(e.dataTransfer.files);
+  };
+
+  const unmatchedCount = missingSongs.length - matches.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg m-4" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-teal-300 mb-2 flex items-center gap-2">
+          <LinkIcon className="w-6 h-6" />
+          Relink Audio
+        </h2>
+        <p className="text-gray-400 mb-4">
+          {missingSongs.length} track{missingSongs.length !== 1 && 's'} in "{playlistName}" {missingSongs.length !== 1 ? 'have' : 'has'} no audio in your library.
+          Drop the original files below and they'll be matched by name, size and duration.
+        </p>
+
+        <label
+          onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center p-6 mb-4 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${isDragging ? 'bg-gray-700 border-teal-400' : 'border-gray-600 hover:bg-gray-700/50 hover:border-teal-400'}`}
+        >
+          {isMatching ? <LoadingSpinnerIcon className="w-8 h-8 text-gray-400" /> : <UploadIcon className="w-8 h-8 text-gray-500" />}
+          <span className="mt-2 text-sm text-gray-400">
+            <span className="font-semibold text-teal-400">Choose files</span> or drag and drop
+          </span>
+          <input type="file" accept="audio/*" multiple className="hidden" onChange={(e) => processFiles(e.target.files)} />
+        </label>
+
+        <ul className="space-y-1 max-h-60 overflow-y-auto mb-4 text-sm">
+          {missingSongs.map(song => {
+            const file = matchedFileFor(song);
+            return (
+              <li key={song.id} className="flex items-center justify-between gap-2 p-2 rounded-md bg-gray-900/50">
+                <span className="truncate text-gray-200">{song.name} <span className="text-gray-500">({formatTime(song.duration)})</span></span>
+                {file ? (
+                  <span className="flex items-center gap-1 text-green-400 truncate" title={file.name}>
+                    <CheckIcon className="w-4 h-4 flex-shrink-0" />
+                    <span className="truncate">{file.name}</span>
+                  </span>
+                ) : (
+                  <span className="text-red-400 flex-shrink-0">Not matched</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {unusedFiles.length > 0 && (
+          <p className="mb-4 p-3 bg-yellow-900/50 border border-yellow-700 text-yellow-300 text-sm rounded-md">
+            No track matched: {unusedFiles.map(file => file.name).join(', ')}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-gray-400">
+            {unmatchedCount > 0 ? `${unmatchedCount} track${unmatchedCount !== 1 ? 's' : ''} still missing` : 'All tracks matched'}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 bg-gray-600 rounded-md hover:bg-gray-500 text-sm">Skip</button>
+            <button
+              onClick={() => onRelink(matches)}
+              disabled={matches.length === 0}
+              className="px-3 py-1.5 bg-teal-600 rounded-md hover:bg-teal-500 text-sm font-semibold disabled:opacity-50"
+            >
+              Relink {matches.length} Track{matches.length !== 1 && 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
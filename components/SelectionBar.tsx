@@ -0,0 +1,17 @@
+import React from 'react';
+
+interface SelectionBarProps {
+  count: number;
+  onClear: () => void;
+  children: React.ReactNode; // The bulk action buttons
+}
+
+export const SelectionBar: React.FC<SelectionBarProps> = ({ count, onClear, children }) => (
+  <div className="flex items-center justify-between gap-2 mb-2 px-3 py-2 rounded-md bg-blue-900/40 text-sm" role="toolbar" aria-label="Selected tracks">
+    <span className="text-blue-200 flex-shrink-0">{count} selected</span>
+    <div className="flex items-center gap-1 flex-wrap justify-end">
+      {children}
+      <button onClick={onClear} className="px-2 py-1 rounded-md text-gray-300 hover:bg-gray-600">Clear</button>
+    </div>
+  </div>
+);
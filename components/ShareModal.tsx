@@ -1,39 +1,77 @@
-import React, { useState, useEffect } from 'react';
-import type { Playlist, ProducerProfile } from '../types';
-import { ClipboardIcon, CheckIcon, ShareIcon, LoadingSpinnerIcon } from './Icons';
+import React, { useState, useEffect, useRef } from 'react';
+import type { Playlist, PreviewSettings, ProducerProfile, Song } from '../types';
+import { ClipboardIcon, CheckIcon, ShareIcon, LoadingSpinnerIcon, ExportIcon } from './Icons';
+import { encodeShareBundle, encryptShareBundle, shareBundleToHash, BUNDLE_FILE_EXTENSION } from '../services/shareFormat';
+import { createPreviewPlaylist, DEFAULT_PREVIEW_SETTINGS, VOICE_TAG_AUDIO_ID } from '../services/preview';
+import type { RenderedPreview } from '../services/preview';
+import { isOpusEncodingSupported } from '../services/audioEncoding';
+import { deleteAudio, getAudio, saveAudio } from '../services/audioStore';
 
 interface ShareModalProps {
   isOpen: boolean;
   onClose: () => void;
   playlist: Playlist;
   producerProfile: ProducerProfile;
+  versions: Song[]; // Earlier versions of the playlist's tracks, which the producer may include
+  onPreviewChange: (preview: PreviewSettings | undefined) => void; // Saved with the playlist
 }
 
-export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, playlist, producerProfile }) => {
+const PREVIEW_LENGTHS = [15, 30, 45, 60, 90];
+const FADE_OUTS = [0, 1, 3, 5];
+const OPUS_BITRATES = [64, 96, 128];
+const VOICE_TAG_INTERVALS = [10, 15, 20, 30];
+const GENERATE_DELAY_MS = 600; // Waits for typing in the password and preview fields to settle
+
+export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, playlist, producerProfile, versions, onPreviewChange }) => {
   const [copied, setCopied] = useState(false);
   const [expiration, setExpiration] = useState('never');
+  const [versionsShown, setVersionsShown] = useState<'latest' | 'all'>('latest');
   const [shareUrl, setShareUrl] = useState('');
   const [usePassword, setUsePassword] = useState(false);
   const [password, setPassword] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [urlWarning, setUrlWarning] = useState<string | null>(null);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0); // Bumped by "Try again"
+  const [shareBundle, setShareBundle] = useState<Uint8Array | null>(null);
+  const [isRenderingPreviews, setIsRenderingPreviews] = useState(false);
+  const [previewFailures, setPreviewFailures] = useState(0);
+  const [voiceTag, setVoiceTag] = useState<Blob | null | undefined>(undefined); // undefined until loaded
+  const [canEncodeOpus, setCanEncodeOpus] = useState(true);
+  const previewCacheRef = useRef(new Map<string, Promise<RenderedPreview>>());
+  const preview = playlist.preview;
 
-  const fileToDataUrl = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
+  useEffect(() => {
+    if (!isOpen) return;
+    getAudio(VOICE_TAG_AUDIO_ID)
+      .then(blob => setVoiceTag(blob ?? null))
+      .catch(error => {
+        console.error("Failed to load voice tag:", error);
+        setVoiceTag(null);
+      });
+    isOpusEncodingSupported().then(setCanEncodeOpus);
+  }, [isOpen]);
+
+  // Renders made with a different tag recording are stale
+  useEffect(() => {
+    previewCacheRef.current.clear();
+  }, [voiceTag]);
 
   useEffect(() => {
     if (isOpen) {
-      const generateUrl = async () => {
-        setIsProcessing(true);
-        setUrlWarning(null);
-        setShareUrl('');
+      // Wait for the tag recording rather than rendering every preview twice
+      if (preview?.voiceTag && voiceTag === undefined) return;
+      let cancelled = false;
+      // Clear the old link right away so it can't be copied with stale settings
+      setIsProcessing(true);
+      setIsRenderingPreviews(false);
+      setUrlWarning(null);
+      setGenerateError(null);
+      setShareUrl('');
+      setShareBundle(null);
+      setPreviewFailures(0);
 
+      const generateUrl = async () => {
         let expiresAt: number | undefined = undefined;
         if (expiration !== 'never') {
           const now = new Date();
@@ -45,58 +83,90 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, playlis
           expiresAt = now.getTime() + durationInMs!;
         }
         
-        const songsWithDataUrls = await Promise.all(
-          playlist.songs.map(async (song) => {
-            const { file, analyzing, url, ...restOfSong } = song;
-            let dataUrl = url;
-            // Only convert file to data URL if a file exists and it's not already a data URL
-            if (file && !url?.startsWith('data:')) {
-              try {
-                dataUrl = await fileToDataUrl(file);
-              } catch (error) {
-                console.error(`Failed to read file for song: ${song.name}`, error);
-                dataUrl = undefined;
-              }
-            }
-            return { ...restOfSong, url: dataUrl };
-          })
-        );
-
-
-        const simplifiedPlaylist: Playlist = {
+        let playlistToShare: Playlist = {
           ...playlist,
           expiresAt,
-          password: usePassword && password ? password : undefined,
-          songs: songsWithDataUrls,
+          password: undefined,
           producerProfile,
+          versions: versionsShown === 'all' && versions.length > 0 ? versions : undefined,
         };
 
-        const serialized = btoa(unescape(encodeURIComponent(JSON.stringify(simplifiedPlaylist))));
-        const finalUrl = `${window.location.origin}${window.location.pathname}#${serialized}`;
+        // Only the rendered clips go into the bundle; the originals stay on this device
+        if (preview) {
+          setIsRenderingPreviews(true);
+          const rendered = await createPreviewPlaylist(playlistToShare, preview, voiceTag ?? undefined, previewCacheRef.current, () => cancelled);
+          if (!rendered || cancelled) return;
+          setIsRenderingPreviews(false);
+          setPreviewFailures(rendered.failed);
+          playlistToShare = rendered.playlist;
+        }
+
+        let bundle = await encodeShareBundle(playlistToShare);
+        // Password-protected shares carry only an encrypted bundle, never the password itself
+        if (usePassword && password) {
+          bundle = await encryptShareBundle(bundle, password, producerProfile.name);
+        }
+        if (cancelled) return;
+
+        const finalUrl = `${window.location.origin}${window.location.pathname}#${shareBundleToHash(bundle)}`;
         
         // Warn if URL is excessively long, which might cause issues in some browsers
         if (finalUrl.length > 8000) { 
-            setUrlWarning(`Warning: This share link is very large (${(finalUrl.length / 1024).toFixed(1)} KB) and may not work in all browsers. Consider a smaller playlist for maximum compatibility.`);
+            setUrlWarning(`This share link is very large (${(finalUrl.length / 1024).toFixed(1)} KB) and may not work in all browsers. Download the ${BUNDLE_FILE_EXTENSION} file instead and send it to your client; they can open it by dragging it onto ${window.location.origin}${window.location.pathname}#open.`);
         }
 
+        setShareBundle(bundle);
         setShareUrl(finalUrl);
-        setIsProcessing(false);
       };
 
-      generateUrl();
+      const timeout = window.setTimeout(async () => {
+        try {
+          await generateUrl();
+        } catch (error) {
+          console.error("Failed to generate share link:", error);
+          if (!cancelled) setGenerateError("Couldn't create the share link. Check your settings and try again.");
+        } finally {
+          if (!cancelled) {
+            setIsProcessing(false);
+            setIsRenderingPreviews(false);
+          }
+        }
+      }, GENERATE_DELAY_MS);
+      return () => {
+        cancelled = true;
+        window.clearTimeout(timeout);
+      };
 
     } else {
         setCopied(false);
         setExpiration('never');
+        setVersionsShown('latest');
         setUsePassword(false);
         setPassword('');
         setIsProcessing(false);
+        setIsRenderingPreviews(false);
         setUrlWarning(null);
+        setGenerateError(null);
+        setShareBundle(null);
     }
-  }, [isOpen, expiration, playlist, usePassword, password, producerProfile]);
+  }, [isOpen, expiration, versionsShown, playlist, versions, usePassword, password, producerProfile, voiceTag, attempt]);
 
   if (!isOpen) return null;
 
+  const updatePreview = (changes: Partial<PreviewSettings>) => onPreviewChange({ ...(preview ?? DEFAULT_PREVIEW_SETTINGS), ...changes });
+
+  const handleVoiceTagFile = (file: File) => {
+    saveAudio(VOICE_TAG_AUDIO_ID, file)
+      .then(() => setVoiceTag(file))
+      .catch(error => console.error("Failed to save voice tag:", error));
+  };
+
+  const handleRemoveVoiceTag = () => {
+    deleteAudio(VOICE_TAG_AUDIO_ID)
+      .then(() => setVoiceTag(null))
+      .catch(error => console.error("Failed to delete voice tag:", error));
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(shareUrl).then(() => {
       setCopied(true);
@@ -104,6 +174,17 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, playlis
     });
   };
 
+  const downloadBundle = () => {
+    if (!shareBundle) return;
+    const url = URL.createObjectURL(new Blob([shareBundle], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    const sanitizedName = playlist.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    link.download = `${sanitizedName || 'playlist'}${BUNDLE_FILE_EXTENSION}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
   return (
     <div 
       className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 transition-opacity"
@@ -136,6 +217,20 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, playlis
                     <option value="30d">30 Days</option>
                 </select>
             </div>
+            {versions.length > 0 && (
+                <div>
+                    <label htmlFor="versions-shown" className="block text-sm font-medium text-gray-300 mb-2">Track Versions</label>
+                    <select
+                        id="versions-shown"
+                        value={versionsShown}
+                        onChange={(e) => setVersionsShown(e.target.value as 'latest' | 'all')}
+                        className="w-full bg-gray-900 border border-gray-700 text-white rounded-md p-2 focus:ring-teal-500 focus:border-teal-500"
+                    >
+                        <option value="latest">Current version only</option>
+                        <option value="all">All versions, with A/B comparison</option>
+                    </select>
+                </div>
+            )}
             <div>
                 <div className="flex items-center justify-between">
                     <span id="password-protection-label" className="text-sm font-medium text-gray-300">Password Protection</span>
@@ -163,15 +258,123 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, playlis
                     </>
                 )}
             </div>
+            <div>
+                <div className="flex items-center justify-between">
+                    <span id="preview-label" className="text-sm font-medium text-gray-300">Share Previews Only</span>
+                    <button
+                        role="switch"
+                        aria-checked={!!preview}
+                        aria-labelledby="preview-label"
+                        onClick={() => onPreviewChange(preview ? undefined : DEFAULT_PREVIEW_SETTINGS)}
+                        className={`${preview ? 'bg-teal-600' : 'bg-gray-600'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-teal-500`}
+                    >
+                        <span className={`${preview ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}/>
+                    </button>
+                </div>
+                {preview && (
+                    <div className="mt-2 grid grid-cols-2 gap-x-3 gap-y-2 text-sm">
+                        <label className="text-gray-400">
+                            Start at (seconds)
+                            <input
+                                type="number"
+                                min={0}
+                                value={preview.start}
+                                onChange={(e) => updatePreview({ start: Math.max(0, Number(e.target.value) || 0) })}
+                                className="mt-1 w-full bg-gray-900 border border-gray-700 text-white rounded-md p-1.5"
+                            />
+                        </label>
+                        <label className="text-gray-400">
+                            Length
+                            <select
+                                value={preview.length}
+                                onChange={(e) => updatePreview({ length: Number(e.target.value) })}
+                                className="mt-1 w-full bg-gray-900 border border-gray-700 text-white rounded-md p-1.5"
+                            >
+                                {PREVIEW_LENGTHS.map(length => <option key={length} value={length}>{length} seconds</option>)}
+                            </select>
+                        </label>
+                        <label className="text-gray-400">
+                            Fade out
+                            <select
+                                value={preview.fadeOut}
+                                onChange={(e) => updatePreview({ fadeOut: Number(e.target.value) })}
+                                className="mt-1 w-full bg-gray-900 border border-gray-700 text-white rounded-md p-1.5"
+                            >
+                                {FADE_OUTS.map(fade => <option key={fade} value={fade}>{fade ? `${fade} seconds` : 'None'}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-gray-400">
+                            Quality
+                            <select
+                                value={preview.format === 'wav' ? 'wav' : String(preview.bitrate)}
+                                onChange={(e) => updatePreview(e.target.value === 'wav' ? { format: 'wav' } : { format: 'opus', bitrate: Number(e.target.value) })}
+                                className="mt-1 w-full bg-gray-900 border border-gray-700 text-white rounded-md p-1.5"
+                            >
+                                {OPUS_BITRATES.map(bitrate => <option key={bitrate} value={bitrate}>Opus {bitrate} kbps</option>)}
+                                <option value="wav">WAV, mono</option>
+                            </select>
+                        </label>
+                        {preview.format === 'opus' && !canEncodeOpus && (
+                            <p className="col-span-2 text-xs text-yellow-300">This browser can't encode Opus, so previews will be WAV.</p>
+                        )}
+                        <div className="col-span-2 flex items-center gap-2 flex-wrap">
+                            <label className="flex items-center gap-2 text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={!!preview.voiceTag}
+                                    onChange={(e) => updatePreview({ voiceTag: e.target.checked ? { interval: 20, volume: 0.8 } : undefined })}
+                                    className="accent-teal-500"
+                                />
+                                Voice tag
+                            </label>
+                            {preview.voiceTag && (
+                                <>
+                                    <select
+                                        value={preview.voiceTag.interval}
+                                        onChange={(e) => updatePreview({ voiceTag: { ...preview.voiceTag!, interval: Number(e.target.value) } })}
+                                        className="bg-gray-900 border border-gray-700 text-white rounded-md p-1"
+                                        aria-label="Voice tag interval"
+                                    >
+                                        {VOICE_TAG_INTERVALS.map(interval => <option key={interval} value={interval}>every {interval}s</option>)}
+                                    </select>
+                                    <input
+                                        type="range" min={0.1} max={1} step={0.1}
+                                        value={preview.voiceTag.volume}
+                                        onChange={(e) => updatePreview({ voiceTag: { ...preview.voiceTag!, volume: Number(e.target.value) } })}
+                                        className="w-20 accent-teal-400"
+                                        aria-label="Voice tag volume"
+                                    />
+                                    <label className="text-xs text-teal-300 hover:text-teal-200 cursor-pointer">
+                                        {voiceTag ? 'Replace recording' : 'Choose recording'}
+                                        <input type="file" accept="audio/*" className="hidden" onChange={(e) => e.target.files?.[0] && handleVoiceTagFile(e.target.files[0])} />
+                                    </label>
+                                    {voiceTag && <button onClick={handleRemoveVoiceTag} className="text-xs text-gray-400 hover:text-white">Remove</button>}
+                                </>
+                            )}
+                        </div>
+                        {preview.voiceTag && voiceTag === null && (
+                            <p className="col-span-2 text-xs text-yellow-300">Choose a recording of your tag; until then previews have none.</p>
+                        )}
+                    </div>
+                )}
+            </div>
         </div>
 
-        <p className="text-gray-400 my-4">Share this link with your customer. They will see a read-only, offline-capable version of your playlist.</p>
+        <p className="text-gray-400 my-4">
+          Share this link with your customer. They will see a read-only, offline-capable version of your playlist.
+          {preview && ` Each track is a ${preview.length}-second preview; your original files stay on this device.`}
+        </p>
         
         {isProcessing ? (
              <div className="flex items-center justify-center space-x-2 bg-gray-900 p-4 rounded-md h-[52px]">
                 <LoadingSpinnerIcon />
-                <span className="text-gray-400">Generating secure link...</span>
+                <span className="text-gray-400">{isRenderingPreviews ? 'Rendering previews...' : usePassword && password ? 'Encrypting secure link...' : 'Generating secure link...'}</span>
              </div>
+        ) : generateError ? (
+            <div className="flex items-center justify-between gap-2 p-3 bg-red-900/50 border border-red-700 text-red-300 text-sm rounded-md">
+                <span>{generateError}</span>
+                <button onClick={() => setAttempt(a => a + 1)} className="shrink-0 px-3 py-1 bg-red-700 text-white rounded-md hover:bg-red-600">Try again</button>
+            </div>
         ) : (
             <div className="flex items-center space-x-2 bg-gray-900 p-2 rounded-md">
               <input
@@ -190,11 +393,27 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, playlis
             </div>
         )}
 
+        {previewFailures > 0 && (
+            <div className="mt-3 p-3 bg-yellow-900/50 border border-yellow-700 text-yellow-300 text-sm rounded-md">
+                {previewFailures} track{previewFailures !== 1 ? 's' : ''} could not be rendered as a preview and {previewFailures !== 1 ? 'are' : 'is'} shared without audio.
+            </div>
+        )}
+
         {urlWarning && (
             <div className="mt-3 p-3 bg-yellow-900/50 border border-yellow-700 text-yellow-300 text-sm rounded-md">
                 {urlWarning}
             </div>
         )}
+
+        {shareBundle && (
+            <button
+              onClick={downloadBundle}
+              className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-500 transition-colors text-sm font-semibold"
+            >
+              <ExportIcon />
+              <span>Download {BUNDLE_FILE_EXTENSION} file ({(shareBundle.length / (1024 * 1024)).toFixed(1)} MB)</span>
+            </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+
+interface ShortcutsHelpProps {
+  onClose: () => void;
+  canComment: boolean;
+  canEdit: boolean;
+}
+
+interface Shortcut {
+  keys: string[];
+  description: string;
+}
+
+const PLAYBACK_SHORTCUTS: Shortcut[] = [
+  { keys: ['Space', 'K'], description: 'Play / pause' },
+  { keys: ['←', '→'], description: 'Seek back / forward 5 seconds' },
+  { keys: ['J', 'L'], description: 'Seek back / forward 10 seconds' },
+  { keys: ['Shift + ←', 'Shift + →'], description: 'Previous / next track' },
+  { keys: ['0–9'], description: 'Jump to 0%–90% of the track' },
+  { keys: ['V'], description: 'Switch between versions of the track' },
+  { keys: ['[', ']'], description: 'Jump to the previous / next marker' },
+  { keys: ['A', 'B'], description: 'Set the loop start / end' },
+];
+
+const EDIT_SHORTCUTS: Shortcut[] = [
+  { keys: ['Ctrl + Z'], description: 'Undo the last edit' },
+  { keys: ['Ctrl + Shift + Z', 'Ctrl + Y'], description: 'Redo' },
+  { keys: ['M'], description: 'Add a marker at the current moment' },
+];
+
+const COMMENT_SHORTCUTS: Shortcut[] = [
+  { keys: ['M'], description: 'Comment on the current moment' },
+];
+
+export const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ onClose, canComment, canEdit }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const shortcuts = [
+    ...PLAYBACK_SHORTCUTS,
+    ...(canComment ? COMMENT_SHORTCUTS : []),
+    ...(canEdit ? EDIT_SHORTCUTS : []),
+    { keys: ['?'], description: 'Show or hide this list' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md m-4" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Keyboard shortcuts">
+        <h2 className="text-2xl font-bold text-teal-300 mb-4">Keyboard Shortcuts</h2>
+        <dl className="space-y-2 text-sm">
+          {shortcuts.map(shortcut => (
+            <div key={shortcut.description} className="flex items-center justify-between gap-4">
+              <dt className="flex gap-1 flex-shrink-0">
+                {shortcut.keys.map(key => (
+                  <kbd key={key} className="px-2 py-0.5 bg-gray-900 border border-gray-600 rounded text-gray-200 font-mono text-xs">{key}</kbd>
+                ))}
+              </dt>
+              <dd className="text-gray-400 text-right">{shortcut.description}</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="mt-4 text-xs text-gray-500">Media keys and lock screen controls work too when your device supports them.</p>
+        <button onClick={onClose} className="mt-4 w-full px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors">Close</button>
+      </div>
+    </div>
+  );
+};
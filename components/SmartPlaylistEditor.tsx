@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import type { LibrarySortField, SmartPlaylistRules, SmartRule, Song } from '../types';
+import { PlusIcon, TrashIcon } from './Icons';
+import { DEFAULT_SMART_RULES, evaluateSmartRules } from '../services/smartPlaylist';
+import { parseKey } from '../utils/musicKey';
+
+interface SmartPlaylistEditorProps {
+  name: string;
+  rules?: SmartPlaylistRules;
+  library: Song[];
+  onSave: (name: string, rules: SmartPlaylistRules) => void;
+  onClose: () => void;
+}
+
+const RULE_LABELS: Record<SmartRule['type'], string> = {
+  tag: 'Genre tag includes',
+  genre: 'Genre includes',
+  mood: 'Mood includes',
+  bpm: 'BPM between',
+  compatibleKey: 'Key mixes with',
+  addedAfter: 'Uploaded since',
+  noComments: 'Has no comments',
+};
+
+const SORT_LABELS: Record<LibrarySortField, string> = {
+  added: 'Upload order',
+  name: 'Name',
+  bpm: 'BPM',
+  key: 'Key',
+  duration: 'Length',
+};
+
+const newRule = (type: SmartRule['type']): SmartRule => {
+  switch (type) {
+    case 'bpm': return { type };
+    case 'compatibleKey': return { type, key: '' };
+    case 'addedAfter': return { type, date: Date.now() - 7 * 24 * 60 * 60 * 1000 };
+    case 'noComments': return { type };
+    default: return { type, value: '' };
+  }
+};
+
+const toDateInput = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Empty number fields mean "no bound"
+const toBound = (value: string) => value === '' ? undefined : Number(value);
+
+const inputClass = 'bg-gray-700 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-teal-500';
+
+export const SmartPlaylistEditor: React.FC<SmartPlaylistEditorProps> = ({ name, rules, library, onSave, onClose }) => {
+  const [draftName, setDraftName] = useState(name);
+  const [draft, setDraft] = useState<SmartPlaylistRules>(rules ?? DEFAULT_SMART_RULES);
+  const matchCount = evaluateSmartRules(draft, library).length;
+  const hasInvalidKey = draft.rules.some(rule => rule.type === 'compatibleKey' && !parseKey(rule.key));
+
+  const updateRule = (index: number, rule: SmartRule) =>
+    setDraft(prev => ({ ...prev, rules: prev.rules.map((r, i) => i === index ? rule : r) }));
+
+  const removeRule = (index: number) =>
+    setDraft(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+
+  const renderRuleInputs = (rule: SmartRule, index: number) => {
+    switch (rule.type) {
+      case 'tag':
+      case 'genre':
+      case 'mood':
+        return (
+          <input value={rule.value} onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+            className={`${inputClass} flex-grow min-w-0`} aria-label={RULE_LABELS[rule.type]} />
+        );
+      case 'bpm':
+        return (
+          <span className="flex items-center gap-1 flex-grow">
+            <input type="number" min="0" value={rule.min ?? ''} placeholder="Min" onChange={(e) => updateRule(index, { ...rule, min: toBound(e.target.value) })}
+              className={`${inputClass} w-20`} aria-label="Minimum BPM" />
+            <span className="text-gray-500">–</span>
+            <input type="number" min="0" value={rule.max ?? ''} placeholder="Max" onChange={(e) => updateRule(index, { ...rule, max: toBound(e.target.value) })}
+              className={`${inputClass} w-20`} aria-label="Maximum BPM" />
+          </span>
+        );
+      case 'compatibleKey':
+        return (
+          <input value={rule.key} placeholder="Am or 8A" onChange={(e) => updateRule(index, { ...rule, key: e.target.value })}
+            className={`${inputClass} flex-grow min-w-0 ${rule.key && !parseKey(rule.key) ? 'ring-2 ring-red-500' : ''}`} aria-label="Key" />
+        );
+      case 'addedAfter':
+        return (
+          <input type="date" value={toDateInput(rule.date)}
+            onChange={(e) => e.target.value && updateRule(index, { ...rule, date: new Date(`${e.target.value}T00:00`).getTime() })}
+            className={`${inputClass} flex-grow`} aria-label="Uploaded since" />
+        );
+      case 'noComments':
+        return <span className="flex-grow" />;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-xl m-4 text-sm" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-teal-300 mb-4">{rules ? 'Edit Smart Playlist' : 'New Smart Playlist'}</h2>
+
+        <input value={draftName} onChange={(e) => setDraftName(e.target.value)} placeholder="Playlist name"
+          className={`${inputClass} w-full mb-4 text-base`} aria-label="Playlist name" />
+
+        <div className="flex items-center gap-2 mb-2 text-gray-300">
+          Include songs matching
+          <select value={draft.match} onChange={(e) => setDraft(prev => ({ ...prev, match: e.target.value as SmartPlaylistRules['match'] }))} className={inputClass}>
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          of these rules:
+        </div>
+
+        <ul className="space-y-2 mb-2 max-h-64 overflow-y-auto">
+          {draft.rules.map((rule, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <select value={rule.type} onChange={(e) => updateRule(index, newRule(e.target.value as SmartRule['type']))} className={`${inputClass} w-44 flex-shrink-0`} aria-label="Rule">
+                {(Object.keys(RULE_LABELS) as SmartRule['type'][]).map(type => <option key={type} value={type}>{RULE_LABELS[type]}</option>)}
+              </select>
+              {renderRuleInputs(rule, index)}
+              <button onClick={() => removeRule(index)} className="p-1 rounded-full hover:bg-gray-600" aria-label="Remove rule">
+                <TrashIcon className="w-4 h-4 text-gray-400 hover:text-red-400" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button onClick={() => setDraft(prev => ({ ...prev, rules: [...prev.rules, newRule('tag')] }))} className="flex items-center gap-1 text-teal-400 hover:text-teal-300 mb-4">
+          <PlusIcon className="w-4 h-4" /> Add rule
+        </button>
+
+        <div className="flex items-center gap-2 flex-wrap mb-4 text-gray-300">
+          Sort by
+          <select value={draft.sort.field} onChange={(e) => setDraft(prev => ({ ...prev, sort: { ...prev.sort, field: e.target.value as LibrarySortField } }))} className={inputClass}>
+            {(Object.keys(SORT_LABELS) as LibrarySortField[]).map(field => <option key={field} value={field}>{SORT_LABELS[field]}</option>)}
+          </select>
+          <select value={draft.sort.direction} onChange={(e) => setDraft(prev => ({ ...prev, sort: { ...prev.sort, direction: e.target.value as 'asc' | 'desc' } }))} className={inputClass} aria-label="Sort direction">
+            <option value="asc">ascending</option>
+            <option value="desc">descending</option>
+          </select>
+          and keep
+          <input type="number" min="1" value={draft.limit ?? ''} placeholder="all"
+            onChange={(e) => setDraft(prev => ({ ...prev, limit: Number(e.target.value) > 0 ? Math.floor(Number(e.target.value)) : undefined }))}
+            className={`${inputClass} w-20`} aria-label="Track limit" />
+          tracks
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-gray-400">{matchCount} track{matchCount !== 1 && 's'} match right now</span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 bg-gray-600 rounded-md hover:bg-gray-500">Cancel</button>
+            <button
+              onClick={() => onSave(draftName.trim() || 'Smart Playlist', draft)}
+              disabled={hasInvalidKey}
+              className="px-3 py-1.5 bg-teal-600 rounded-md hover:bg-teal-500 font-semibold disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
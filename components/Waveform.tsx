@@ -0,0 +1,69 @@
+import React from 'react';
+
+interface WaveformProps {
+  peaks: number[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  label: string;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+const KEYBOARD_SEEK_STEP = 5; // seconds
+
+export const Waveform: React.FC<WaveformProps> = ({ peaks, duration, currentTime, onSeek, label, className = "h-12", children }) => {
+  const progress = duration > 0 ? Math.min(1, Math.max(0, currentTime / duration)) : 0;
+  const playedBars = progress * peaks.length;
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    if (!duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    onSeek(fraction * duration);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      e.stopPropagation();
+      const delta = e.key === 'ArrowLeft' ? -KEYBOARD_SEEK_STEP : KEYBOARD_SEEK_STEP;
+      onSeek(Math.min(duration, Math.max(0, currentTime + delta)));
+    }
+  };
+
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={Math.floor(duration)}
+      aria-valuenow={Math.floor(currentTime)}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      className={`relative w-full cursor-pointer focus:outline-none focus:ring-2 focus:ring-teal-500 rounded ${className}`}
+    >
+      <svg viewBox={`0 0 ${peaks.length} 100`} preserveAspectRatio="none" className="w-full h-full">
+        {peaks.map((peak, i) => {
+          const height = Math.max(2, peak * 100);
+          return (
+            <rect
+              key={i}
+              x={i + 0.15}
+              y={(100 - height) / 2}
+              width={0.7}
+              height={height}
+              className={i < playedBars ? 'fill-teal-400' : 'fill-gray-600'}
+            />
+          );
+        })}
+      </svg>
+      {progress > 0 && (
+        <div className="absolute top-0 bottom-0 w-px bg-white/80 pointer-events-none" style={{ left: `${progress * 100}%` }} />
+      )}
+      {children}
+    </div>
+  );
+};
@@ -6,10 +6,55 @@ const URLS_TO_CACHE = [
   '/index.html',
   '/index.tsx', 
   '/App.tsx',
+  '/components/AutoSequenceModal.tsx',
+  '/components/BulkEditModal.tsx',
+  '/components/DuplicateModal.tsx',
+  '/components/FeedbackModal.tsx',
   '/components/FileUpload.tsx',
   '/components/Icons.tsx',
+  '/components/LibraryFilterBar.tsx',
+  '/components/QueuePanel.tsx',
+  '/components/RelinkModal.tsx',
+  '/components/SelectionBar.tsx',
   '/components/ShareModal.tsx',
+  '/components/ShortcutsHelp.tsx',
+  '/components/SmartPlaylistEditor.tsx',
+  '/components/Waveform.tsx',
+  '/services/audioAnalysis.ts',
+  '/services/audioAnalysis.worker.ts',
+  '/services/audioEncoding.ts',
+  '/services/audioStore.ts',
+  '/services/autoSequence.ts',
+  '/services/dsp.ts',
+  '/services/encoding.ts',
+  '/services/feedback.ts',
+  '/services/gaplessPlayer.ts',
+  '/services/history.ts',
+  '/services/libraryQuery.ts',
+  '/services/loudness.ts',
+  '/services/markers.ts',
+  '/services/mediaSession.ts',
+  '/services/playbackQueue.ts',
+  '/services/playlistImport.ts',
+  '/services/preview.ts',
+  '/services/schema.ts',
+  '/services/shareCrypto.ts',
+  '/services/shareFormat.ts',
+  '/services/smartPlaylist.ts',
+  '/services/songIdentity.ts',
+  '/services/tagWriter.ts',
+  '/services/tags.ts',
+  '/services/timeStretch.ts',
+  '/services/timeStretch.worker.ts',
+  '/services/versions.ts',
+  '/services/waveform.ts',
+  '/services/wsola.ts',
   '/types.ts',
+  '/utils/audioFile.ts',
+  '/utils/format.ts',
+  '/utils/image.ts',
+  '/utils/musicKey.ts',
+  '/utils/selection.ts',
   '/manifest.json'
 ];
 
@@ -0,0 +1,103 @@
+import type { Song } from '../types';
+import { analyzeSamples } from './dsp';
+import type { SampleAnalysis } from './dsp';
+import { measureLoudness } from './loudness';
+import type { LoudnessMeasurement } from './loudness';
+import type { AnalysisRequest, AnalysisResponse } from './audioAnalysis.worker';
+
+// In-browser BPM, key and loudness analysis. The file is decoded (and for BPM
+// and key, downmixed) with OfflineAudioContext on the main thread (Web Audio
+// isn't available in workers), then the heavy DSP runs in a Web Worker.
+
+const ANALYSIS_SAMPLE_RATE = 22050;
+const MAX_ANALYSIS_SECONDS = 120;
+const LOUDNESS_SAMPLE_RATE = 48000; // The rate BS.1770 specifies its filters at
+
+export type LocalAnalysisResult = Pick<Song, 'bpm' | 'bpmConfidence' | 'key' | 'keyConfidence'>;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+type WorkerResult = SampleAnalysis | LoudnessMeasurement;
+const pendingRequests = new Map<number, { resolve: (result: WorkerResult) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./audioAnalysis.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+      const response = event.data;
+      const pending = pendingRequests.get(response.id);
+      if (!pending) return;
+      pendingRequests.delete(response.id);
+      if ('error' in response) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+    };
+    worker.onerror = (event) => {
+      pendingRequests.forEach(pending => pending.reject(new Error(event.message || 'Analysis worker failed')));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const runInWorker = <T extends WorkerResult>(createRequest: (id: number) => AnalysisRequest, transfer: Transferable[]): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve: result => resolve(result as T), reject });
+    getWorker().postMessage(createRequest(id), transfer);
+  });
+
+const analyzeInWorker = (samples: Float32Array, sampleRate: number): Promise<SampleAnalysis> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(analyzeSamples(samples, sampleRate));
+  }
+  return runInWorker(id => ({ id, kind: 'analysis', samples, sampleRate }), [samples.buffer]);
+};
+
+export const decodeAudioFile = async (file: Blob, sampleRate = ANALYSIS_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const decodingContext = new OfflineAudioContext(1, 1, sampleRate);
+  return decodingContext.decodeAudioData(await file.arrayBuffer());
+};
+
+// Decodes the file and renders a mono, downsampled excerpt from the middle of the track
+const decodeForAnalysis = async (file: Blob): Promise<Float32Array> => {
+  const buffer = await decodeAudioFile(file);
+
+  const excerptDuration = Math.min(buffer.duration, MAX_ANALYSIS_SECONDS);
+  const offset = (buffer.duration - excerptDuration) / 2;
+  const renderContext = new OfflineAudioContext(1, Math.ceil(excerptDuration * ANALYSIS_SAMPLE_RATE), ANALYSIS_SAMPLE_RATE);
+  const source = renderContext.createBufferSource();
+  source.buffer = buffer;
+  source.connect(renderContext.destination);
+  source.start(0, offset, excerptDuration);
+  const rendered = await renderContext.startRendering();
+  // Copy so the samples can be transferred to the worker without detaching the AudioBuffer
+  return rendered.getChannelData(0).slice();
+};
+
+export const analyzeAudioFile = async (file: Blob): Promise<LocalAnalysisResult> => {
+  const samples = await decodeForAnalysis(file);
+  const { tempo, key } = await analyzeInWorker(samples, ANALYSIS_SAMPLE_RATE);
+  return {
+    bpm: tempo ? String(Math.round(tempo.bpm)) : undefined,
+    bpmConfidence: tempo?.confidence,
+    key: key?.key,
+    keyConfidence: key?.confidence,
+  };
+};
+
+// Measures the whole track, every channel, at full resolution
+export const measureAudioLoudness = async (file: Blob): Promise<LoudnessMeasurement> => {
+  const buffer = await decodeAudioFile(file, LOUDNESS_SAMPLE_RATE);
+  // Transferred as they are rather than copied, which would hold the decoded
+  // track in memory twice; the buffer isn't used again after this
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  if (typeof Worker === 'undefined') {
+    return measureLoudness(channels, LOUDNESS_SAMPLE_RATE);
+  }
+  return runInWorker(id => ({ id, kind: 'loudness', channels, sampleRate: LOUDNESS_SAMPLE_RATE }), channels.map(channel => channel.buffer));
+};
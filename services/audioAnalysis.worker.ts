@@ -0,0 +1,27 @@
+// Runs the DSP analysis off the main thread so large uploads don't freeze the UI.
+import { analyzeSamples } from './dsp';
+import type { SampleAnalysis } from './dsp';
+import { measureLoudness } from './loudness';
+import type { LoudnessMeasurement } from './loudness';
+
+export type AnalysisRequest =
+  | { id: number; kind: 'analysis'; samples: Float32Array; sampleRate: number }
+  | { id: number; kind: 'loudness'; channels: Float32Array[]; sampleRate: number };
+
+export type AnalysisResponse =
+  | { id: number; result: SampleAnalysis | LoudnessMeasurement }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+  let response: AnalysisResponse;
+  try {
+    const result = request.kind === 'loudness'
+      ? measureLoudness(request.channels, request.sampleRate)
+      : analyzeSamples(request.samples, request.sampleRate);
+    response = { id: request.id, result };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
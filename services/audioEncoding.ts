@@ -0,0 +1,209 @@
+// Encodes rendered AudioBuffers into files the browser can play back: Opus in
+// an Ogg container via WebCodecs where the browser has an Opus encoder, and
+// 16-bit PCM WAV everywhere else.
+
+const OPUS_SAMPLE_RATE = 48000; // Opus always runs at 48 kHz internally
+const DEFAULT_PRE_SKIP = 312; // libopus' usual encoder delay, in 48 kHz samples
+const ENCODE_CHUNK_SECONDS = 1;
+const MAX_PAGE_SEGMENTS = 255;
+
+export const isOpusEncodingSupported = async (channels = 2): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels });
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+// --- WAV --------------------------------------------------------------------
+
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = buffer.numberOfChannels;
+  const dataLength = buffer.length * channels * 2;
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (offset: number, text: string) => [...text].forEach((char, i) => bytes[offset + i] = char.charCodeAt(0));
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (const data of channelData) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([bytes], { type: 'audio/wav' });
+};
+
+// --- Ogg Opus (RFC 7845) ----------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let bit = 0; bit < 8; bit++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+};
+
+const FLAG_FIRST_PAGE = 0x02;
+const FLAG_LAST_PAGE = 0x04;
+
+const oggPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, flags: number): Uint8Array => {
+  const lacing: number[] = [];
+  packets.forEach(packet => {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  });
+  const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  page[5] = flags;
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  packets.forEach(packet => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const opusHead = (channels: number, inputSampleRate: number, preSkip: number) => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set([...'OpusHead'].map(char => char.charCodeAt(0)));
+  head[8] = 1; // Version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  return head;
+};
+
+const opusTags = () => {
+  const vendor = new TextEncoder().encode('producer-playlist-hub');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set([...'OpusTags'].map(char => char.charCodeAt(0)));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  return tags;
+};
+
+// Runs the buffer through a WebCodecs Opus encoder, returning its packets and
+// how many 48 kHz samples each one covers
+const encodeOpusPackets = async (buffer: AudioBuffer, bitrate: number) => {
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let header: Uint8Array | undefined;
+  let failure: unknown;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE) / 1e6) });
+      const description = metadata?.decoderConfig?.description;
+      if (description && !header) {
+        header = description instanceof ArrayBuffer
+          ? new Uint8Array(description)
+          : new Uint8Array(description.buffer, description.byteOffset, description.byteLength);
+      }
+    },
+    error: error => failure = error,
+  });
+  encoder.configure({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: buffer.numberOfChannels, bitrate });
+
+  const chunkLength = ENCODE_CHUNK_SECONDS * OPUS_SAMPLE_RATE;
+  for (let start = 0; start < buffer.length; start += chunkLength) {
+    const frames = Math.min(chunkLength, buffer.length - start);
+    const planar = new Float32Array(frames * buffer.numberOfChannels);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      planar.set(buffer.getChannelData(c).subarray(start, start + frames), c * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: buffer.numberOfChannels,
+      timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return { packets, header };
+};
+
+// `buffer` must be rendered at 48 kHz. The encoder's own OpusHead is used when
+// it provides one, since only it knows its exact delay.
+export const encodeOggOpus = async (buffer: AudioBuffer, bitrate: number): Promise<Blob> => {
+  if (buffer.sampleRate !== OPUS_SAMPLE_RATE) throw new Error(`Opus input must be ${OPUS_SAMPLE_RATE} Hz.`);
+  const { packets, header } = await encodeOpusPackets(buffer, bitrate);
+  const isOpusHead = header && header.length >= 19 && new TextDecoder().decode(header.subarray(0, 8)) === 'OpusHead';
+  const head = isOpusHead ? header : opusHead(buffer.numberOfChannels, buffer.sampleRate, DEFAULT_PRE_SKIP);
+  const preSkip = new DataView(head.buffer, head.byteOffset).getUint16(10, true);
+
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  let sequence = 0;
+  const pages = [
+    oggPage([head], 0, serial, sequence++, FLAG_FIRST_PAGE),
+    oggPage([opusTags()], 0, serial, sequence++, 0),
+  ];
+
+  // The last page's granule position marks the true end, trimming encoder padding
+  const endGranule = preSkip + buffer.length;
+  let granule = preSkip;
+  let pagePackets: Uint8Array[] = [];
+  let segments = 0;
+  packets.forEach(({ data, samples }, index) => {
+    const packetSegments = Math.floor(data.length / 255) + 1;
+    if (segments + packetSegments > MAX_PAGE_SEGMENTS) {
+      pages.push(oggPage(pagePackets, Math.min(granule, endGranule), serial, sequence++, 0));
+      pagePackets = [];
+      segments = 0;
+    }
+    pagePackets.push(data);
+    segments += packetSegments;
+    granule += samples;
+    if (index === packets.length - 1) {
+      pages.push(oggPage(pagePackets, Math.min(granule, endGranule), serial, sequence++, FLAG_LAST_PAGE));
+    }
+  });
+  return new Blob(pages, { type: 'audio/ogg' });
+};
@@ -0,0 +1,85 @@
+import type { Song } from '../types';
+
+// Persists uploaded audio files in IndexedDB, keyed by Song.id, so the
+// library can be rehydrated with playable object URLs after a reload.
+
+const DB_NAME = 'producer-playlist-hub';
+const DB_VERSION = 1;
+const STORE_NAME = 'audio';
+
+export interface StorageUsage {
+  usage: number; // bytes used by this origin (or by stored audio if estimate is unavailable)
+  quota?: number; // bytes available to this origin, if known
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const saveAudio = (songId: string, file: Blob): Promise<void> =>
+  runRequest<IDBValidKey>('readwrite', store => store.put(file, songId)).then(() => undefined);
+
+export const getAudio = (songId: string): Promise<Blob | undefined> =>
+  runRequest<Blob | undefined>('readonly', store => store.get(songId));
+
+export const deleteAudio = (songId: string): Promise<void> =>
+  runRequest<undefined>('readwrite', store => store.delete(songId));
+
+export const getStoredAudioIds = (): Promise<string[]> =>
+  runRequest<IDBValidKey[]>('readonly', store => store.getAllKeys()).then(keys => keys.map(String));
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  if (navigator.storage?.estimate) {
+    const { usage = 0, quota } = await navigator.storage.estimate();
+    return { usage, quota };
+  }
+  const blobs = await runRequest<Blob[]>('readonly', store => store.getAll());
+  return { usage: blobs.reduce((total, blob) => total + blob.size, 0) };
+};
+
+// Re-attaches stored audio to songs that were loaded without a playable url
+// (e.g. from localStorage or a saved playlist). Songs with no stored blob are
+// returned unchanged.
+export const attachStoredAudio = async (songs: Song[]): Promise<Song[]> => {
+  return Promise.all(songs.map(async song => {
+    if (song.url) return song;
+    try {
+      const blob = await getAudio(song.id);
+      if (!blob) return song;
+      const file = blob instanceof File ? blob : new File([blob], song.name, { type: blob.type });
+      return { ...song, file, url: URL.createObjectURL(file) };
+    } catch (error) {
+      console.error(`Failed to load stored audio for song: ${song.name}`, error);
+      return song;
+    }
+  }));
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { estimateEnergy, reorderByIds, scoreSequence, sequencePlaylist } from './autoSequence';
+import type { Song } from '../types';
+
+const song = (id: string, fields: Partial<Song> = {}): Song => ({ id, name: id, duration: 120, ...fields });
+const transition = (from: Partial<Song>, to: Partial<Song>) => scoreSequence([song('from', from), song('to', to)], 'smooth').transitions[0];
+
+describe('key scoring on the Camelot wheel', () => {
+  it.each([
+    ['A minor', 'A minor', 1], // 8A, the same key
+    ['A minor', 'C major', 0.85], // 8A -> 8B, relative major
+    ['A minor', 'E minor', 0.85], // 8A -> 9A, one step around
+    ['A minor', 'G major', 0.55], // 8A -> 9B, a step and a mode change
+    ['A minor', 'B minor', 0.3], // 8A -> 10A
+    ['A minor', 'D# minor', 0], // 8A -> 2A, across the wheel
+  ])('%s into %s scores %s', (from, to, expected) => {
+    expect(transition({ key: from }, { key: to }).key).toBeCloseTo(expected);
+  });
+
+  it('treats unknown keys as neutral', () => {
+    expect(transition({ key: 'A minor' }, { key: 'N/A' }).key).toBe(0.5);
+  });
+});
+
+describe('tempo scoring', () => {
+  it('matches equal, half and double time', () => {
+    expect(transition({ bpm: '140' }, { bpm: '140' }).bpm).toBe(1);
+    expect(transition({ bpm: '140' }, { bpm: '70' }).bpm).toBe(1);
+    expect(transition({ bpm: '70' }, { bpm: '140' }).bpm).toBe(1);
+  });
+
+  it('falls off with the difference, reaching zero at 15%', () => {
+    expect(transition({ bpm: '140' }, { bpm: '147' }).bpm).toBeCloseTo(2 / 3);
+    expect(transition({ bpm: '140' }, { bpm: '100' }).bpm).toBe(0);
+  });
+});
+
+describe('sequencePlaylist', () => {
+  it('orders by rising energy when building energy', () => {
+    // Same key and no tempo, so only the mood words set the energy
+    const moods = ['upbeat', 'chill', 'upbeat intense chill', 'chill upbeat', 'chill calm upbeat'];
+    const songs = moods.map((mood, i) => song(`s${i}`, { mood, key: 'A minor' }));
+
+    const energies = sequencePlaylist(songs, 'buildEnergy').songs.map(estimateEnergy);
+    expect(energies).toEqual([...energies].sort((a, b) => a - b));
+    expect(energies[0]).toBe(0);
+    expect(energies[energies.length - 1]).toBe(1);
+  });
+
+  it('keeps every song exactly once', () => {
+    const songs = ['C major', 'F# major', 'A minor', 'G major', 'E minor', 'D major'].map((key, i) => song(`s${i}`, { key, bpm: String(90 + i * 7) }));
+
+    const { songs: ordered, transitions } = sequencePlaylist(songs, 'smooth');
+    expect(ordered.map(s => s.id).sort()).toEqual(songs.map(s => s.id));
+    expect(transitions).toHaveLength(songs.length - 1);
+  });
+});
+
+describe('reorderByIds', () => {
+  it('puts listed songs first in that order and keeps the rest at the end', () => {
+    const songs = ['a', 'b', 'c', 'd', 'e'].map(id => song(id));
+
+    expect(reorderByIds(songs, ['d', 'b']).map(s => s.id)).toEqual(['d', 'b', 'a', 'c', 'e']);
+  });
+});
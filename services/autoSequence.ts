@@ -0,0 +1,164 @@
+import type { Song } from '../types';
+import { areCompatibleKeys, camelotPosition, parseKey, sameKey } from '../utils/musicKey';
+
+// Orders a playlist so each track flows into the next: keys that mix on the
+// Camelot wheel, nearby tempos, and energy that moves the way the goal asks.
+
+export type SequenceGoal = 'smooth' | 'buildEnergy' | 'keepTempo';
+
+export interface TransitionScore {
+  key: number; // Each 0..1
+  bpm: number;
+  energy: number;
+  total: number;
+}
+
+export interface SequenceProposal {
+  songs: Song[];
+  transitions: TransitionScore[]; // transitions[i] joins songs[i] and songs[i + 1]
+  score: number; // Average transition total, 0..1
+}
+
+const WEIGHTS: Record<SequenceGoal, { key: number; bpm: number; energy: number }> = {
+  smooth: { key: 0.45, bpm: 0.35, energy: 0.2 },
+  buildEnergy: { key: 0.3, bpm: 0.25, energy: 0.45 },
+  keepTempo: { key: 0.25, bpm: 0.6, energy: 0.15 },
+};
+
+// Unknown keys or tempos neither help nor hurt a transition
+const UNKNOWN = 0.5;
+
+const HIGH_ENERGY_WORDS = ['energetic', 'aggressive', 'hype', 'upbeat', 'intense', 'euphoric', 'angry', 'bouncy', 'party', 'uplifting', 'powerful', 'driving', 'epic', 'triumphant'];
+const LOW_ENERGY_WORDS = ['chill', 'calm', 'mellow', 'sad', 'relaxed', 'ambient', 'melancholic', 'melancholy', 'dreamy', 'somber', 'peaceful', 'soft', 'laid-back', 'lofi', 'lo-fi'];
+
+const bpmOf = (song: Song) => {
+  const bpm = parseFloat(song.bpm || '');
+  return Number.isFinite(bpm) && bpm > 0 ? bpm : undefined;
+};
+
+// A rough 0..1 energy from tempo, mood words and how dense the waveform is
+export const estimateEnergy = (song: Song): number => {
+  const parts: number[] = [];
+  const bpm = bpmOf(song);
+  if (bpm) parts.push(Math.min(1, Math.max(0, (bpm - 60) / 120)));
+
+  const mood = `${song.mood || ''} ${(song.genreTags || []).join(' ')}`.toLowerCase();
+  const high = HIGH_ENERGY_WORDS.filter(word => mood.includes(word)).length;
+  const low = LOW_ENERGY_WORDS.filter(word => mood.includes(word)).length;
+  if (high || low) parts.push(high / (high + low));
+
+  // Peaks are normalized per track, so a high average means a loud, compressed track
+  if (song.peaks?.length) parts.push(song.peaks.reduce((sum, peak) => sum + peak, 0) / song.peaks.length);
+
+  return parts.length ? parts.reduce((sum, part) => sum + part, 0) / parts.length : UNKNOWN;
+};
+
+const keyScore = (from: Song, to: Song) => {
+  const a = parseKey(from.key);
+  const b = parseKey(to.key);
+  if (!a || !b) return UNKNOWN;
+  if (sameKey(a, b)) return 1;
+  if (areCompatibleKeys(a, b)) return 0.85;
+  const steps = Math.abs(camelotPosition(a) - camelotPosition(b));
+  const distance = Math.min(steps, 12 - steps);
+  // One step and a mode change, e.g. 8A to 9B, still works as a lift
+  if (distance === 1) return 0.55;
+  return distance === 2 ? 0.3 : 0;
+};
+
+// Half and double time count as a match, since DJs mix across them
+const bpmScore = (from: Song, to: Song) => {
+  const a = bpmOf(from);
+  const b = bpmOf(to);
+  if (!a || !b) return UNKNOWN;
+  const difference = Math.min(Math.abs(a - b), Math.abs(a - b * 2), Math.abs(a * 2 - b));
+  return Math.max(0, 1 - difference / Math.min(a, b) / 0.15);
+};
+
+const energyScore = (from: number, to: number, goal: SequenceGoal) => {
+  const change = to - from;
+  if (goal === 'buildEnergy') return change >= 0 ? 1 - change / 2 : Math.max(0, 1 + change * 4);
+  return Math.max(0, 1 - Math.abs(change) * 2);
+};
+
+const scoreTransition = (from: Song, to: Song, energies: Map<string, number>, goal: SequenceGoal): TransitionScore => {
+  const weights = WEIGHTS[goal];
+  const key = keyScore(from, to);
+  const bpm = bpmScore(from, to);
+  const energy = energyScore(energies.get(from.id) ?? UNKNOWN, energies.get(to.id) ?? UNKNOWN, goal);
+  return { key, bpm, energy, total: key * weights.key + bpm * weights.bpm + energy * weights.energy };
+};
+
+const describe = (songs: Song[], energies: Map<string, number>, goal: SequenceGoal): SequenceProposal => {
+  const transitions = songs.slice(1).map((song, index) => scoreTransition(songs[index], song, energies, goal));
+  const score = transitions.length ? transitions.reduce((sum, t) => sum + t.total, 0) / transitions.length : 1;
+  return { songs, transitions, score };
+};
+
+const energiesOf = (songs: Song[]) => new Map(songs.map(song => [song.id, estimateEnergy(song)]));
+
+// Scores the order as it stands, for comparison with a proposal
+export const scoreSequence = (songs: Song[], goal: SequenceGoal): SequenceProposal =>
+  describe(songs, energiesOf(songs), goal);
+
+// Greedy chains from every starting track, then 2-opt passes on the best one.
+// Playlists are short enough for this to be instant and close to optimal.
+export const sequencePlaylist = (songs: Song[], goal: SequenceGoal): SequenceProposal => {
+  const energies = energiesOf(songs);
+  if (songs.length < 3) {
+    const ordered = goal === 'buildEnergy'
+      ? [...songs].sort((a, b) => (energies.get(a.id) ?? 0) - (energies.get(b.id) ?? 0))
+      : songs;
+    return describe(ordered, energies, goal);
+  }
+
+  const n = songs.length;
+  const scores = songs.map(from => songs.map(to => from === to ? 0 : scoreTransition(from, to, energies, goal).total));
+  const totalOf = (order: number[]) => order.slice(1).reduce((sum, to, index) => sum + scores[order[index]][to], 0);
+
+  let best: number[] = [];
+  let bestTotal = -Infinity;
+  for (let start = 0; start < n; start++) {
+    const order = [start];
+    const used = new Set(order);
+    while (order.length < n) {
+      const last = order[order.length - 1];
+      let next = -1;
+      for (let candidate = 0; candidate < n; candidate++) {
+        if (!used.has(candidate) && (next === -1 || scores[last][candidate] > scores[last][next])) next = candidate;
+      }
+      order.push(next);
+      used.add(next);
+    }
+    const total = totalOf(order);
+    if (total > bestTotal) {
+      best = order;
+      bestTotal = total;
+    }
+  }
+
+  // Reversing a stretch flips the direction of its transitions, which matters
+  // when building energy, so each candidate is scored in full
+  for (let pass = 0, improved = true; improved && pass < 20; pass++) {
+    improved = false;
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const total = totalOf(candidate);
+        if (total > bestTotal + 1e-9) {
+          best = candidate;
+          bestTotal = total;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return describe(best.map(index => songs[index]), energies, goal);
+};
+
+// Puts songs in the order of `ids`; songs not listed keep their relative order at the end
+export const reorderByIds = (songs: Song[], ids: string[]): Song[] => {
+  const position = new Map(ids.map((id, index) => [id, index]));
+  return [...songs].sort((a, b) => (position.get(a.id) ?? ids.length) - (position.get(b.id) ?? ids.length));
+};
@@ -0,0 +1,256 @@
+// Pure signal-processing routines for in-browser track analysis. Nothing here
+// touches the DOM or Web Audio, so it runs unchanged inside a Web Worker.
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number; // 0..1
+}
+
+export interface KeyEstimate {
+  key: string; // e.g. "A minor"
+  confidence: number; // 0..1
+}
+
+export interface SampleAnalysis {
+  tempo: TempoEstimate | null;
+  key: KeyEstimate | null;
+}
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler key profiles, starting at the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const TEMPO_FRAME_SIZE = 1024;
+const TEMPO_HOP_SIZE = 512;
+const CHROMA_FRAME_SIZE = 8192;
+const CHROMA_HOP_SIZE = 4096;
+const CHROMA_MIN_FREQ = 55;
+const CHROMA_MAX_FREQ = 2000;
+
+// In-place iterative radix-2 FFT. `re` and `im` must have a power-of-two length.
+export const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+const hannWindow = (size: number): Float64Array => {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (size - 1));
+  }
+  return window;
+};
+
+// Calls `onFrame` with the magnitude spectrum (bins 0..size/2) of each windowed frame
+const forEachSpectrum = (
+  samples: Float32Array,
+  frameSize: number,
+  hopSize: number,
+  onFrame: (magnitudes: Float64Array) => void
+) => {
+  const window = hannWindow(frameSize);
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const magnitudes = new Float64Array(frameSize / 2 + 1);
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < magnitudes.length; k++) {
+      magnitudes[k] = Math.hypot(re[k], im[k]);
+    }
+    onFrame(magnitudes);
+  }
+};
+
+// Spectral-flux onset strength envelope, one value per hop
+export const onsetEnvelope = (samples: Float32Array): Float64Array => {
+  const flux: number[] = [];
+  let previous: Float64Array | null = null;
+  forEachSpectrum(samples, TEMPO_FRAME_SIZE, TEMPO_HOP_SIZE, magnitudes => {
+    const logMagnitudes = magnitudes.map(m => Math.log1p(100 * m));
+    let sum = 0;
+    if (previous) {
+      for (let k = 0; k < logMagnitudes.length; k++) {
+        const diff = logMagnitudes[k] - previous[k];
+        if (diff > 0) sum += diff;
+      }
+    }
+    flux.push(sum);
+    previous = logMagnitudes;
+  });
+
+  // Remove the slowly varying loudness trend so only onsets remain
+  const envelope = new Float64Array(flux.length);
+  const radius = 8;
+  for (let i = 0; i < flux.length; i++) {
+    let localSum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(flux.length - 1, i + radius); j++) {
+      localSum += flux[j];
+      count++;
+    }
+    envelope[i] = Math.max(0, flux[i] - localSum / count);
+  }
+
+  // Widen each onset slightly so beat periods that fall between frames still line up
+  const smoothed = new Float64Array(envelope.length);
+  for (let i = 0; i < envelope.length; i++) {
+    smoothed[i] = 0.5 * envelope[i]
+      + 0.25 * (envelope[i - 1] ?? envelope[i])
+      + 0.25 * (envelope[i + 1] ?? envelope[i]);
+  }
+  return smoothed;
+};
+
+export const estimateTempo = (samples: Float32Array, sampleRate: number): TempoEstimate | null => {
+  const envelope = onsetEnvelope(samples);
+  const framesPerSecond = sampleRate / TEMPO_HOP_SIZE;
+  const minLag = Math.floor(60 * framesPerSecond / MAX_BPM);
+  const maxLag = Math.ceil(60 * framesPerSecond / MIN_BPM);
+  if (envelope.length < maxLag * 4) return null;
+
+  const autocorrelation = (lag: number) => {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += envelope[i] * envelope[i - lag];
+    }
+    return sum / (envelope.length - lag);
+  };
+
+  const acf = new Float64Array(maxLag + 2);
+  for (let lag = 0; lag < acf.length; lag++) {
+    acf[lag] = autocorrelation(lag);
+  }
+  if (acf[0] <= 0) return null;
+
+  // Prefer tempos near 120 BPM to resolve half/double-time ambiguity
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  let rangeSum = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 * framesPerSecond / lag;
+    const weight = Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+    const score = acf[lag] * weight;
+    rangeSum += acf[lag];
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation around the peak for sub-frame precision
+  const left = acf[bestLag - 1];
+  const center = acf[bestLag];
+  const right = acf[bestLag + 1];
+  const denominator = left - 2 * center + right;
+  const offset = denominator !== 0 ? 0.5 * (left - right) / denominator : 0;
+  const refinedLag = bestLag + Math.max(-0.5, Math.min(0.5, offset));
+
+  const rangeMean = rangeSum / (maxLag - minLag + 1);
+  const confidence = (center - rangeMean) / (acf[0] - rangeMean);
+
+  return {
+    bpm: 60 * framesPerSecond / refinedLag,
+    confidence: Math.max(0, Math.min(1, confidence)),
+  };
+};
+
+// Average pitch-class energy across the track, C = index 0
+export const chromagram = (samples: Float32Array, sampleRate: number): Float64Array => {
+  const chroma = new Float64Array(12);
+  const binPitchClass = new Int8Array(CHROMA_FRAME_SIZE / 2 + 1).fill(-1);
+  for (let k = 1; k < binPitchClass.length; k++) {
+    const frequency = k * sampleRate / CHROMA_FRAME_SIZE;
+    if (frequency < CHROMA_MIN_FREQ || frequency > CHROMA_MAX_FREQ) continue;
+    const midi = Math.round(69 + 12 * Math.log2(frequency / 440));
+    binPitchClass[k] = ((midi % 12) + 12) % 12;
+  }
+
+  forEachSpectrum(samples, CHROMA_FRAME_SIZE, CHROMA_HOP_SIZE, magnitudes => {
+    for (let k = 0; k < magnitudes.length; k++) {
+      const pitchClass = binPitchClass[k];
+      if (pitchClass >= 0) chroma[pitchClass] += magnitudes[k] * magnitudes[k];
+    }
+  });
+  return chroma;
+};
+
+const correlation = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i] / n;
+    meanB += b[i] / n;
+  }
+  let numerator = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    numerator += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA && varianceB ? numerator / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+export const estimateKey = (samples: Float32Array, sampleRate: number): KeyEstimate | null => {
+  const chroma = chromagram(samples, sampleRate);
+  if (chroma.every(value => value === 0)) return null;
+
+  const scores: { key: string; score: number }[] = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    // Rotate the chroma so the candidate tonic lines up with profile index 0
+    const rotated = Array.from({ length: 12 }, (_, i) => chroma[(tonic + i) % 12]);
+    scores.push({ key: `${NOTE_NAMES[tonic]} major`, score: correlation(rotated, MAJOR_PROFILE) });
+    scores.push({ key: `${NOTE_NAMES[tonic]} minor`, score: correlation(rotated, MINOR_PROFILE) });
+  }
+  scores.sort((a, b) => b.score - a.score);
+
+  return {
+    key: scores[0].key,
+    confidence: Math.max(0, Math.min(1, scores[0].score)),
+  };
+};
+
+export const analyzeSamples = (samples: Float32Array, sampleRate: number): SampleAnalysis => ({
+  tempo: estimateTempo(samples, sampleRate),
+  key: estimateKey(samples, sampleRate),
+});
@@ -0,0 +1,46 @@
+// Helpers for moving binary data in and out of URL-safe text.
+
+// Processed in chunks so large payloads don't overflow the call stack
+const CHUNK_SIZE = 0x8000;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Unicode-safe base64 for JSON strings (matches the original share link encoding)
+export const textToBase64 = (text: string): string => bytesToBase64(new TextEncoder().encode(text));
+
+export const base64ToText = (base64: string): string => new TextDecoder().decode(base64ToBytes(base64));
+
+// URL-safe base64 without padding, used for share links in the binary format
+export const bytesToBase64Url = (bytes: Uint8Array): string =>
+  bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const base64UrlToBytes = (base64Url: string): Uint8Array => {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64 + '='.repeat((4 - base64.length % 4) % 4));
+};
+
+const transformBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const compressBytes = (bytes: Uint8Array): Promise<Uint8Array> =>
+  transformBytes(bytes, new CompressionStream('gzip'));
+
+export const decompressBytes = (bytes: Uint8Array): Promise<Uint8Array> =>
+  transformBytes(bytes, new DecompressionStream('gzip'));
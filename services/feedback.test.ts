@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { countUnreadComments, createFeedback, decodeFeedbackHash, encodeFeedbackHash, mergeFeedback } from './feedback';
+import type { Playlist } from '../types';
+
+// The producer's playlist, with a note of their own at 0:50
+const original: Playlist = {
+  id: 'p',
+  name: 'Tape',
+  songs: [
+    { id: 'a', name: 'Night drive', duration: 180, comments: [{ id: 'c0', text: 'Mix the hook louder', timestamp: 50 }] },
+    { id: 'b', name: 'Sunrise', duration: 200 },
+  ],
+};
+
+// What the client heard: 30-second clips from 0:40, so clip time 0 is 0:40 in
+// the track. The producer's note came along, shifted onto the clip.
+const preview: Playlist = {
+  ...original,
+  songs: [
+    {
+      ...original.songs[0],
+      previewOffset: 40,
+      comments: [
+        { id: 'c0', text: 'Mix the hook louder', timestamp: 10 },
+        { id: 'c1', text: 'Love this part', timestamp: 5, endTimestamp: 8, unread: true },
+        { text: 'Legacy note without an id', timestamp: 12 },
+      ],
+    },
+    { ...original.songs[1], previewOffset: 40, comments: [{ id: 'c2', text: 'Too long an intro' }] },
+  ],
+};
+
+describe('feedback round trip', () => {
+  const feedback = createFeedback(preview, 'Client');
+
+  it('puts clip times back on the full track and credits the reviewer', () => {
+    expect(feedback.songs[0].comments).toEqual([
+      { id: 'c0', text: 'Mix the hook louder', timestamp: 50, author: 'Client' },
+      { id: 'c1', text: 'Love this part', timestamp: 45, endTimestamp: 48, author: 'Client' },
+      { text: 'Legacy note without an id', timestamp: 52, author: 'Client' },
+    ]);
+    expect(feedback.songs[1].comments).toEqual([{ id: 'c2', text: 'Too long an intro', author: 'Client' }]);
+  });
+
+  it('merges only new comments into the original, marked unread', () => {
+    const { playlist, added } = mergeFeedback(original, feedback);
+
+    expect(added).toBe(3);
+    expect(playlist.songs[0].comments?.map(c => [c.text, c.timestamp, c.unread])).toEqual([
+      ['Mix the hook louder', 50, undefined],
+      ['Love this part', 45, true],
+      ['Legacy note without an id', 52, true],
+    ]);
+    expect(countUnreadComments(playlist)).toBe(3);
+  });
+
+  it('adds nothing when the same feedback is merged again', () => {
+    const once = mergeFeedback(original, feedback).playlist;
+    const twice = mergeFeedback(once, feedback);
+
+    expect(twice.added).toBe(0);
+    expect(twice.playlist).toBe(once);
+  });
+
+  it('survives a return link', async () => {
+    const decoded = await decodeFeedbackHash(await encodeFeedbackHash(feedback));
+
+    expect(decoded).toEqual(feedback);
+  });
+});
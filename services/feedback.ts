@@ -0,0 +1,125 @@
+import type { Comment, Playlist } from '../types';
+import { base64UrlToBytes, bytesToBase64Url, compressBytes, decompressBytes } from './encoding';
+import { SchemaError, validateComment } from './schema';
+
+// Structured client feedback that can travel back to the producer, either as a
+// downloaded file or as a compact return link, and be merged into the
+// matching saved playlist.
+
+export const FEEDBACK_FORMAT_VERSION = 1;
+export const FEEDBACK_HASH_PREFIX = 'feedback.';
+export const FEEDBACK_FILE_EXTENSION = '.feedback.json';
+
+export interface SongFeedback {
+  songId: string;
+  songName: string;
+  comments: Comment[];
+}
+
+export interface PlaylistFeedback {
+  type: 'playlist-feedback';
+  version: number;
+  playlistId: string;
+  playlistName: string;
+  reviewer?: string;
+  exportedAt: number;
+  songs: SongFeedback[];
+}
+
+export interface FeedbackMergeResult {
+  playlist: Playlist;
+  added: number;
+}
+
+// Clients comment on preview clips; the producer needs times in the full track
+const onOriginalTimeline = ({ timestamp, endTimestamp }: Comment, offset = 0): Partial<Comment> => ({
+  ...(timestamp !== undefined && { timestamp: timestamp + offset }),
+  ...(endTimestamp !== undefined && { endTimestamp: endTimestamp + offset }),
+});
+
+export const createFeedback = (playlist: Playlist, reviewer?: string): PlaylistFeedback => ({
+  type: 'playlist-feedback',
+  version: FEEDBACK_FORMAT_VERSION,
+  playlistId: playlist.id,
+  playlistName: playlist.name,
+  reviewer: reviewer || undefined,
+  exportedAt: Date.now(),
+  songs: playlist.songs
+    .filter(song => song.comments && song.comments.length > 0)
+    .map(song => ({
+      songId: song.id,
+      songName: song.name,
+      comments: song.comments!.map(({ unread, ...comment }) => ({
+        ...comment,
+        ...onOriginalTimeline(comment, song.previewOffset),
+        author: comment.author || reviewer || undefined,
+      })),
+    })),
+});
+
+export const isPlaylistFeedback = (value: unknown): value is PlaylistFeedback => {
+  if (!value || typeof value !== 'object') return false;
+  const feedback = value as Partial<PlaylistFeedback>;
+  return feedback.type === 'playlist-feedback'
+    && typeof feedback.playlistId === 'string'
+    && Array.isArray(feedback.songs)
+    && feedback.songs.every(song => typeof song?.songId === 'string' && Array.isArray(song.comments));
+};
+
+export const parseFeedbackFile = (text: string): PlaylistFeedback => {
+  const parsed: unknown = JSON.parse(text);
+  if (!isPlaylistFeedback(parsed)) {
+    throw new Error('This file does not contain playlist feedback.');
+  }
+  if (parsed.version > FEEDBACK_FORMAT_VERSION) {
+    throw new Error(`Unsupported feedback version: ${parsed.version}`);
+  }
+  const errors = parsed.songs.flatMap((song, i) =>
+    song.comments.flatMap((comment, j) => validateComment(comment, `songs[${i}].comments[${j}]`)));
+  if (errors.length > 0) {
+    throw new SchemaError(errors);
+  }
+  return parsed;
+};
+
+export const encodeFeedbackHash = async (feedback: PlaylistFeedback): Promise<string> => {
+  const compressed = await compressBytes(new TextEncoder().encode(JSON.stringify(feedback)));
+  return `${FEEDBACK_HASH_PREFIX}${bytesToBase64Url(compressed)}`;
+};
+
+export const decodeFeedbackHash = async (hash: string): Promise<PlaylistFeedback> => {
+  const compressed = base64UrlToBytes(hash.substring(FEEDBACK_HASH_PREFIX.length));
+  return parseFeedbackFile(new TextDecoder().decode(await decompressBytes(compressed)));
+};
+
+// Comments created before ids existed are identified by their content instead
+const commentKey = (comment: Comment) =>
+  comment.id ?? `${comment.text}|${comment.timestamp ?? ''}|${comment.endTimestamp ?? ''}`;
+
+// Adds comments the playlist doesn't have yet, marking them unread. Merging the
+// same feedback twice, or feedback that echoes earlier comments, adds nothing.
+export const mergeFeedback = (playlist: Playlist, feedback: PlaylistFeedback): FeedbackMergeResult => {
+  let added = 0;
+  const songs = playlist.songs.map(song => {
+    const songFeedback = feedback.songs.find(f => f.songId === song.id);
+    if (!songFeedback) return song;
+
+    const existingKeys = new Set((song.comments || []).map(commentKey));
+    const newComments = songFeedback.comments
+      .filter(comment => {
+        const key = commentKey(comment);
+        if (existingKeys.has(key)) return false;
+        existingKeys.add(key);
+        return true;
+      })
+      .map(comment => ({ ...comment, unread: true }));
+    if (newComments.length === 0) return song;
+
+    added += newComments.length;
+    return { ...song, comments: [...(song.comments || []), ...newComments] };
+  });
+  return { playlist: added > 0 ? { ...playlist, songs } : playlist, added };
+};
+
+export const countUnreadComments = (playlist: Playlist) =>
+  playlist.songs.reduce((total, song) => total + (song.comments?.filter(c => c.unread).length || 0), 0);
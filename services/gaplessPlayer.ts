@@ -0,0 +1,452 @@
+// Web Audio playback with gapless transitions and optional crossfades. Tracks
+// are decoded up front so the next one can be scheduled sample-accurately
+// against the end of the current one, which an <audio> element can't do.
+//
+// The surface deliberately mirrors HTMLMediaElement (play/pause/currentTime/
+// duration/paused and the play, pause, timeupdate, loadedmetadata, ended and
+// error events) so it can stand in for one. On top of that, `setNext` queues
+// the following track and an `advance` event (a CustomEvent whose detail is the
+// new track's id) fires when playback moves onto it without a gap.
+//
+// For auditioning, playback can be sped up or slowed down at the same pitch
+// (the track is time-stretched in a worker and played from the stretched
+// copy), transposed (by playing that copy faster or slower), and looped
+// between two points of the current track.
+
+import { stretchAudioBuffer } from './timeStretch';
+
+export interface PlayerTrack {
+  id: string;
+  url: string;
+  gain?: number; // Linear level to play the track at, e.g. for loudness matching; defaults to 1
+}
+
+export interface LoopRegion {
+  start: number; // seconds into the track
+  end: number;
+}
+
+interface Voice {
+  track: PlayerTrack;
+  buffer: AudioBuffer; // The decoded track
+  playback: AudioBuffer; // What the source plays: the track, or a time-stretched copy
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  rate: number; // Seconds of the track played per second of context time
+  startedAt: number; // Context time at which offset 0 of the track would have played
+}
+
+const TIME_UPDATE_INTERVAL = 250; // ms, about what media elements use
+
+const levelOf = (track: PlayerTrack) => track.gain ?? 1;
+
+export class GaplessPlayer extends EventTarget {
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null; // Every voice feeds this
+  private element: HTMLAudioElement | null = null;
+  private buffers = new Map<string, Promise<AudioBuffer>>(); // keyed by url
+  private stretched = new Map<string, Promise<AudioBuffer>>(); // keyed by url and tempo, see stretchKey
+  private track: PlayerTrack | null = null;
+  private buffer: AudioBuffer | null = null;
+  private voice: Voice | null = null; // null while paused
+  private offset = 0; // Position to resume from while paused
+  private nextTrack: PlayerTrack | null = null;
+  private nextVoice: Voice | null = null;
+  private fadingVoice: Voice | null = null; // The previous track, during a crossfade
+  private crossfade = 0;
+  private rate = 1; // Speed, with the pitch kept
+  private semitones = 0;
+  private loop: LoopRegion | null = null;
+  private loadToken = 0;
+  private settingsToken = 0; // Bumped whenever speed or transposition change
+  private advanceTimer: ReturnType<typeof setTimeout> | undefined;
+  private tickTimer: ReturnType<typeof setInterval> | undefined;
+
+  get paused() {
+    return !this.voice;
+  }
+
+  get duration() {
+    return this.buffer?.duration ?? NaN;
+  }
+
+  get playbackRate() {
+    return this.rate;
+  }
+
+  get currentTime() {
+    if (!this.voice || !this.context) return this.offset;
+    const { startedAt, rate, buffer, source } = this.voice;
+    let position = (this.context.currentTime - startedAt) * rate;
+    if (this.loop && source.loop && position >= this.loop.end) {
+      position = this.loop.start + ((position - this.loop.start) % (this.loop.end - this.loop.start));
+    }
+    return Math.min(Math.max(position, 0), buffer.duration);
+  }
+
+  set currentTime(time: number) {
+    this.seek(time);
+  }
+
+  // Switches to `track` (or stops, for null). Loading the track that's already
+  // current is a no-op, which is what happens after an automatic advance, apart
+  // from picking up a change to its gain.
+  async load(track: PlayerTrack | null, autoplay: boolean) {
+    if (track && this.track?.id === track.id && this.track.url === track.url) {
+      if (levelOf(track) !== levelOf(this.track)) this.setLevel(track);
+      if (autoplay) await this.play();
+      return;
+    }
+    const token = ++this.loadToken;
+    this.stopVoices();
+    this.loop = null;
+    this.track = track;
+    this.buffer = null;
+    this.offset = 0;
+    this.pruneBuffers();
+    if (!track) return;
+
+    let buffer: AudioBuffer;
+    try {
+      buffer = await this.decode(track);
+    } catch (error) {
+      if (token === this.loadToken) {
+        console.error("Failed to decode audio:", error);
+        this.dispatchEvent(new Event('error'));
+      }
+      return;
+    }
+    if (token !== this.loadToken) return;
+    this.buffer = buffer;
+    this.dispatchEvent(new Event('loadedmetadata'));
+    if (autoplay) await this.play();
+  }
+
+  async play() {
+    if (!this.buffer || this.voice) return;
+    const context = this.ensureContext();
+    if (context.state === 'suspended') await context.resume();
+    await this.startOutput();
+    const { track, buffer } = this;
+    if (!buffer || !track || this.voice) return;
+    const playback = await this.prepareCurrent(track, buffer);
+    if (this.track !== track || this.buffer !== buffer || this.voice) return;
+
+    // Resuming from the very end (after `ended`) starts the track over
+    const offset = this.offset >= buffer.duration ? 0 : this.offset;
+    this.voice = this.startVoice(track, buffer, playback, context.currentTime, offset, 1);
+    this.startTicking();
+    this.dispatchEvent(new Event('play'));
+    this.scheduleNext();
+  }
+
+  pause() {
+    if (!this.voice) return;
+    this.offset = this.currentTime;
+    this.stopVoices();
+    this.element?.pause();
+    this.dispatchEvent(new Event('pause'));
+  }
+
+  seek(time: number) {
+    const target = Math.min(Math.max(time, 0), this.buffer?.duration ?? 0);
+    if (this.voice) {
+      this.restart(target, this.voice.playback);
+    } else {
+      this.offset = target;
+    }
+    this.dispatchEvent(new Event('timeupdate'));
+  }
+
+  // Sets the track to move onto when the current one finishes, overlapping the
+  // two by `crossfade` seconds (0 for a straight gapless join)
+  setNext(track: PlayerTrack | null, crossfade: number) {
+    const fade = Math.max(0, crossfade);
+    if (track?.id === this.nextTrack?.id && track?.url === this.nextTrack?.url && track?.gain === this.nextTrack?.gain && fade === this.crossfade) return;
+    this.cancelNext();
+    this.nextTrack = track;
+    this.crossfade = fade;
+    this.pruneBuffers();
+    if (track) {
+      // Start decoding now so it's ready well before the transition
+      this.decode(track).catch(error => console.error("Failed to pre-buffer next track:", error));
+      this.scheduleNext();
+    }
+  }
+
+  // Changes the speed (keeping the pitch) and the transposition. A change that
+  // needs the track stretched again keeps the old settings playing until the
+  // new copy is ready, which is when the returned promise resolves.
+  async setTempo(rate: number, semitones: number) {
+    if (rate === this.rate && semitones === this.semitones) return;
+    this.rate = rate;
+    this.semitones = semitones;
+    this.settingsToken++;
+    this.cancelNext();
+    this.pruneBuffers();
+    const { track, buffer } = this;
+    if (!this.voice || !track || !buffer) return;
+    const token = this.settingsToken;
+    const playback = await this.prepareCurrent(track, buffer);
+    // Superseded by another change or another track while stretching
+    if (!this.voice || this.track !== track || token !== this.settingsToken) return;
+    this.restart(this.currentTime, playback);
+  }
+
+  // Loops the current track between two points until cleared with null.
+  // Loading another track clears it too.
+  setLoop(loop: LoopRegion | null) {
+    const position = this.currentTime;
+    this.loop = loop && loop.end > loop.start ? loop : null;
+    const voice = this.voice;
+    if (!voice || !this.context) return;
+    if (this.loop) this.cancelNext(); // Nothing follows a loop
+    if (this.loop && position >= this.loop.end) {
+      this.restart(this.loop.start, voice.playback);
+      return;
+    }
+    // Re-anchor, so the position carries on from where it is under the new region
+    voice.startedAt = this.context.currentTime - position / voice.rate;
+    this.applyLoop(voice);
+    if (!this.loop) this.scheduleNext();
+  }
+
+  private ensureContext() {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.output = this.context.createGain();
+      // Lock screen controls and media keys only attach to media elements, so
+      // the mix is played through one rather than straight to the speakers
+      const stream = this.context.createMediaStreamDestination();
+      this.output.connect(stream);
+      this.element = new Audio();
+      this.element.srcObject = stream.stream;
+    }
+    return this.context;
+  }
+
+  private async startOutput() {
+    if (!this.element || !this.output || !this.context) return;
+    try {
+      await this.element.play();
+    } catch (error) {
+      console.error("Falling back to direct Web Audio output:", error);
+      this.output.disconnect();
+      this.output.connect(this.context.destination);
+      this.element = null;
+    }
+  }
+
+  private decode(track: PlayerTrack) {
+    let pending = this.buffers.get(track.url);
+    if (!pending) {
+      pending = fetch(track.url)
+        .then(response => response.arrayBuffer())
+        .then(data => this.ensureContext().decodeAudioData(data));
+      this.buffers.set(track.url, pending);
+      pending.catch(() => this.buffers.delete(track.url));
+    }
+    return pending;
+  }
+
+  // Decoded audio is large, so only the current and next tracks are kept
+  private pruneBuffers() {
+    const keep = new Set([this.track?.url, this.nextTrack?.url]);
+    [...this.buffers.keys()].forEach(url => {
+      if (!keep.has(url)) this.buffers.delete(url);
+    });
+    const keepStretched = new Set([...keep].map(url => url && this.stretchKey(url)));
+    [...this.stretched.keys()].forEach(key => {
+      if (!keepStretched.has(key)) this.stretched.delete(key);
+    });
+  }
+
+  // How much faster the stretched copy runs than the track. Transposing plays
+  // the copy faster or slower, so the copy makes up the difference in speed.
+  private get tempo() {
+    return this.rate / 2 ** (this.semitones / 12);
+  }
+
+  private stretchKey(url: string) {
+    return `${this.tempo}|${url}`;
+  }
+
+  // The buffer to play `track` from at the current speed and transposition
+  private prepare(track: PlayerTrack, buffer: AudioBuffer): Promise<AudioBuffer> {
+    if (Math.abs(this.tempo - 1) < 0.001) return Promise.resolve(buffer);
+    const key = this.stretchKey(track.url);
+    let pending = this.stretched.get(key);
+    if (!pending) {
+      pending = stretchAudioBuffer(buffer, this.tempo, this.ensureContext());
+      this.stretched.set(key, pending);
+      pending.catch(() => this.stretched.delete(key));
+    }
+    return pending;
+  }
+
+  // Like prepare, but starts over if the settings change while it works
+  private async prepareCurrent(track: PlayerTrack, buffer: AudioBuffer): Promise<AudioBuffer> {
+    let token: number;
+    let playback: AudioBuffer;
+    do {
+      token = this.settingsToken;
+      playback = await this.prepare(track, buffer);
+    } while (token !== this.settingsToken);
+    return playback;
+  }
+
+  private restart(position: number, playback: AudioBuffer) {
+    if (!this.context || !this.track || !this.buffer) return;
+    this.stopVoices();
+    this.voice = this.startVoice(this.track, this.buffer, playback, this.context.currentTime, position, 1);
+    this.startTicking();
+    this.scheduleNext();
+  }
+
+  private applyLoop(voice: Voice) {
+    const scale = voice.buffer.duration / voice.playback.duration; // Track seconds per second of the playback buffer
+    voice.source.loop = !!this.loop;
+    if (this.loop) {
+      voice.source.loopStart = this.loop.start / scale;
+      voice.source.loopEnd = this.loop.end / scale;
+    }
+  }
+
+  // `initialGain` is relative to the track's own level
+  private startVoice(track: PlayerTrack, buffer: AudioBuffer, playback: AudioBuffer, when: number, offset: number, initialGain: number): Voice {
+    const context = this.ensureContext();
+    const source = context.createBufferSource();
+    source.buffer = playback;
+    const pitch = 2 ** (this.semitones / 12);
+    source.playbackRate.value = pitch;
+    const scale = buffer.duration / playback.duration;
+    const rate = pitch * scale;
+    const gain = context.createGain();
+    gain.gain.value = initialGain * levelOf(track);
+    source.connect(gain).connect(this.output!);
+    // Starting past the end of a loop starts it from the top
+    const start = this.loop && offset >= this.loop.end ? this.loop.start : offset;
+    const voice: Voice = { track, buffer, playback, source, gain, rate, startedAt: when - start / rate };
+    this.applyLoop(voice);
+    source.start(when, start / scale);
+    source.onended = () => this.handleVoiceEnded(voice);
+    return voice;
+  }
+
+  private async scheduleNext() {
+    const voice = this.voice;
+    const nextTrack = this.nextTrack;
+    if (!voice || !nextTrack || this.nextVoice || this.loop) return;
+
+    const token = this.settingsToken;
+    let nextBuffer: AudioBuffer;
+    let nextPlayback: AudioBuffer;
+    try {
+      nextBuffer = await this.decode(nextTrack);
+      nextPlayback = await this.prepare(nextTrack, nextBuffer);
+    } catch {
+      return; // Falls back to `ended`, letting the caller load it the slow way
+    }
+    if (this.voice !== voice || this.nextTrack !== nextTrack || this.nextVoice || this.loop || token !== this.settingsToken || !this.context) return;
+
+    const context = this.context;
+    const endsAt = voice.startedAt + voice.buffer.duration / voice.rate;
+    const fade = Math.min(this.crossfade, voice.buffer.duration / voice.rate / 2, nextBuffer.duration / this.rate / 2);
+    const startAt = Math.max(context.currentTime, endsAt - fade);
+    const nextVoice = this.startVoice(nextTrack, nextBuffer, nextPlayback, startAt, 0, fade > 0 ? 0 : 1);
+    if (fade > 0) {
+      nextVoice.gain.gain.setValueAtTime(0, startAt);
+      nextVoice.gain.gain.linearRampToValueAtTime(levelOf(nextTrack), startAt + fade);
+      voice.gain.gain.setValueAtTime(levelOf(voice.track), startAt);
+      voice.gain.gain.linearRampToValueAtTime(0, Math.max(endsAt, startAt + 0.01));
+    }
+    this.nextVoice = nextVoice;
+    this.advanceTimer = setTimeout(() => this.advance(), Math.max(0, (startAt - context.currentTime) * 1000));
+  }
+
+  // The audio is already scheduled; this just moves our notion of "current"
+  private advance() {
+    const nextVoice = this.nextVoice;
+    if (!nextVoice) return;
+    clearTimeout(this.advanceTimer);
+    this.fadingVoice = this.voice; // Plays out its fade and ends by itself
+    this.voice = nextVoice;
+    this.nextVoice = null;
+    this.nextTrack = null;
+    this.track = nextVoice.track;
+    this.buffer = nextVoice.buffer;
+    this.offset = 0;
+    this.pruneBuffers();
+    this.dispatchEvent(new CustomEvent('advance', { detail: nextVoice.track.id }));
+    this.dispatchEvent(new Event('loadedmetadata'));
+  }
+
+  private handleVoiceEnded(voice: Voice) {
+    if (voice === this.fadingVoice) this.fadingVoice = null;
+    if (voice !== this.voice) return; // Replaced by an advance
+    if (this.nextVoice) {
+      // The timer hasn't fired yet but the next track is already playing
+      this.advance();
+      return;
+    }
+    this.voice = null;
+    this.offset = voice.buffer.duration;
+    this.stopTicking();
+    this.element?.pause();
+    this.dispatchEvent(new Event('timeupdate'));
+    this.dispatchEvent(new Event('pause'));
+    this.dispatchEvent(new Event('ended'));
+  }
+
+  private cancelNext() {
+    clearTimeout(this.advanceTimer);
+    if (this.nextVoice) {
+      this.stopVoice(this.nextVoice);
+      this.nextVoice = null;
+      // Undo the fade-out already scheduled on the current track
+      if (this.voice && this.context) {
+        this.voice.gain.gain.cancelScheduledValues(this.context.currentTime);
+        this.voice.gain.gain.setValueAtTime(levelOf(this.voice.track), this.context.currentTime);
+      }
+    }
+  }
+
+  private setLevel(track: PlayerTrack) {
+    this.track = track;
+    const voice = this.voice;
+    if (!voice || !this.context) return;
+    voice.track = track;
+    // Any crossfade already scheduled was ramped for the old level
+    this.cancelNext();
+    voice.gain.gain.cancelScheduledValues(this.context.currentTime);
+    voice.gain.gain.setValueAtTime(levelOf(track), this.context.currentTime);
+    this.scheduleNext();
+  }
+
+  private stopVoices() {
+    this.cancelNext();
+    [this.voice, this.fadingVoice].forEach(voice => voice && this.stopVoice(voice));
+    this.voice = null;
+    this.fadingVoice = null;
+    this.stopTicking();
+  }
+
+  private stopVoice(voice: Voice) {
+    voice.source.onended = null;
+    try {
+      voice.source.stop();
+    } catch {
+      // Already stopped
+    }
+    voice.gain.disconnect();
+  }
+
+  private startTicking() {
+    this.stopTicking();
+    this.tickTimer = setInterval(() => this.dispatchEvent(new Event('timeupdate')), TIME_UPDATE_INTERVAL);
+  }
+
+  private stopTicking() {
+    clearInterval(this.tickTimer);
+  }
+}
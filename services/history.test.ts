@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_HISTORY, mergeList, mergePlaylist, recordEntry, withoutSongs } from './history';
+import type { HistoryEntry, Workspace } from './history';
+import type { Playlist, Song } from '../types';
+
+const song = (id: string, fields: Partial<Song> = {}): Song => ({ id, name: id, duration: 120, ...fields });
+const ids = (songs: Song[]) => songs.map(s => s.id);
+const playlist = (id: string, songs: Song[]): Playlist => ({ id, name: id, songs });
+
+const workspace = (library: Song[]): Workspace => ({ library, trash: [], playlist: playlist('p', []), savedPlaylists: [] });
+const entry = (label: string, coalesce?: string): HistoryEntry => ({ label, before: workspace([]), after: workspace([song(label)]), coalesce });
+
+// Undoing replays an edit backwards: from its `after` to its `before`
+const undo = <T extends { id: string }>(current: T[], before: T[], after: T[]) => mergeList(current, after, before);
+
+describe('mergeList', () => {
+  const a = song('a');
+  const b = song('b');
+  const c = song('c');
+
+  it('puts a deleted item back where it was', () => {
+    const before = [a, b, c];
+    const after = [a, c];
+
+    expect(ids(undo(after, before, after))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('puts it back after its predecessor even when the list changed since', () => {
+    const before = [a, b, c];
+    const after = [a, c];
+    const current = [song('new'), a, c];
+
+    expect(ids(undo(current, before, after))).toEqual(['new', 'a', 'b', 'c']);
+  });
+
+  it('keeps fields that background updates changed after the edit', () => {
+    const before = [song('a', { name: 'Old name' })];
+    const after = [song('a', { name: 'New name' })];
+    const current = [song('a', { name: 'New name', bpm: '140', key: 'A minor' })];
+
+    expect(undo(current, before, after)).toEqual([song('a', { name: 'Old name', bpm: '140', key: 'A minor' })]);
+  });
+
+  it('removes fields the edit added', () => {
+    const before = [a];
+    const after = [song('a', { genre: 'Trap' })];
+
+    expect(undo(after, before, after)).toEqual([a]);
+  });
+
+  it('undoes a reorder, keeping items added since at the end', () => {
+    const before = [a, b, c];
+    const after = [c, a, b];
+    const current = [c, a, b, song('new')];
+
+    expect(ids(undo(current, before, after))).toEqual(['a', 'b', 'c', 'new']);
+  });
+
+  it('removes an item the edit added', () => {
+    expect(ids(undo([a, b], [a], [a, b]))).toEqual(['a']);
+  });
+
+  it('revives items that come back', () => {
+    const deletedMidAnalysis = song('b', { analyzing: true });
+    const restored = mergeList([a], [a], [a, deletedMidAnalysis], item => ({ ...item, analyzing: false }));
+
+    expect(restored[1]).toEqual(song('b', { analyzing: false }));
+  });
+
+  it('leaves the list alone when the edit did not touch it', () => {
+    const list = [a, b];
+    const current = [b, a];
+
+    expect(mergeList(current, list, list)).toBe(current);
+  });
+});
+
+describe('mergePlaylist', () => {
+  const library = [song('a', { bpm: '140' }), song('b')];
+
+  it('undoes edits to the open playlist field by field', () => {
+    const before = { ...playlist('p', [song('a')]), crossfade: 4 };
+    const after = { ...playlist('p', [song('a'), song('b')]), crossfade: 4, name: 'Renamed' };
+    const current = { ...after, loudnessMatch: true };
+
+    const undone = mergePlaylist(current, after, before, library, s => s);
+    expect(undone.name).toBe('p');
+    expect(undone.loudnessMatch).toBe(true);
+    expect(ids(undone.songs)).toEqual(['a']);
+  });
+
+  it('brings back the other playlist whole when the edit switched playlists', () => {
+    const before = playlist('first', [song('a', { comments: [{ id: 'c1', text: 'Nice', timestamp: 3, author: 'Client', createdAt: 1 }] })]);
+    const after = playlist('second', [song('b')]);
+
+    const undone = mergePlaylist(after, after, before, library, s => s);
+    expect(undone.id).toBe('first');
+    // Library details are brought up to date; the playlist's comments stay
+    expect(undone.songs[0].bpm).toBe('140');
+    expect(undone.songs[0].comments).toEqual(before.songs[0].comments);
+  });
+
+  it('revives playlist songs no longer in the library', () => {
+    const before = playlist('first', [song('gone', { analyzing: true })]);
+    const after = playlist('second', []);
+
+    const undone = mergePlaylist(after, after, before, library, s => ({ ...s, analyzing: false }));
+    expect(undone.songs[0].analyzing).toBe(false);
+  });
+});
+
+describe('recordEntry', () => {
+  it('coalesces consecutive edits with the same key into one', () => {
+    const first = recordEntry(EMPTY_HISTORY, entry('n', 'name-a'));
+    const second = recordEntry(first, entry('na', 'name-a'));
+
+    expect(second.undo).toHaveLength(1);
+    expect(second.undo[0].before).toBe(first.undo[0].before);
+    expect(ids(second.undo[0].after.library)).toEqual(['na']);
+  });
+
+  it('starts a new entry for a different key or after an undo', () => {
+    const history = recordEntry(recordEntry(EMPTY_HISTORY, entry('n', 'name-a')), entry('x', 'name-b'));
+    expect(history.undo).toHaveLength(2);
+
+    const afterUndo = { undo: history.undo.slice(0, 1), redo: history.undo.slice(1) };
+    expect(recordEntry(afterUndo, entry('na', 'name-a')).undo).toHaveLength(2);
+  });
+
+  it('clears redo when a new edit is recorded', () => {
+    const history = { undo: [], redo: [entry('undone')] };
+
+    expect(recordEntry(history, entry('new')).redo).toEqual([]);
+  });
+});
+
+describe('withoutSongs', () => {
+  it('drops only the entries that hold the given songs', () => {
+    const deleteA: HistoryEntry = { label: 'Delete a', before: workspace([song('a')]), after: { ...workspace([]), trash: [song('a')] } };
+    const renameB: HistoryEntry = { label: 'Rename b', before: workspace([song('b')]), after: workspace([song('b', { name: 'B' })]) };
+    const history = { undo: [deleteA, renameB], redo: [deleteA] };
+
+    expect(withoutSongs(history, new Set(['a']))).toEqual({ undo: [renameB], redo: [] });
+  });
+});
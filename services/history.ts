@@ -0,0 +1,138 @@
+import type { Playlist, Song } from '../types';
+
+// Undo/redo for the producer's workspace. Each edit is recorded as the
+// workspace before and after it, and undoing replays the difference backwards
+// onto the workspace as it is now. Anything the edit didn't touch keeps its
+// current value, so analysis results or restored audio that arrived in the
+// meantime survive an undo.
+//
+// Only the producer's own edits are recorded. Background updates (analysis,
+// waveforms, audio hydration, smart playlist refreshes) are not commands.
+
+export interface Workspace {
+  library: Song[];
+  trash: Song[]; // Deleted library songs, whose audio is kept until the trash is emptied
+  playlist: Playlist;
+  savedPlaylists: Playlist[];
+}
+
+export interface HistoryEntry {
+  label: string;
+  before: Workspace;
+  after: Workspace;
+  coalesce?: string; // Consecutive edits with the same key, like typing a name, undo as one
+}
+
+export interface History {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: History = { undo: [], redo: [] };
+
+const HISTORY_LIMIT = 100;
+
+export const recordEntry = (history: History, entry: HistoryEntry): History => {
+  const last = history.undo[history.undo.length - 1];
+  if (entry.coalesce && last?.coalesce === entry.coalesce && history.redo.length === 0) {
+    return { undo: [...history.undo.slice(0, -1), { ...last, after: entry.after }], redo: [] };
+  }
+  return { undo: [...history.undo, entry].slice(-HISTORY_LIMIT), redo: [] };
+};
+
+const holdsAny = (workspace: Workspace, ids: Set<string>) =>
+  [workspace.library, workspace.trash, workspace.playlist.songs].some(songs => songs.some(song => ids.has(song.id)));
+
+// Drops the entries that could bring back songs deleted for good, like those
+// in an emptied trash. Other entries stay undoable, since each one only
+// replays its own difference.
+export const withoutSongs = (history: History, ids: Set<string>): History => {
+  const keep = (entry: HistoryEntry) => !holdsAny(entry.before, ids) && !holdsAny(entry.after, ids);
+  return { undo: history.undo.filter(keep), redo: history.redo.filter(keep) };
+};
+
+const isPlainValue = (value: unknown) =>
+  value === null || typeof value !== 'object' || Array.isArray(value) || Object.getPrototypeOf(value) === Object.prototype;
+
+// Files and other objects only match themselves; data compares by content
+const sameValue = (a: unknown, b: unknown) =>
+  a === b || (isPlainValue(a) && isPlainValue(b) && typeof a === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+// Replays the fields that differ between `from` and `to` onto `current`
+const mergeFields = <T extends object>(current: T, from: T, to: T, skip: (keyof T)[] = []): T => {
+  let result = current;
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)] as (keyof T)[]);
+  fields.forEach(field => {
+    if (skip.includes(field) || sameValue(from[field], to[field])) return;
+    if (result === current) result = { ...current };
+    if (to[field] === undefined) delete result[field];
+    else result[field] = to[field];
+  });
+  return result;
+};
+
+const orderChanged = (from: { id: string }[], to: { id: string }[]) => {
+  const inTo = new Set(to.map(item => item.id));
+  const inFrom = new Set(from.map(item => item.id));
+  const fromOrder = from.filter(item => inTo.has(item.id));
+  const toOrder = to.filter(item => inFrom.has(item.id));
+  return fromOrder.some((item, index) => item.id !== toOrder[index].id);
+};
+
+// Replays the change from `from` to `to` onto a list of items with ids: items
+// it added or removed, fields it edited, and its reordering. `revive` prepares
+// items that come back, e.g. clearing flags for work that is no longer running.
+export const mergeList = <T extends { id: string }>(current: T[], from: T[], to: T[], revive: (item: T) => T = item => item): T[] => {
+  if (from === to) return current;
+  const fromById = new Map(from.map(item => [item.id, item]));
+  const toById = new Map(to.map(item => [item.id, item]));
+
+  let result = current
+    .filter(item => !(fromById.has(item.id) && !toById.has(item.id)))
+    .map(item => {
+      const before = fromById.get(item.id);
+      const after = toById.get(item.id);
+      return before && after && before !== after ? mergeFields(item, before, after) : item;
+    });
+
+  const present = new Set(result.map(item => item.id));
+  to.forEach((item, index) => {
+    if (fromById.has(item.id) || present.has(item.id)) return;
+    // Back in place after the nearest item that preceded it
+    let position = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const at = result.findIndex(existing => existing.id === to[i].id);
+      if (at !== -1) {
+        position = at + 1;
+        break;
+      }
+    }
+    result = [...result.slice(0, position), revive(item), ...result.slice(position)];
+    present.add(item.id);
+  });
+
+  if (orderChanged(from, to)) {
+    const order = new Map(to.map((item, index) => [item.id, index]));
+    result = [...result].sort((a, b) => (order.get(a.id) ?? to.length) - (order.get(b.id) ?? to.length));
+  }
+  return result;
+};
+
+// A different playlist id means the edit switched playlists, so the other one
+// comes back whole, with its songs' library details brought up to date
+export const mergePlaylist = (current: Playlist, from: Playlist, to: Playlist, library: Song[], revive: (song: Song) => Song): Playlist => {
+  if (from === to) return current;
+  if (from.id !== to.id || current.id !== from.id) {
+    const libraryById = new Map(library.map(song => [song.id, song]));
+    return {
+      ...to,
+      songs: to.songs.map(song => {
+        const librarySong = libraryById.get(song.id);
+        return librarySong ? { ...librarySong, comments: song.comments } : revive(song);
+      }),
+    };
+  }
+  const merged = mergeFields(current, from, to, ['songs']);
+  const songs = mergeList(current.songs, from.songs, to.songs, revive);
+  return songs === current.songs ? merged : { ...merged, songs };
+};
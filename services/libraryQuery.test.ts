@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { sortSongs } from './libraryQuery';
+import type { Song } from '../types';
+
+const song = (id: string, addedAt?: number): Song => ({ id, name: id, duration: 120, addedAt });
+
+describe('sortSongs by date added', () => {
+  // Stored out of upload order, as after an undo puts a deleted song back
+  const songs = [song('newest', 3000), song('legacy-1'), song('oldest', 1000), song('legacy-2'), song('middle', 2000)];
+
+  it('orders by upload time, with legacy songs first in stored order', () => {
+    expect(sortSongs(songs, { field: 'added', direction: 'asc' }).map(s => s.id))
+      .toEqual(['legacy-1', 'legacy-2', 'oldest', 'middle', 'newest']);
+  });
+
+  it('reverses for newest first', () => {
+    expect(sortSongs(songs, { field: 'added', direction: 'desc' }).map(s => s.id))
+      .toEqual(['newest', 'middle', 'oldest', 'legacy-2', 'legacy-1']);
+  });
+});
@@ -0,0 +1,198 @@
+import type { LibrarySort, Song } from '../types';
+import { camelotPosition, parseKey, sameKey } from '../utils/musicKey';
+
+// The library search language: free text plus `field:value` filters, e.g.
+//
+//   drill bpm:140-150 key:Am -tag:sample dur:<3:00 is:unanalyzed
+//
+// Every term has to match. A leading `-` negates a term, and values with
+// spaces can be quoted: `mood:"late night"`. Free text matches the name,
+// artist, album, genre, mood, tags and instrumentation.
+
+type Predicate = (song: Song) => boolean;
+
+export interface ParsedQuery {
+  matches: Predicate;
+  errors: string[];
+}
+
+const NUMERIC_PATTERN = /^\d+(\.\d+)?$/;
+
+const contains = (value: string | undefined, needle: string) => !!value && value.toLowerCase().includes(needle);
+
+const containsAny = (values: (string | undefined)[] | undefined, needle: string) =>
+  !!values && values.some(value => contains(value, needle));
+
+const bpmOf = (song: Song) => {
+  const bpm = parseFloat(song.bpm || '');
+  return Number.isFinite(bpm) ? bpm : undefined;
+};
+
+// The fields `analyzeTrack` fills in; 'N/A' still counts, since analysis ran
+export const isAnalyzed = (song: Song) => !!(song.bpm || song.key || song.genre || song.mood);
+
+// "3:30" or "210", in seconds
+const parseDuration = (text: string) => {
+  const clock = text.match(/^(\d+):([0-5]\d)$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  return NUMERIC_PATTERN.test(text) ? Number(text) : NaN;
+};
+
+// "85-95", ">120", "<=3:00" or a single value
+const parseRange = (text: string, parse: (value: string) => number, exactTolerance: number): ((value: number) => boolean) | null => {
+  const bounded = text.match(/^(.+?)-(.+)$/);
+  if (bounded) {
+    const min = parse(bounded[1]);
+    const max = parse(bounded[2]);
+    return Number.isNaN(min) || Number.isNaN(max) ? null : value => value >= Math.min(min, max) && value <= Math.max(min, max);
+  }
+  const compared = text.match(/^(>=|<=|>|<)(.+)$/);
+  if (compared) {
+    const limit = parse(compared[2]);
+    if (Number.isNaN(limit)) return null;
+    switch (compared[1]) {
+      case '>=': return value => value >= limit;
+      case '<=': return value => value <= limit;
+      case '>': return value => value > limit;
+      default: return value => value < limit;
+    }
+  }
+  const exact = parse(text);
+  return Number.isNaN(exact) ? null : value => Math.abs(value - exact) <= exactTolerance;
+};
+
+const STATES: Record<string, Predicate> = {
+  analyzed: isAnalyzed,
+  unanalyzed: song => !isAnalyzed(song),
+  playable: song => !!song.url,
+  missing: song => !song.url,
+};
+
+// Builds the predicate for one `field:value` term, or returns an error message
+const FILTERS: Record<string, (value: string) => Predicate | string> = {
+  bpm: value => {
+    const inRange = parseRange(value, Number, 0.5);
+    if (!inRange) return `"${value}" isn't a BPM or BPM range.`;
+    return song => {
+      const bpm = bpmOf(song);
+      return bpm !== undefined && inRange(bpm);
+    };
+  },
+  key: value => {
+    const wanted = parseKey(value);
+    if (!wanted) return `"${value}" isn't a key.`;
+    return song => {
+      const key = parseKey(song.key);
+      return !!key && sameKey(key, wanted);
+    };
+  },
+  dur: value => {
+    const inRange = parseRange(value, parseDuration, 0.5);
+    if (!inRange) return `"${value}" isn't a duration like 3:30 or 2:00-4:00.`;
+    return song => inRange(song.duration);
+  },
+  is: value => STATES[value.toLowerCase()] ?? `"is:${value}" isn't one of ${Object.keys(STATES).join(', ')}.`,
+  not: value => {
+    const state = STATES[value.toLowerCase()];
+    return state ? song => !state(song) : `"not:${value}" isn't one of ${Object.keys(STATES).join(', ')}.`;
+  },
+  name: value => song => contains(song.name, value.toLowerCase()),
+  artist: value => song => contains(song.artist, value.toLowerCase()),
+  album: value => song => contains(song.album, value.toLowerCase()),
+  genre: value => song => contains(song.genre, value.toLowerCase()),
+  mood: value => song => contains(song.mood, value.toLowerCase()),
+  tag: value => song => containsAny(song.genreTags, value.toLowerCase()),
+  inst: value => song => containsAny(song.instrumentation, value.toLowerCase()),
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  tempo: 'bpm',
+  duration: 'dur',
+  length: 'dur',
+  title: 'name',
+  tags: 'tag',
+  instrument: 'inst',
+  instruments: 'inst',
+};
+
+const freeText = (word: string): Predicate => {
+  const needle = word.toLowerCase();
+  return song => contains(song.name, needle) || contains(song.artist, needle) || contains(song.album, needle)
+    || contains(song.genre, needle) || contains(song.mood, needle)
+    || containsAny(song.genreTags, needle) || containsAny(song.instrumentation, needle);
+};
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+
+export const parseQuery = (query: string): ParsedQuery => {
+  const predicates: Predicate[] = [];
+  const errors: string[] = [];
+  const terms = query.match(/-?[^\s:"]+:"[^"]*"?|-?"[^"]*"?|\S+/g) || [];
+
+  terms.forEach(term => {
+    const negated = term.length > 1 && term.startsWith('-');
+    const body = negated ? term.slice(1) : term;
+    const separator = body.indexOf(':');
+    const name = separator > 0 ? body.slice(0, separator).toLowerCase() : '';
+    const field = FIELD_ALIASES[name] ?? name;
+    const value = unquote(body.slice(separator + 1));
+
+    let predicate: Predicate;
+    if (FILTERS[field]) {
+      if (!value) return; // Still being typed
+      const built = FILTERS[field](value);
+      if (typeof built === 'string') {
+        errors.push(built);
+        return;
+      }
+      predicate = built;
+    } else {
+      // Not a known field, so e.g. "12:30" is just text
+      const text = unquote(body);
+      if (!text) return;
+      predicate = freeText(text);
+    }
+    predicates.push(negated ? song => !predicate(song) : predicate);
+  });
+
+  return { matches: song => predicates.every(predicate => predicate(song)), errors };
+};
+
+const SORT_VALUES: Record<Exclude<LibrarySort['field'], 'added'>, (song: Song) => string | number | undefined> = {
+  name: song => song.name.toLowerCase(),
+  bpm: bpmOf,
+  // Around the Camelot wheel, minor before major at each position, so
+  // compatible keys end up next to each other
+  key: song => {
+    const key = parseKey(song.key);
+    return key ? camelotPosition(key) * 2 + (key.minor ? 0 : 1) : undefined;
+  },
+  duration: song => song.duration || undefined,
+};
+
+// Songs from before upload times were recorded count as the oldest, in the
+// order they're stored
+const sortByAdded = (songs: Song[], direction: number): Song[] =>
+  songs
+    .map((song, index) => ({ song, index, addedAt: song.addedAt ?? 0 }))
+    .sort((a, b) => ((a.addedAt - b.addedAt) || (a.index - b.index)) * direction)
+    .map(({ song }) => song);
+
+// Songs without a value for the sort field go last either way
+export const sortSongs = (songs: Song[], sort: LibrarySort): Song[] => {
+  if (sort.field === 'added') return sortByAdded(songs, sort.direction === 'asc' ? 1 : -1);
+  const valueOf = SORT_VALUES[sort.field];
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return songs
+    .map(song => ({ song, value: valueOf(song) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return a.value === b.value ? 0 : a.value === undefined ? 1 : -1;
+      }
+      if (typeof a.value === 'string' || typeof b.value === 'string') {
+        return String(a.value).localeCompare(String(b.value)) * direction;
+      }
+      return (a.value - b.value) * direction;
+    })
+    .map(({ song }) => song);
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { loudnessMatchGain, LOUDNESS_TARGET } from './loudness';
+
+const decibels = (gain: number | undefined) => gain === undefined ? undefined : Math.round(20 * Math.log10(gain) * 10) / 10;
+
+describe('loudnessMatchGain', () => {
+  it('brings a track to the target', () => {
+    expect(decibels(loudnessMatchGain({ loudness: -8, truePeak: 0 }))).toBe(LOUDNESS_TARGET + 8);
+    expect(decibels(loudnessMatchGain({ loudness: -18, truePeak: -6 }))).toBe(4);
+  });
+
+  it('keeps boosted peaks below the ceiling', () => {
+    expect(decibels(loudnessMatchGain({ loudness: -20, truePeak: -3 }))).toBe(2);
+  });
+
+  it('limits the boost for quiet tracks with lots of headroom', () => {
+    expect(decibels(loudnessMatchGain({ loudness: -40, truePeak: -30 }))).toBe(12);
+  });
+
+  it('leaves unmeasured and silent tracks alone', () => {
+    expect(loudnessMatchGain({})).toBeUndefined();
+    expect(loudnessMatchGain({ loudness: -70, truePeak: -70 })).toBeUndefined();
+  });
+});
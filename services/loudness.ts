@@ -0,0 +1,176 @@
+import type { Song } from '../types';
+
+// Loudness measurement after ITU-R BS.1770 / EBU R128: gated integrated
+// loudness (LUFS), true peak (dBTP) from 4x oversampling, and loudness range
+// (LU, EBU Tech 3342) as the measure of dynamics. Pure number crunching with no
+// Web Audio, so it runs in the analysis worker.
+
+export interface LoudnessMeasurement {
+  loudness: number; // Integrated, in LUFS
+  truePeak: number; // dBTP
+  loudnessRange: number; // LU
+}
+
+// Loudness match plays every track at what streaming services normalize to,
+// but never turns a track up so far that its peaks would clip, or by more than
+// MAX_BOOST, which would mostly raise the noise floor of very quiet tracks
+export const LOUDNESS_TARGET = -14; // LUFS
+const TRUE_PEAK_CEILING = -1; // dBTP
+const MAX_BOOST = 12; // dB
+
+const SUB_BLOCK_SECONDS = 0.1; // Blocks are built from these, giving the 75% overlap of momentary blocks
+const MOMENTARY_SUB_BLOCKS = 4; // 400 ms
+const SHORT_TERM_SUB_BLOCKS = 30; // 3 s
+const ABSOLUTE_GATE = -70; // LUFS; also the floor reported for silence
+const INTEGRATED_RELATIVE_GATE = -10; // LU
+const RANGE_RELATIVE_GATE = -20; // LU
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number]; // a1, a2 (a0 normalized to 1)
+}
+
+// The two K-weighting stages (a high shelf for the head, then a high-pass),
+// derived for any sample rate from the analog prototypes behind the 48 kHz
+// coefficients in the standard
+const kWeighting = (sampleRate: number): Biquad[] => {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b: [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    a: [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+  return [shelf, highPass];
+};
+
+// Sum of the K-weighted channel's squares over each 100 ms sub-block
+const subBlockEnergies = (channel: Float32Array, filters: Biquad[], subBlockLength: number, energies: Float64Array) => {
+  const state = filters.map(() => [0, 0, 0, 0]); // x1, x2, y1, y2
+  for (let block = 0; block < energies.length; block++) {
+    let sum = 0;
+    const end = (block + 1) * subBlockLength;
+    for (let i = block * subBlockLength; i < end; i++) {
+      let sample = channel[i];
+      for (let f = 0; f < filters.length; f++) {
+        const { b, a } = filters[f];
+        const s = state[f];
+        const y = b[0] * sample + b[1] * s[0] + b[2] * s[1] - a[0] * s[2] - a[1] * s[3];
+        s[1] = s[0];
+        s[0] = sample;
+        s[3] = s[2];
+        s[2] = y;
+        sample = y;
+      }
+      sum += sample * sample;
+    }
+    energies[block] += sum;
+  }
+};
+
+const toLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Loudness of every block spanning `length` sub-blocks, stepping one sub-block at a time
+const blockLoudness = (energies: Float64Array, length: number, subBlockLength: number): number[] => {
+  const blocks: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < energies.length; i++) {
+    sum += energies[i];
+    if (i >= length) sum -= energies[i - length];
+    if (i >= length - 1) blocks.push(toLoudness(Math.max(sum, 0) / (length * subBlockLength)));
+  }
+  return blocks;
+};
+
+const powerMean = (loudness: number[]) =>
+  toLoudness(loudness.reduce((sum, l) => sum + 10 ** ((l + 0.691) / 10), 0) / loudness.length);
+
+const integratedLoudness = (momentary: number[]) => {
+  const audible = momentary.filter(l => l > ABSOLUTE_GATE);
+  if (audible.length === 0) return ABSOLUTE_GATE;
+  const gate = powerMean(audible) + INTEGRATED_RELATIVE_GATE;
+  const gated = audible.filter(l => l > gate);
+  return gated.length > 0 ? powerMean(gated) : ABSOLUTE_GATE;
+};
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.round(fraction * (sorted.length - 1)))];
+
+const loudnessRange = (shortTerm: number[]) => {
+  const audible = shortTerm.filter(l => l > ABSOLUTE_GATE);
+  if (audible.length === 0) return 0;
+  const gate = powerMean(audible) + RANGE_RELATIVE_GATE;
+  const gated = audible.filter(l => l > gate).sort((a, b) => a - b);
+  return gated.length > 0 ? percentile(gated, 0.95) - percentile(gated, 0.1) : 0;
+};
+
+// Windowed-sinc interpolator, split into one filter per oversampled phase
+const INTERPOLATION_PHASES = (() => {
+  const taps = OVERSAMPLING * TAPS_PER_PHASE;
+  const center = (taps - 1) / 2;
+  return Array.from({ length: OVERSAMPLING }, (_, phase) => {
+    const coefficients = Array.from({ length: TAPS_PER_PHASE }, (_, k) => {
+      const n = k * OVERSAMPLING + phase;
+      const x = (n - center) / OVERSAMPLING;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / taps);
+      return sinc * window;
+    });
+    const gain = coefficients.reduce((sum, c) => sum + c, 0);
+    return Float64Array.from(coefficients, c => c / gain);
+  });
+})();
+
+// Peak of the reconstructed waveform, which can sit between samples and above them
+const truePeakOf = (channel: Float32Array) => {
+  let peak = 0;
+  for (let i = 0; i < channel.length; i++) {
+    const sample = Math.abs(channel[i]);
+    if (sample > peak) peak = sample;
+    if (i < TAPS_PER_PHASE - 1) continue;
+    for (let p = 0; p < OVERSAMPLING; p++) {
+      const phase = INTERPOLATION_PHASES[p];
+      let value = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) value += phase[k] * channel[i - k];
+      if (value > peak) peak = value;
+      else if (-value > peak) peak = -value;
+    }
+  }
+  return peak;
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): LoudnessMeasurement => {
+  const subBlockLength = Math.round(SUB_BLOCK_SECONDS * sampleRate);
+  const energies = new Float64Array(Math.floor((channels[0]?.length ?? 0) / subBlockLength));
+  const filters = kWeighting(sampleRate);
+  channels.forEach(channel => subBlockEnergies(channel, filters, subBlockLength, energies));
+  const peak = Math.max(0, ...channels.map(truePeakOf));
+
+  return {
+    loudness: round(integratedLoudness(blockLoudness(energies, MOMENTARY_SUB_BLOCKS, subBlockLength))),
+    truePeak: round(peak > 0 ? Math.max(ABSOLUTE_GATE, 20 * Math.log10(peak)) : ABSOLUTE_GATE),
+    loudnessRange: round(loudnessRange(blockLoudness(energies, SHORT_TERM_SUB_BLOCKS, subBlockLength))),
+  };
+};
+
+// Linear gain that brings the song to the target, or undefined when it hasn't
+// been measured or is silent as far as the gate can tell
+export const loudnessMatchGain = (song: Pick<Song, 'loudness' | 'truePeak'>): number | undefined => {
+  if (song.loudness === undefined || song.loudness <= ABSOLUTE_GATE) return undefined;
+  let decibels = Math.min(LOUDNESS_TARGET - song.loudness, MAX_BOOST);
+  if (song.truePeak !== undefined) decibels = Math.min(decibels, TRUE_PEAK_CEILING - song.truePeak);
+  return 10 ** (decibels / 20);
+};
@@ -0,0 +1,79 @@
+import type { Marker, SectionKind } from '../types';
+
+// Cue markers flag moments in a song ("hook starts at 0:45") and, optionally,
+// the sections it's built from. They belong to the song, like its tags, so
+// they show in every playlist, and they travel in exports and share links so
+// clients can jump straight to the part they should hear.
+
+export const SECTION_KINDS: SectionKind[] = ['intro', 'verse', 'hook', 'bridge', 'outro'];
+
+export const SECTION_NAMES: Record<SectionKind, string> = {
+  intro: 'Intro',
+  verse: 'Verse',
+  hook: 'Hook',
+  bridge: 'Bridge',
+  outro: 'Outro',
+};
+
+const byTime = (a: Marker, b: Marker) => a.time - b.time;
+
+// Labels the app made up, which follow the marker's section when it changes
+const GENERATED_LABEL = new RegExp(`^(Marker|${Object.values(SECTION_NAMES).join('|')})( \\d+)?$`);
+
+// Numbers repeats, e.g. "Verse 2"; verses are always numbered
+const defaultLabel = (markers: Marker[], section?: SectionKind) => {
+  const count = markers.filter(m => m.section === section).length;
+  if (!section) return `Marker ${count + 1}`;
+  return count > 0 || section === 'verse' ? `${SECTION_NAMES[section]} ${count + 1}` : SECTION_NAMES[section];
+};
+
+export const addMarker = (markers: Marker[], time: number, section?: SectionKind): Marker[] => [
+  ...markers,
+  { id: crypto.randomUUID(), label: defaultLabel(markers, section), time, ...(section && { section }) },
+].sort(byTime);
+
+export const updateMarker = (markers: Marker[], id: string, changes: Partial<Omit<Marker, 'id'>>): Marker[] =>
+  markers.map(marker => {
+    if (marker.id !== id) return marker;
+    const updated: Marker = { ...marker, ...changes };
+    if ('section' in changes && changes.section !== marker.section && GENERATED_LABEL.test(marker.label)) {
+      updated.label = defaultLabel(markers.filter(m => m.id !== id), changes.section);
+    }
+    if (!updated.section) delete updated.section;
+    // A range has to end after it starts
+    if (updated.endTime === undefined || updated.endTime <= updated.time) delete updated.endTime;
+    return updated;
+  }).sort(byTime);
+
+export const removeMarker = (markers: Marker[], id: string): Marker[] => markers.filter(marker => marker.id !== id);
+
+// Where a marker's range ends: its own end, or for a section without one, the
+// next marker (or the end of the track). Plain markers are points.
+export const markerEnd = (marker: Marker, markers: Marker[], duration: number): number | undefined => {
+  if (marker.endTime !== undefined) return Math.min(marker.endTime, duration);
+  if (!marker.section) return undefined;
+  return markers.find(m => m.time > marker.time)?.time ?? duration;
+};
+
+// The marker to jump to before or after `time`. Going back from just past a
+// marker skips to the one before it, like the previous-track button.
+export const adjacentMarker = (markers: Marker[], time: number, direction: 'previous' | 'next'): Marker | undefined => {
+  if (direction === 'next') return markers.find(marker => marker.time > time + 0.25);
+  return [...markers].reverse().find(marker => marker.time < time - 1);
+};
+
+// Markers on a preview clip's timeline, for clips cut from `start`. Sections
+// already underway when the clip starts begin at 0; anything outside is dropped.
+export const markersInClip = (markers: Marker[], start: number, length: number, duration: number): Marker[] =>
+  markers.flatMap(marker => {
+    const end = markerEnd(marker, markers, duration);
+    const isInside = marker.time >= start && marker.time <= start + length;
+    const isUnderway = end !== undefined && marker.time < start && end > start;
+    if (!isInside && !isUnderway) return [];
+    const { endTime, ...point } = marker;
+    return [{
+      ...point,
+      time: Math.max(0, marker.time - start),
+      ...(end !== undefined && { endTime: Math.min(end, start + length) - start }),
+    }];
+  });
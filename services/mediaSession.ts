@@ -0,0 +1,77 @@
+// Thin wrappers around the Media Session API, which lets the OS lock screen,
+// notification shade and hardware media keys show and control what's playing.
+// Every call is a no-op in browsers without it.
+
+export interface MediaSessionTrack {
+  title: string;
+  artist?: string;
+  album?: string;
+  artwork?: string; // Image URL; the app icon is used without one
+}
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  previousTrack: () => void;
+  nextTrack: () => void;
+  seekTo: (time: number) => void;
+  seekBy: (delta: number) => void;
+  stop: () => void;
+}
+
+const DEFAULT_SEEK_OFFSET = 10; // seconds, when the OS doesn't say
+
+// The app icon from manifest.json, for songs without cover art
+const DEFAULT_ARTWORK: MediaImage[] = [{ src: '/vite.svg', sizes: 'any', type: 'image/svg+xml' }];
+
+const isSupported = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+export const setMediaSessionTrack = (track: MediaSessionTrack | null) => {
+  if (!isSupported()) return;
+  navigator.mediaSession.metadata = track
+    ? new MediaMetadata({ title: track.title, artist: track.artist || '', album: track.album || '', artwork: track.artwork ? [{ src: track.artwork }] : DEFAULT_ARTWORK })
+    : null;
+};
+
+export const setMediaSessionPlaybackState = (state: MediaSessionPlaybackState) => {
+  if (!isSupported()) return;
+  navigator.mediaSession.playbackState = state;
+};
+
+export const setMediaSessionPosition = (duration: number, position: number, playbackRate = 1) => {
+  if (!isSupported() || !navigator.mediaSession.setPositionState) return;
+  try {
+    if (Number.isFinite(duration) && duration > 0) {
+      navigator.mediaSession.setPositionState({ duration, position: Math.min(Math.max(position, 0), duration), playbackRate });
+    } else {
+      navigator.mediaSession.setPositionState();
+    }
+  } catch (error) {
+    console.error("Failed to update media session position:", error);
+  }
+};
+
+const setActionHandler = (action: MediaSessionAction, callback: MediaSessionActionHandler | null) => {
+  try {
+    navigator.mediaSession.setActionHandler(action, callback);
+  } catch {
+    // Older browsers throw for actions they don't support
+  }
+};
+
+// Registers the handlers and returns a function that removes them again
+export const setMediaSessionHandlers = (handlers: MediaSessionHandlers) => {
+  if (!isSupported()) return () => {};
+  const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ['play', () => handlers.play()],
+    ['pause', () => handlers.pause()],
+    ['previoustrack', () => handlers.previousTrack()],
+    ['nexttrack', () => handlers.nextTrack()],
+    ['seekto', details => details.seekTime !== undefined && handlers.seekTo(details.seekTime)],
+    ['seekbackward', details => handlers.seekBy(-(details.seekOffset || DEFAULT_SEEK_OFFSET))],
+    ['seekforward', details => handlers.seekBy(details.seekOffset || DEFAULT_SEEK_OFFSET)],
+    ['stop', () => handlers.stop()],
+  ];
+  actions.forEach(([action, callback]) => setActionHandler(action, callback));
+  return () => actions.forEach(([action]) => setActionHandler(action, null));
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { addToQueue, createQueue, cycleRepeat, next, playFrom, previous, syncSource } from './playbackQueue';
+
+const library = ['a', 'b', 'c'];
+
+describe('library playback', () => {
+  it('advances to the next library track when one ends', () => {
+    const queue = playFrom(createQueue(), 'library', library, 'a');
+
+    const advanced = next(queue, 'ended');
+    expect(advanced?.source).toBe('library');
+    expect(advanced?.currentId).toBe('b');
+    expect(advanced?.history).toEqual(['a']);
+  });
+
+  it('stops after the last library track unless repeating', () => {
+    const queue = playFrom(createQueue(), 'library', library, 'c');
+
+    expect(next(queue, 'ended')).toBeNull();
+    expect(next(cycleRepeat(queue), 'ended')?.currentId).toBe('a');
+  });
+
+  it('skips library tracks without audio', () => {
+    const queue = playFrom(createQueue(), 'library', library, 'a');
+
+    expect(next(queue, 'ended', id => id !== 'b')?.currentId).toBe('c');
+  });
+
+  it('plays queued picks before carrying on through the library', () => {
+    const queue = addToQueue(playFrom(createQueue(), 'library', library, 'a'), 'c');
+
+    const queued = next(queue, 'ended');
+    expect(queued?.currentId).toBe('c');
+    expect(next(queued!, 'ended')?.currentId).toBe('b');
+  });
+
+  it('follows tracks added to the library while playing', () => {
+    const queue = syncSource(playFrom(createQueue(), 'library', library, 'c'), [...library, 'd']);
+
+    expect(next(queue, 'ended')?.currentId).toBe('d');
+  });
+});
+
+describe('repeat and previous', () => {
+  it('restarts the current track under repeat-one only when it ends', () => {
+    const queue = cycleRepeat(cycleRepeat(playFrom(createQueue(), 'playlist', library, 'a')));
+
+    expect(next(queue, 'ended')).toBe(queue);
+    expect(next(queue, 'skip')?.currentId).toBe('b');
+  });
+
+  it('goes back through the history', () => {
+    const queue = next(playFrom(createQueue(), 'playlist', library, 'a'))!;
+
+    const back = previous(queue);
+    expect(back?.currentId).toBe('a');
+    expect(back?.index).toBe(0);
+  });
+});
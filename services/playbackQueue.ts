@@ -0,0 +1,241 @@
+// A DOM-free playback queue. Every operation takes a state and returns a new
+// one, so App only has to mirror `currentId` onto the <audio> element. Songs
+// are referenced by id, which keeps the queue serializable and unaffected by
+// metadata edits.
+
+export type RepeatMode = 'off' | 'all' | 'one';
+export type QueueSource = 'playlist' | 'library';
+export type AdvanceReason = 'ended' | 'skip';
+
+export interface QueueState {
+  source: QueueSource;
+  order: string[]; // The source's tracks in play order (shuffled when shuffle is on)
+  index: number; // Position in `order` of the last track played from it; -1 before the first
+  upNext: string[]; // "Play next" / "Add to queue" picks, played before `order` continues
+  history: string[]; // Previously played ids, most recent last
+  currentId: string | null;
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+export interface PersistedQueue extends QueueState {
+  position: number; // seconds into the current track
+}
+
+const MAX_HISTORY = 100;
+
+export const createQueue = (): QueueState => ({
+  source: 'playlist',
+  order: [],
+  index: -1,
+  upNext: [],
+  history: [],
+  currentId: null,
+  shuffle: false,
+  repeat: 'off',
+});
+
+const shuffled = (ids: string[], random: () => number) => {
+  const result = [...ids];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const withHistory = (history: string[], id: string | null) =>
+  id ? [...history, id].slice(-MAX_HISTORY) : history;
+
+// Starts `songId` and makes `sourceIds` the tracks that follow it
+export const playFrom = (
+  state: QueueState,
+  source: QueueSource,
+  sourceIds: string[],
+  songId: string,
+  random: () => number = Math.random,
+): QueueState => {
+  const order = state.shuffle
+    ? [songId, ...shuffled(sourceIds.filter(id => id !== songId), random)]
+    : [...sourceIds];
+  return {
+    ...state,
+    source,
+    order,
+    index: order.indexOf(songId),
+    history: state.currentId === songId ? state.history : withHistory(state.history, state.currentId),
+    currentId: songId,
+  };
+};
+
+const step = (state: QueueState, random: () => number): QueueState | null => {
+  const history = withHistory(state.history, state.currentId);
+  if (state.upNext.length > 0) {
+    const [currentId, ...upNext] = state.upNext;
+    return { ...state, upNext, history, currentId };
+  }
+  if (state.index + 1 < state.order.length) {
+    const index = state.index + 1;
+    return { ...state, index, history, currentId: state.order[index] };
+  }
+  if (state.repeat !== 'off' && state.order.length > 0) {
+    // Reshuffle each lap so repeat-all doesn't replay the same shuffled order
+    const order = state.shuffle ? shuffled(state.order, random) : state.order;
+    if (state.shuffle && order.length > 1 && order[0] === state.currentId) {
+      [order[0], order[order.length - 1]] = [order[order.length - 1], order[0]];
+    }
+    return { ...state, order, index: 0, history, currentId: order[0] };
+  }
+  return null;
+};
+
+// Returns the state after advancing, or null when the queue has run out. A track
+// that ends under repeat-one comes back unchanged, which callers treat as
+// "restart the current track". `canPlay` skips tracks that have no audio.
+export const next = (
+  state: QueueState,
+  reason: AdvanceReason = 'skip',
+  canPlay: (id: string) => boolean = () => true,
+  random: () => number = Math.random,
+): QueueState | null => {
+  if (reason === 'ended' && state.repeat === 'one' && state.currentId) return state;
+
+  let candidate = step(state, random);
+  // Bounded so a queue with nothing playable under repeat-all can't spin forever
+  for (let attempts = state.upNext.length + state.order.length; candidate && candidate.currentId && !canPlay(candidate.currentId); attempts--) {
+    if (attempts <= 0) return null;
+    candidate = step(candidate, random);
+  }
+  return candidate;
+};
+
+export const previous = (state: QueueState): QueueState | null => {
+  if (state.history.length === 0) return null;
+  const currentId = state.history[state.history.length - 1];
+  const orderIndex = state.order.indexOf(currentId);
+  // A track that came from up next goes back there so Next returns to it
+  const leftUpNext = state.currentId !== null && state.order[state.index] !== state.currentId;
+  return {
+    ...state,
+    history: state.history.slice(0, -1),
+    upNext: leftUpNext ? [state.currentId!, ...state.upNext] : state.upNext,
+    index: orderIndex !== -1 ? orderIndex : state.index,
+    currentId,
+  };
+};
+
+export const playNext = (state: QueueState, songId: string): QueueState => ({
+  ...state,
+  upNext: [songId, ...state.upNext],
+});
+
+export const addToQueue = (state: QueueState, songId: string): QueueState => ({
+  ...state,
+  upNext: [...state.upNext, songId],
+});
+
+export const removeFromUpNext = (state: QueueState, position: number): QueueState => ({
+  ...state,
+  upNext: state.upNext.filter((_, i) => i !== position),
+});
+
+export const clearUpNext = (state: QueueState): QueueState => ({ ...state, upNext: [] });
+
+export const setShuffle = (
+  state: QueueState,
+  shuffle: boolean,
+  sourceIds: string[],
+  random: () => number = Math.random,
+): QueueState => {
+  if (shuffle) {
+    const isCurrentInSource = state.currentId !== null && sourceIds.includes(state.currentId);
+    // The current track stays put at the head; everything else is shuffled after it
+    const order = isCurrentInSource
+      ? [state.currentId!, ...shuffled(sourceIds.filter(id => id !== state.currentId), random)]
+      : shuffled(sourceIds, random);
+    return { ...state, shuffle, order, index: isCurrentInSource ? 0 : -1 };
+  }
+  const order = [...sourceIds];
+  return { ...state, shuffle, order, index: state.currentId ? order.indexOf(state.currentId) : -1 };
+};
+
+export const cycleRepeat = (state: QueueState): QueueState => ({
+  ...state,
+  repeat: state.repeat === 'off' ? 'all' : state.repeat === 'all' ? 'one' : 'off',
+});
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+// Follows tracks being added, removed or reordered in the queue's source
+export const syncSource = (
+  state: QueueState,
+  sourceIds: string[],
+  random: () => number = Math.random,
+): QueueState => {
+  let order: string[];
+  if (state.shuffle) {
+    const present = new Set(sourceIds);
+    const kept = state.order.filter(id => present.has(id));
+    const known = new Set(kept);
+    order = [...kept, ...shuffled(sourceIds.filter(id => !known.has(id)), random)];
+  } else {
+    order = [...sourceIds];
+  }
+
+  // Keep our place: the current track if it's still there, else the track we
+  // last played from the order, else roughly the same position
+  let index = state.currentId ? order.indexOf(state.currentId) : -1;
+  if (index === -1 && state.index >= 0) index = order.indexOf(state.order[state.index]);
+  if (index === -1) index = state.index >= 0 ? Math.min(state.index, order.length) - 1 : -1;
+
+  if (index === state.index && sameIds(order, state.order)) return state;
+  return { ...state, order, index };
+};
+
+// For tracks deleted from the library entirely
+export const removeFromQueue = (state: QueueState, songId: string): QueueState => ({
+  ...state,
+  upNext: state.upNext.filter(id => id !== songId),
+  history: state.history.filter(id => id !== songId),
+  currentId: state.currentId === songId ? null : state.currentId,
+});
+
+// For songs whose id changed (see services/songIdentity.ts), keyed old -> new
+export const renameInQueue = (state: QueueState, renamed: Map<string, string>): QueueState => {
+  const rename = (id: string) => renamed.get(id) ?? id;
+  return {
+    ...state,
+    order: state.order.map(rename),
+    upNext: state.upNext.map(rename),
+    history: state.history.map(rename),
+    currentId: state.currentId && rename(state.currentId),
+  };
+};
+
+export const stop = (state: QueueState): QueueState => ({ ...state, currentId: null });
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const restoreQueue = (value: unknown): PersistedQueue | null => {
+  if (!value || typeof value !== 'object') return null;
+  const queue = value as Partial<PersistedQueue>;
+  if ((queue.source !== 'playlist' && queue.source !== 'library')
+    || !isStringList(queue.order) || !isStringList(queue.upNext) || !isStringList(queue.history)
+    || typeof queue.index !== 'number' || typeof queue.shuffle !== 'boolean'
+    || (queue.repeat !== 'off' && queue.repeat !== 'all' && queue.repeat !== 'one')
+    || (queue.currentId !== null && typeof queue.currentId !== 'string')) {
+    return null;
+  }
+  return {
+    source: queue.source,
+    order: queue.order,
+    index: Math.max(-1, Math.min(queue.index, queue.order.length - 1)),
+    upNext: queue.upNext,
+    history: queue.history.slice(-MAX_HISTORY),
+    currentId: queue.currentId,
+    shuffle: queue.shuffle,
+    repeat: queue.repeat,
+    position: typeof queue.position === 'number' && queue.position > 0 ? queue.position : 0,
+  };
+};
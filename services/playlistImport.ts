@@ -0,0 +1,76 @@
+import type { Playlist, Song } from '../types';
+import { songNameForFile } from '../utils/audioFile';
+import { loadPlaylist } from './schema';
+
+// Reading playlists exported with "Export", and matching dropped audio files
+// back to the songs they reference.
+
+export interface CandidateFile {
+  file: File;
+  duration: number;
+}
+
+export interface RelinkMatch {
+  song: Song;
+  file: File;
+}
+
+export interface RelinkResult {
+  matches: RelinkMatch[];
+  unmatchedSongs: Song[];
+  unmatchedFiles: File[];
+}
+
+const DURATION_TOLERANCE = 1; // seconds
+const MIN_MATCH_SCORE = 3;
+
+export const parsePlaylistFile = (text: string): Playlist => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const playlist = loadPlaylist(parsed);
+  // Exports never contain playable audio; strip anything that claims to
+  return {
+    ...playlist,
+    songs: playlist.songs.map(({ url, file, analyzing, ...song }) => song as Song),
+  };
+};
+
+// Higher is a better match. The file the song was uploaded from (same name and
+// size) always wins.
+const scoreMatch = (song: Song, candidate: CandidateFile): number => {
+  if (song.fileName === candidate.file.name && song.fileSize === candidate.file.size) return Infinity;
+  let score = 0;
+  const candidateName = songNameForFile(candidate.file).toLowerCase();
+  if (song.fileName?.toLowerCase() === candidate.file.name.toLowerCase()) score += 2;
+  if (song.fileSize === candidate.file.size) score += 2;
+  if (candidateName === song.name.toLowerCase()) score += 2;
+  if (candidate.duration > 0 && Math.abs(candidate.duration - song.duration) <= DURATION_TOLERANCE) score += 2;
+  return score;
+};
+
+// Greedily pairs each missing song with its best-scoring unused file
+export const matchFilesToSongs = (songs: Song[], candidates: CandidateFile[]): RelinkResult => {
+  const pairs = songs.flatMap(song => candidates.map(candidate => ({ song, candidate, score: scoreMatch(song, candidate) })))
+    .filter(pair => pair.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const matchedSongIds = new Set<string>();
+  const usedFiles = new Set<File>();
+  const matches: RelinkMatch[] = [];
+  pairs.forEach(({ song, candidate }) => {
+    if (matchedSongIds.has(song.id) || usedFiles.has(candidate.file)) return;
+    matchedSongIds.add(song.id);
+    usedFiles.add(candidate.file);
+    matches.push({ song, file: candidate.file });
+  });
+
+  return {
+    matches,
+    unmatchedSongs: songs.filter(song => !matchedSongIds.has(song.id)),
+    unmatchedFiles: candidates.map(c => c.file).filter(file => !usedFiles.has(file)),
+  };
+};
@@ -0,0 +1,152 @@
+import type { Comment, Playlist, PreviewSettings, Song } from '../types';
+import { decodeAudioFile } from './audioAnalysis';
+import { encodeOggOpus, encodeWav, isOpusEncodingSupported } from './audioEncoding';
+import { markersInClip } from './markers';
+import { readSongAudio } from './shareFormat';
+
+// Client-safe previews: instead of the original files, a share can carry clips
+// rendered in the browser with an OfflineAudioContext. Each clip is a window of
+// the track with a fade out, optionally with the producer's voice tag laid over
+// it, re-encoded small. The originals never leave the producer's machine.
+
+export const VOICE_TAG_AUDIO_ID = 'producer-voice-tag'; // Where the tag recording is kept in the audio store
+
+export const DEFAULT_PREVIEW_SETTINGS: PreviewSettings = { start: 30, length: 30, fadeOut: 3, format: 'opus', bitrate: 96 };
+
+const FADE_IN = 0.05; // Seconds; keeps the cut into the track from clicking
+const VOICE_TAG_LEAD = 2; // Seconds into the clip before the first tag
+const OPUS_SAMPLE_RATE = 48000;
+const WAV_SAMPLE_RATE = 22050; // WAV clips are also mono, to keep them small
+
+export interface RenderedPreview {
+  file: File;
+  start: number; // Seconds into the original
+  length: number;
+}
+
+// Where the clip sits in a track of `duration` seconds
+export const previewWindow = (duration: number, settings: PreviewSettings) => {
+  const length = Math.min(settings.length, duration);
+  return { start: Math.max(0, Math.min(settings.start, duration - length)), length };
+};
+
+export const renderPreview = async (audio: Blob, name: string, settings: PreviewSettings, voiceTag?: Blob): Promise<RenderedPreview> => {
+  const format = settings.format === 'opus' && await isOpusEncodingSupported() ? 'opus' : 'wav';
+  const sampleRate = format === 'opus' ? OPUS_SAMPLE_RATE : WAV_SAMPLE_RATE;
+  const source = await decodeAudioFile(audio, sampleRate);
+  const tag = voiceTag && settings.voiceTag ? await decodeAudioFile(voiceTag, sampleRate) : undefined;
+  const { start, length } = previewWindow(source.duration, settings);
+
+  const channels = format === 'opus' ? Math.min(2, source.numberOfChannels) : 1;
+  const context = new OfflineAudioContext(channels, Math.max(1, Math.ceil(length * sampleRate)), sampleRate);
+  const track = context.createBufferSource();
+  track.buffer = source;
+  const envelope = context.createGain();
+  const fadeOut = Math.min(settings.fadeOut, length / 2);
+  envelope.gain.setValueAtTime(0, 0);
+  envelope.gain.linearRampToValueAtTime(1, Math.min(FADE_IN, length));
+  if (fadeOut > 0) {
+    envelope.gain.setValueAtTime(1, length - fadeOut);
+    envelope.gain.linearRampToValueAtTime(0, length);
+  }
+  track.connect(envelope).connect(context.destination);
+  track.start(0, start, length);
+
+  if (tag && settings.voiceTag) {
+    const level = context.createGain();
+    level.gain.value = settings.voiceTag.volume;
+    level.connect(context.destination);
+    // A clip shorter than the lead still gets one tag, as early as it fits
+    const interval = Math.max(settings.voiceTag.interval, tag.duration + 1);
+    for (let at = Math.max(0, Math.min(VOICE_TAG_LEAD, length - tag.duration)); at < length; at += interval) {
+      const voice = context.createBufferSource();
+      voice.buffer = tag;
+      voice.connect(level);
+      voice.start(at);
+    }
+  }
+
+  const rendered = await context.startRendering();
+  const blob = format === 'opus' ? await encodeOggOpus(rendered, settings.bitrate * 1000) : encodeWav(rendered);
+  const baseName = name.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'track';
+  return { file: new File([blob], `${baseName}_preview.${format === 'opus' ? 'ogg' : 'wav'}`, { type: blob.type }), start, length };
+};
+
+// Moves a comment onto the clip's timeline. Comments on moments outside the
+// clip keep their text but lose their timestamp.
+const commentInClip = ({ timestamp, endTimestamp, ...comment }: Comment, start: number, length: number): Comment => {
+  if (timestamp === undefined || timestamp < start || timestamp > start + length) return comment;
+  return {
+    ...comment,
+    timestamp: timestamp - start,
+    ...(endTimestamp !== undefined && { endTimestamp: Math.min(endTimestamp, start + length) - start }),
+  };
+};
+
+// The song as the client receives it: the clip's audio and duration, the
+// matching stretch of the waveform, and comments and markers on the clip's timeline
+const previewSong = (song: Song, preview: RenderedPreview | undefined): Song => {
+  // A track whose preview failed is shared without audio, never as the original
+  if (!preview) return { ...song, file: undefined, url: undefined };
+  const { start, length } = preview;
+  const peaks = song.peaks && song.duration > 0
+    ? song.peaks.slice(Math.floor((start / song.duration) * song.peaks.length), Math.ceil(((start + length) / song.duration) * song.peaks.length))
+    : undefined;
+  return {
+    ...song,
+    file: preview.file,
+    url: undefined,
+    duration: length,
+    previewOffset: start,
+    peaks: peaks?.length ? peaks : undefined,
+    comments: song.comments?.map(comment => commentInClip(comment, start, length)),
+    markers: song.markers && markersInClip(song.markers, start, length, song.duration),
+  };
+};
+
+// Swaps every track's audio (and any shared versions') for a rendered preview.
+// `cache` keeps renders between calls, so changing an unrelated share option
+// doesn't render everything again; clear it when the voice tag changes.
+// Rendering stops between tracks once `isCancelled` returns true, and the
+// result is then null.
+export const createPreviewPlaylist = async (
+  playlist: Playlist,
+  settings: PreviewSettings,
+  voiceTag: Blob | undefined,
+  cache: Map<string, Promise<RenderedPreview>>,
+  isCancelled: () => boolean = () => false,
+): Promise<{ playlist: Playlist; failed: number } | null> => {
+  let failed = 0;
+  const render = async (song: Song) => {
+    const key = `${song.id}|${JSON.stringify(settings)}`;
+    if (!cache.has(key)) {
+      cache.set(key, (async () => {
+        const audio = await readSongAudio(song);
+        if (!audio) throw new Error('No audio to preview.');
+        return renderPreview(audio, song.name, settings, voiceTag);
+      })());
+    }
+    try {
+      return previewSong(song, await cache.get(key)!);
+    } catch (error) {
+      console.error(`Failed to render preview for: ${song.name}`, error);
+      cache.delete(key);
+      if (song.file || song.url) failed++;
+      return previewSong(song, undefined);
+    }
+  };
+  // One at a time, since each render holds a whole decoded track in memory
+  const renderAll = async (list: Song[]) => {
+    const rendered: Song[] = [];
+    for (const song of list) {
+      if (isCancelled()) return null;
+      rendered.push(await render(song));
+    }
+    return rendered;
+  };
+  const songs = await renderAll(playlist.songs);
+  if (!songs) return null;
+  const versions = playlist.versions && await renderAll(playlist.versions);
+  if (versions === null || isCancelled()) return null;
+  return { playlist: { ...playlist, songs, ...(versions && { versions }) }, failed };
+};
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, loadPlaylist, loadPlaylists, loadSongs, SchemaError } from './schema';
+import type { Playlist } from '../types';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// As stored before schema versioning: numeric BPM, bare string comments, `${name}-${size}` ids
+const v1Song = { id: 'beat.mp3-1024', name: 'Beat', duration: 120, bpm: 140, comments: ['Love the drop'], analyzing: true };
+
+describe('loadSongs', () => {
+  it('migrates a v1 library to the current version', () => {
+    expect(loadSongs([v1Song], 1)).toEqual([{
+      id: 'beat.mp3-1024',
+      name: 'Beat',
+      duration: 120,
+      bpm: '140',
+      comments: [{ text: 'Love the drop' }],
+      fileName: 'beat.mp3',
+      fileSize: 1024,
+    }]);
+  });
+
+  it('leaves current-version songs unchanged, apart from transient state', () => {
+    const song = { id: 'abc123', name: 'Beat', duration: 120, bpm: '140', fileName: 'beat.mp3', comments: [{ text: 'Nice', timestamp: 12 }] };
+
+    expect(loadSongs([{ ...song, analyzing: true }], CURRENT_SCHEMA_VERSION)).toEqual([song]);
+  });
+
+  it('rejects malformed songs with every problem listed', () => {
+    const load = () => loadSongs([{ id: 7, name: 'Beat', duration: '2:00' }], CURRENT_SCHEMA_VERSION);
+
+    expect(load).toThrow(SchemaError);
+    try {
+      load();
+    } catch (error) {
+      expect((error as SchemaError).errors).toEqual(['songs[0].id must be a string.', 'songs[0].duration must be a number.']);
+    }
+  });
+
+  it('rejects a library that is not a list', () => {
+    expect(() => loadSongs({ songs: [] }, CURRENT_SCHEMA_VERSION)).toThrow(SchemaError);
+  });
+});
+
+describe('loadPlaylist', () => {
+  it('migrates a v1 playlist, its songs and versions, and stamps the current version', () => {
+    const playlist = loadPlaylist({ id: 'p', name: 'Tape', songs: [v1Song], versions: [v1Song] });
+
+    expect(playlist.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(playlist.songs[0]).toMatchObject({ bpm: '140', comments: [{ text: 'Love the drop' }], fileName: 'beat.mp3' });
+    expect(playlist.songs[0].analyzing).toBeUndefined();
+    expect(playlist.versions?.[0].bpm).toBe('140');
+  });
+
+  it('leaves current-version playlists unchanged', () => {
+    const playlist: Playlist = {
+      id: 'p',
+      name: 'Tape',
+      crossfade: 4,
+      songs: [{ id: 'abc123', name: 'Beat', duration: 120, markers: [{ id: 'm', label: 'Hook', time: 30, section: 'hook' }] }],
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    };
+
+    expect(loadPlaylist(structuredClone(playlist))).toEqual(playlist);
+  });
+
+  it('rejects malformed playlists, as from a tampered share link', () => {
+    expect(() => loadPlaylist('not a playlist')).toThrow(SchemaError);
+    expect(() => loadPlaylist({ id: 'p', name: 'Tape', songs: 'none' })).toThrow('playlist.songs must be a list.');
+    expect(() => loadPlaylist({ id: 'p', name: 'Tape', songs: [{ id: 's', name: 'Beat', duration: 1, markers: [{ id: 'm', label: 'x', time: 1, section: 'chorus' }] }] }))
+      .toThrow(SchemaError);
+  });
+
+  it('refuses data from a newer version of the app', () => {
+    expect(() => loadPlaylist({ id: 'p', name: 'Tape', songs: [], schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(SchemaError);
+  });
+});
+
+describe('loadPlaylists', () => {
+  it('skips damaged playlists and keeps the rest', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { playlists, rejected } = loadPlaylists([{ id: 'p', name: 'Tape', songs: [] }, { id: 'q', songs: [] }]);
+    expect(playlists.map(p => p.id)).toEqual(['p']);
+    expect(rejected).toBe(1);
+  });
+});
@@ -0,0 +1,321 @@
+import type { LibraryFilterPreset, Playlist, ProducerProfile, SectionKind, Song } from '../types';
+import { SECTION_KINDS } from './markers';
+
+// Runtime validation and versioned migrations for everything we read back in:
+// localStorage, exported files and share payloads. Records without a
+// schemaVersion predate versioning and are treated as version 1.
+//
+// To change the stored shape: bump CURRENT_SCHEMA_VERSION, add a step to
+// `songMigrations` and/or `playlistMigrations` that upgrades from the previous
+// version, and update the validators below to match types.ts.
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export class SchemaError extends Error {
+  constructor(public errors: string[]) {
+    super(errors.slice(0, 3).join(' '));
+    this.name = 'SchemaError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+type Migration = (record: UnknownRecord) => UnknownRecord;
+
+const isRecord = (value: unknown): value is UnknownRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// --- Migrations -------------------------------------------------------------
+
+// Keyed by the version they upgrade *from*
+const songMigrations: Record<number, Migration> = {
+  // v1 -> v2: older AI responses stored BPM as a number and comments as bare strings
+  1: song => ({
+    ...song,
+    bpm: typeof song.bpm === 'number' ? String(song.bpm) : song.bpm,
+    comments: Array.isArray(song.comments)
+      ? song.comments.map(comment => typeof comment === 'string' ? { text: comment } : comment)
+      : song.comments,
+  }),
+  // v2 -> v3: ids became content hashes, so the file name and size that the old
+  // `${name}-${size}` ids carried are kept as fields of their own for relinking
+  2: song => {
+    const legacyId = typeof song.id === 'string' ? song.id.match(/^(.+)-(\d+)$/) : null;
+    return legacyId && song.fileName === undefined
+      ? { ...song, fileName: legacyId[1], fileSize: Number(legacyId[2]) }
+      : song;
+  },
+};
+
+// No playlist-level changes so far; song changes are applied to each track
+const playlistMigrations: Record<number, Migration> = {};
+
+const runMigrations = (record: UnknownRecord, fromVersion: number, migrations: Record<number, Migration>) => {
+  let migrated = record;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    migrated = migrations[version]?.(migrated) ?? migrated;
+  }
+  return migrated;
+};
+
+const readVersion = (value: unknown, fallback: number): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) return fallback;
+  if (value > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaError([`This data was created by a newer version of the app (schema ${value}).`]);
+  }
+  return value;
+};
+
+export const migrateSong = (value: unknown, fromVersion: number): unknown =>
+  isRecord(value) ? runMigrations(value, fromVersion, songMigrations) : value;
+
+export const migratePlaylist = (value: unknown): unknown => {
+  if (!isRecord(value)) return value;
+  const fromVersion = readVersion(value.schemaVersion, 1);
+  const migrated = runMigrations(value, fromVersion, playlistMigrations);
+  return {
+    ...migrated,
+    songs: Array.isArray(migrated.songs) ? migrated.songs.map(song => migrateSong(song, fromVersion)) : migrated.songs,
+    ...(Array.isArray(migrated.versions) && { versions: migrated.versions.map(song => migrateSong(song, fromVersion)) }),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  };
+};
+
+// --- Validators -------------------------------------------------------------
+
+const checkOptional = (errors: string[], record: UnknownRecord, field: string, path: string, test: (value: unknown) => boolean, expected: string) => {
+  if (record[field] !== undefined && !test(record[field])) {
+    errors.push(`${path}.${field} must be ${expected}.`);
+  }
+};
+
+const isString = (value: unknown) => typeof value === 'string';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(isString);
+const isNumberArray = (value: unknown) => Array.isArray(value) && value.every(isNumber);
+
+export const validateComment = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  if (!isString(value.text)) errors.push(`${path}.text must be a string.`);
+  checkOptional(errors, value, 'id', path, isString, 'a string');
+  checkOptional(errors, value, 'author', path, isString, 'a string');
+  checkOptional(errors, value, 'createdAt', path, isNumber, 'a number');
+  checkOptional(errors, value, 'unread', path, isBoolean, 'a boolean');
+  checkOptional(errors, value, 'timestamp', path, isNumber, 'a number');
+  checkOptional(errors, value, 'endTimestamp', path, isNumber, 'a number');
+  return errors;
+};
+
+export const validateMarker = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  if (!isString(value.id)) errors.push(`${path}.id must be a string.`);
+  if (!isString(value.label)) errors.push(`${path}.label must be a string.`);
+  if (!isNumber(value.time)) errors.push(`${path}.time must be a number.`);
+  checkOptional(errors, value, 'section', path, v => SECTION_KINDS.includes(v as SectionKind), `one of ${SECTION_KINDS.join(', ')}`);
+  checkOptional(errors, value, 'endTime', path, isNumber, 'a number');
+  return errors;
+};
+
+export const validateSong = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  if (!isString(value.id)) errors.push(`${path}.id must be a string.`);
+  if (!isString(value.name)) errors.push(`${path}.name must be a string.`);
+  if (!isNumber(value.duration)) errors.push(`${path}.duration must be a number.`);
+  ['fileName', 'artist', 'album', 'artwork', 'url', 'bpm', 'genre', 'key', 'mood', 'versionGroup', 'versionLabel'].forEach(field => checkOptional(errors, value, field, path, isString, 'a string'));
+  ['fileSize', 'addedAt', 'bpmConfidence', 'keyConfidence', 'previewOffset', 'loudness', 'truePeak', 'loudnessRange'].forEach(field => checkOptional(errors, value, field, path, isNumber, 'a number'));
+  ['taggedFields', 'instrumentation', 'genreTags'].forEach(field => checkOptional(errors, value, field, path, isStringArray, 'a list of strings'));
+  ['fingerprint', 'peaks'].forEach(field => checkOptional(errors, value, field, path, isNumberArray, 'a list of numbers'));
+  checkOptional(errors, value, 'supersededVersion', path, isBoolean, 'a boolean');
+  if (value.comments !== undefined) {
+    if (!Array.isArray(value.comments)) {
+      errors.push(`${path}.comments must be a list.`);
+    } else {
+      value.comments.forEach((comment, i) => errors.push(...validateComment(comment, `${path}.comments[${i}]`)));
+    }
+  }
+  if (value.markers !== undefined) {
+    if (!Array.isArray(value.markers)) {
+      errors.push(`${path}.markers must be a list.`);
+    } else {
+      value.markers.forEach((marker, i) => errors.push(...validateMarker(marker, `${path}.markers[${i}]`)));
+    }
+  }
+  return errors;
+};
+
+export const validateProducerProfile = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) return [`${path} must be an object.`];
+  return ['name', 'contactInfo', 'bio']
+    .filter(field => !isString(value[field]))
+    .map(field => `${path}.${field} must be a string.`);
+};
+
+const SORT_FIELDS = ['added', 'name', 'bpm', 'key', 'duration'];
+
+const isSort = (value: unknown) =>
+  isRecord(value) && SORT_FIELDS.includes(value.field as string) && (value.direction === 'asc' || value.direction === 'desc');
+
+const validateSmartRule = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  switch (value.type) {
+    case 'tag':
+    case 'genre':
+    case 'mood':
+      if (!isString(value.value)) errors.push(`${path}.value must be a string.`);
+      break;
+    case 'bpm':
+      checkOptional(errors, value, 'min', path, isNumber, 'a number');
+      checkOptional(errors, value, 'max', path, isNumber, 'a number');
+      break;
+    case 'compatibleKey':
+      if (!isString(value.key)) errors.push(`${path}.key must be a string.`);
+      break;
+    case 'addedAfter':
+      if (!isNumber(value.date)) errors.push(`${path}.date must be a number.`);
+      break;
+    case 'noComments':
+      break;
+    default:
+      errors.push(`${path}.type is not a known rule.`);
+  }
+  return errors;
+};
+
+const validateSmartRules = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  if (value.match !== 'all' && value.match !== 'any') errors.push(`${path}.match must be "all" or "any".`);
+  if (!isSort(value.sort)) errors.push(`${path}.sort must be a sort field and direction.`);
+  checkOptional(errors, value, 'limit', path, value => isNumber(value) && (value as number) > 0, 'a positive number');
+  if (!Array.isArray(value.rules)) {
+    errors.push(`${path}.rules must be a list.`);
+  } else {
+    value.rules.forEach((rule, i) => errors.push(...validateSmartRule(rule, `${path}.rules[${i}]`)));
+  }
+  return errors;
+};
+
+const validatePreviewSettings = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  const isPositive = (v: unknown) => isNumber(v) && (v as number) > 0;
+  const isNonNegative = (v: unknown) => isNumber(v) && (v as number) >= 0;
+  if (!isNonNegative(value.start)) errors.push(`${path}.start must be a non-negative number.`);
+  if (!isPositive(value.length)) errors.push(`${path}.length must be a positive number.`);
+  if (!isNonNegative(value.fadeOut)) errors.push(`${path}.fadeOut must be a non-negative number.`);
+  if (value.format !== 'opus' && value.format !== 'wav') errors.push(`${path}.format must be "opus" or "wav".`);
+  if (!isPositive(value.bitrate)) errors.push(`${path}.bitrate must be a positive number.`);
+  if (value.voiceTag !== undefined) {
+    if (!isRecord(value.voiceTag)) {
+      errors.push(`${path}.voiceTag must be an object.`);
+    } else {
+      if (!isPositive(value.voiceTag.interval)) errors.push(`${path}.voiceTag.interval must be a positive number.`);
+      if (!isNonNegative(value.voiceTag.volume)) errors.push(`${path}.voiceTag.volume must be a non-negative number.`);
+    }
+  }
+  return errors;
+};
+
+export const validatePlaylist = (value: unknown, path = 'playlist'): string[] => {
+  if (!isRecord(value)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  if (!isString(value.id)) errors.push(`${path}.id must be a string.`);
+  if (!isString(value.name)) errors.push(`${path}.name must be a string.`);
+  checkOptional(errors, value, 'expiresAt', path, isNumber, 'a number');
+  checkOptional(errors, value, 'password', path, isString, 'a string');
+  checkOptional(errors, value, 'crossfade', path, value => isNumber(value) && (value as number) >= 0, 'a non-negative number');
+  checkOptional(errors, value, 'loudnessMatch', path, isBoolean, 'a boolean');
+  checkOptional(errors, value, 'schemaVersion', path, isNumber, 'a number');
+  if (value.producerProfile !== undefined) {
+    errors.push(...validateProducerProfile(value.producerProfile, `${path}.producerProfile`));
+  }
+  if (value.smart !== undefined) {
+    errors.push(...validateSmartRules(value.smart, `${path}.smart`));
+  }
+  if (value.preview !== undefined) {
+    errors.push(...validatePreviewSettings(value.preview, `${path}.preview`));
+  }
+  if (!Array.isArray(value.songs)) {
+    errors.push(`${path}.songs must be a list.`);
+  } else {
+    value.songs.forEach((song, i) => errors.push(...validateSong(song, `${path}.songs[${i}]`)));
+  }
+  if (value.versions !== undefined) {
+    if (!Array.isArray(value.versions)) {
+      errors.push(`${path}.versions must be a list.`);
+    } else {
+      value.versions.forEach((song, i) => errors.push(...validateSong(song, `${path}.versions[${i}]`)));
+    }
+  }
+  return errors;
+};
+
+export const validateFilterPreset = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) return [`${path} must be an object.`];
+  const errors = ['id', 'name', 'query']
+    .filter(field => !isString(value[field]))
+    .map(field => `${path}.${field} must be a string.`);
+  if (!isSort(value.sort)) errors.push(`${path}.sort must be a sort field and direction.`);
+  return errors;
+};
+
+// --- Loaders: migrate, then validate ---------------------------------------
+
+// `analyzing` is transient UI state; if it was persisted mid-analysis the
+// spinner would otherwise never clear
+const withoutTransientState = <T extends Song>({ analyzing, ...song }: T): Song => song;
+
+export const loadPlaylist = (value: unknown): Playlist => {
+  const migrated = migratePlaylist(value);
+  const errors = validatePlaylist(migrated);
+  if (errors.length > 0) throw new SchemaError(errors);
+  const playlist = migrated as Playlist;
+  return {
+    ...playlist,
+    songs: playlist.songs.map(withoutTransientState),
+    ...(playlist.versions && { versions: playlist.versions.map(withoutTransientState) }),
+  };
+};
+
+export const loadSongs = (value: unknown, fromVersion: number): Song[] => {
+  if (!Array.isArray(value)) throw new SchemaError(['Song library must be a list.']);
+  const migrated = value.map(song => migrateSong(song, readVersion(fromVersion, 1)));
+  const errors = migrated.flatMap((song, i) => validateSong(song, `songs[${i}]`));
+  if (errors.length > 0) throw new SchemaError(errors);
+  return (migrated as Song[]).map(withoutTransientState);
+};
+
+export const loadProducerProfile = (value: unknown): ProducerProfile => {
+  const errors = validateProducerProfile(value, 'producerProfile');
+  if (errors.length > 0) throw new SchemaError(errors);
+  return value as ProducerProfile;
+};
+
+// Each playlist is loaded on its own so one damaged entry doesn't lose the rest
+export const loadPlaylists = (value: unknown): { playlists: Playlist[]; rejected: number } => {
+  if (!Array.isArray(value)) throw new SchemaError(['Saved playlists must be a list.']);
+  const playlists: Playlist[] = [];
+  let rejected = 0;
+  value.forEach(entry => {
+    try {
+      playlists.push(loadPlaylist(entry));
+    } catch (error) {
+      console.error("Skipping invalid saved playlist:", error);
+      rejected++;
+    }
+  });
+  return { playlists, rejected };
+};
+
+// Presets are independent, so damaged ones are dropped rather than failing the lot
+export const loadFilterPresets = (value: unknown): LibraryFilterPreset[] => {
+  if (!Array.isArray(value)) throw new SchemaError(['Filter presets must be a list.']);
+  return value.filter((preset, i) => {
+    const errors = validateFilterPreset(preset, `presets[${i}]`);
+    if (errors.length > 0) console.error("Skipping invalid filter preset:", errors);
+    return errors.length === 0;
+  });
+};
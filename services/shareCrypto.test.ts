@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { decryptBytes, encryptBytes, IncorrectPasswordError } from './shareCrypto';
+
+describe('encryptBytes / decryptBytes', () => {
+  it('round-trips the bytes', async () => {
+    const plaintext = Uint8Array.from({ length: 1000 }, (_, i) => i % 256);
+    const { header, ciphertext } = await encryptBytes(plaintext, 'hunter2', 'DJ Test');
+
+    expect(header.producerName).toBe('DJ Test');
+    expect(ciphertext).not.toEqual(plaintext);
+    expect(await decryptBytes(header, ciphertext, 'hunter2')).toEqual(plaintext);
+  });
+
+  it('rejects a wrong password', async () => {
+    const { header, ciphertext } = await encryptBytes(new TextEncoder().encode('secret'), 'hunter2');
+
+    await expect(decryptBytes(header, ciphertext, 'hunter3')).rejects.toBeInstanceOf(IncorrectPasswordError);
+  });
+});
@@ -0,0 +1,98 @@
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+// Password-protected shares carry the whole playlist (audio included)
+// encrypted with AES-GCM. The key is derived from the password with PBKDF2,
+// so only the small header below is readable without the password.
+
+export const ENCRYPTED_ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 250000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptionHeader {
+  version: number;
+  encrypted: true;
+  salt: string; // base64
+  iv: string; // base64
+  iterations: number;
+  producerName?: string;
+}
+
+// JSON form used by share links created before the binary share format
+export interface EncryptedPlaylistEnvelope extends EncryptionHeader {
+  ciphertext: string; // base64
+}
+
+export class IncorrectPasswordError extends Error {
+  constructor() {
+    super('Incorrect password');
+    this.name = 'IncorrectPasswordError';
+  }
+}
+
+export const isEncryptionHeader = (value: unknown): value is EncryptionHeader => {
+  if (!value || typeof value !== 'object') return false;
+  const header = value as Partial<EncryptionHeader>;
+  return header.encrypted === true
+    && typeof header.version === 'number'
+    && typeof header.salt === 'string'
+    && typeof header.iv === 'string';
+};
+
+export const isEncryptedEnvelope = (value: unknown): value is EncryptedPlaylistEnvelope =>
+  isEncryptionHeader(value) && typeof (value as Partial<EncryptedPlaylistEnvelope>).ciphertext === 'string';
+
+const deriveKey = async (password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptBytes = async (
+  plaintext: Uint8Array,
+  password: string,
+  producerName?: string
+): Promise<{ header: EncryptionHeader; ciphertext: Uint8Array }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+  return {
+    header: {
+      version: ENCRYPTED_ENVELOPE_VERSION,
+      encrypted: true,
+      salt: bytesToBase64(salt),
+      iv: bytesToBase64(iv),
+      iterations: PBKDF2_ITERATIONS,
+      producerName: producerName || undefined,
+    },
+    ciphertext: new Uint8Array(ciphertext),
+  };
+};
+
+export const decryptBytes = async (header: EncryptionHeader, ciphertext: Uint8Array, password: string): Promise<Uint8Array> => {
+  if (header.version > ENCRYPTED_ENVELOPE_VERSION) {
+    throw new Error(`Unsupported encrypted link version: ${header.version}`);
+  }
+  const key = await deriveKey(password, base64ToBytes(header.salt), header.iterations || PBKDF2_ITERATIONS);
+
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(header.iv) }, key, ciphertext);
+    return new Uint8Array(plaintext);
+  } catch {
+    // AES-GCM authentication fails when the key (i.e. the password) is wrong
+    throw new IncorrectPasswordError();
+  }
+};
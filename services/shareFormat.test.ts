@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToBase64, textToBase64 } from './encoding';
+import { encryptBytes, IncorrectPasswordError } from './shareCrypto';
+import { decodeShareBundle, decodeShareHash, encodeShareBundle, encryptShareBundle, shareBundleToHash, unlockShare } from './shareFormat';
+import type { Playlist } from '../types';
+
+const playlist: Playlist = {
+  id: 'playlist-1',
+  name: 'Beat tape',
+  songs: [{ id: 'song-1', name: 'Night drive', duration: 184, comments: [] }],
+};
+
+describe('share links', () => {
+  it('round-trips a plain bundle through the hash', async () => {
+    const hash = shareBundleToHash(await encodeShareBundle(playlist));
+    const decoded = await decodeShareHash(hash);
+
+    expect(decoded.kind).toBe('playlist');
+    if (decoded.kind === 'playlist') expect(decoded.playlist.songs[0].name).toBe('Night drive');
+  });
+
+  it('unlocks an encrypted bundle with the right password only', async () => {
+    const bundle = await encryptShareBundle(await encodeShareBundle(playlist), 'hunter2', 'DJ Test');
+    const decoded = await decodeShareBundle(bundle);
+    if (decoded.kind !== 'encrypted') throw new Error('Expected an encrypted share');
+
+    expect(decoded.share.header.producerName).toBe('DJ Test');
+    await expect(unlockShare(decoded.share, 'wrong')).rejects.toBeInstanceOf(IncorrectPasswordError);
+    expect((await unlockShare(decoded.share, 'hunter2')).name).toBe('Beat tape');
+  });
+
+  it('decodes legacy unencrypted JSON links', async () => {
+    const decoded = await decodeShareHash(textToBase64(JSON.stringify(playlist)));
+
+    expect(decoded).toEqual({ kind: 'playlist', playlist });
+  });
+
+  it('decodes and unlocks legacy encrypted JSON envelopes', async () => {
+    const { header, ciphertext } = await encryptBytes(new TextEncoder().encode(JSON.stringify(playlist)), 'hunter2');
+    const hash = textToBase64(JSON.stringify({ ...header, ciphertext: bytesToBase64(ciphertext) }));
+    const decoded = await decodeShareHash(hash);
+    if (decoded.kind !== 'encrypted') throw new Error('Expected an encrypted share');
+
+    expect(decoded.share.format).toBe('json');
+    expect(await unlockShare(decoded.share, 'hunter2')).toEqual(playlist);
+  });
+});
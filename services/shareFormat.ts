@@ -0,0 +1,257 @@
+import type { Playlist, Song } from '../types';
+import { base64ToBytes, base64ToText, base64UrlToBytes, bytesToBase64Url, compressBytes, decompressBytes } from './encoding';
+import { decryptBytes, encryptBytes, isEncryptedEnvelope, isEncryptionHeader } from './shareCrypto';
+import type { EncryptionHeader } from './shareCrypto';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+
+// Binary share bundle (format version 2). Used both in share link hashes
+// (prefixed with BUNDLE_HASH_PREFIX) and as downloadable .playlist files.
+//
+//   "PLHB" | version u8 | flags u8 | body
+//
+// Plain body:     metaLength u32 | gzip(meta JSON) | chunkCount u32 | (length u32 | audio bytes)*
+// Encrypted body: headerLength u32 | header JSON | AES-GCM ciphertext of a complete plain bundle
+//
+// Audio is kept as raw bytes so it isn't inflated by base64-in-JSON; only the
+// bundle as a whole is base64url-encoded when it goes into a URL.
+//
+// Links from before this format hold base64 JSON (a Playlist, or an encrypted
+// envelope) directly in the hash and are still decoded here.
+
+const MAGIC = [0x50, 0x4c, 0x48, 0x42]; // "PLHB"
+export const SHARE_BUNDLE_VERSION = 2;
+export const BUNDLE_HASH_PREFIX = 'pl2.';
+export const BUNDLE_FILE_EXTENSION = '.playlist';
+const FLAG_ENCRYPTED = 0x01;
+
+interface BundleMeta {
+  playlist: Playlist;
+  audio: Record<string, { chunk: number; mimeType: string }>;
+}
+
+export interface EncryptedShare {
+  header: EncryptionHeader;
+  ciphertext: Uint8Array;
+  format: 'json' | 'bundle';
+}
+
+export type DecodedShare =
+  | { kind: 'playlist'; playlist: Playlist }
+  | { kind: 'encrypted'; share: EncryptedShare };
+
+export class InvalidShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidShareError';
+  }
+}
+
+class ByteWriter {
+  private parts: Uint8Array[] = [];
+  private length = 0;
+
+  bytes(bytes: Uint8Array) {
+    this.parts.push(bytes);
+    this.length += bytes.length;
+  }
+
+  uint8(value: number) {
+    this.bytes(Uint8Array.of(value));
+  }
+
+  uint32(value: number) {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    this.bytes(bytes);
+  }
+
+  toBytes(): Uint8Array {
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    for (const part of this.parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.data.length) {
+      throw new InvalidShareError('Share bundle is truncated.');
+    }
+  }
+
+  uint8(): number {
+    this.ensure(1);
+    return this.data[this.offset++];
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.ensure(length);
+    const slice = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  rest(): Uint8Array {
+    return this.bytes(this.data.length - this.offset);
+  }
+}
+
+export const readSongAudio = async (song: Song): Promise<Blob | undefined> => {
+  if (song.file) return song.file;
+  if (song.url) {
+    // Works for both object URLs and data URLs from older shares
+    const response = await fetch(song.url);
+    return response.blob();
+  }
+  return undefined;
+};
+
+// Serializes a playlist and its audio into an unencrypted bundle
+export const encodeShareBundle = async (playlist: Playlist): Promise<Uint8Array> => {
+  const chunks: Uint8Array[] = [];
+  const audio: BundleMeta['audio'] = {};
+
+  const packSongs = async (list: Song[]) => {
+    const blobs = await Promise.all(list.map(async (song) => {
+      try {
+        const blob = await readSongAudio(song);
+        return blob && { blob, bytes: new Uint8Array(await blob.arrayBuffer()) };
+      } catch (error) {
+        console.error(`Failed to read audio for song: ${song.name}`, error);
+        return undefined;
+      }
+    }));
+
+    return list.map((song, index) => {
+      // The fingerprint only matters for spotting duplicates in the producer's own library
+      const { file, analyzing, url, fingerprint, ...restOfSong } = song;
+      const read = blobs[index];
+      if (read) {
+        audio[song.id] = { chunk: chunks.length, mimeType: read.blob.type || 'audio/mpeg' };
+        chunks.push(read.bytes);
+      }
+      return restOfSong as Song;
+    });
+  };
+
+  const songs = await packSongs(playlist.songs);
+  const versions = playlist.versions && await packSongs(playlist.versions);
+
+  // Clients get the tracks, not the rules that picked them or the preview settings
+  const meta: BundleMeta = { playlist: { ...playlist, password: undefined, smart: undefined, preview: undefined, songs, versions, schemaVersion: CURRENT_SCHEMA_VERSION }, audio };
+  const compressedMeta = await compressBytes(new TextEncoder().encode(JSON.stringify(meta)));
+
+  const writer = new ByteWriter();
+  writer.bytes(Uint8Array.from(MAGIC));
+  writer.uint8(SHARE_BUNDLE_VERSION);
+  writer.uint8(0);
+  writer.uint32(compressedMeta.length);
+  writer.bytes(compressedMeta);
+  writer.uint32(chunks.length);
+  chunks.forEach(chunk => {
+    writer.uint32(chunk.length);
+    writer.bytes(chunk);
+  });
+  return writer.toBytes();
+};
+
+export const encryptShareBundle = async (bundle: Uint8Array, password: string, producerName?: string): Promise<Uint8Array> => {
+  const { header, ciphertext } = await encryptBytes(bundle, password, producerName);
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+
+  const writer = new ByteWriter();
+  writer.bytes(Uint8Array.from(MAGIC));
+  writer.uint8(SHARE_BUNDLE_VERSION);
+  writer.uint8(FLAG_ENCRYPTED);
+  writer.uint32(headerBytes.length);
+  writer.bytes(headerBytes);
+  writer.bytes(ciphertext);
+  return writer.toBytes();
+};
+
+export const isShareBundle = (bytes: Uint8Array): boolean =>
+  bytes.length > MAGIC.length && MAGIC.every((byte, i) => bytes[i] === byte);
+
+export const decodeShareBundle = async (bytes: Uint8Array): Promise<DecodedShare> => {
+  if (!isShareBundle(bytes)) {
+    throw new InvalidShareError('This is not a playlist share file.');
+  }
+  const reader = new ByteReader(bytes);
+  reader.bytes(MAGIC.length);
+  const version = reader.uint8();
+  if (version > SHARE_BUNDLE_VERSION) {
+    throw new InvalidShareError(`Unsupported share format version: ${version}`);
+  }
+  const flags = reader.uint8();
+
+  if (flags & FLAG_ENCRYPTED) {
+    const header: unknown = JSON.parse(new TextDecoder().decode(reader.bytes(reader.uint32())));
+    if (!isEncryptionHeader(header)) {
+      throw new InvalidShareError('Encrypted share header is malformed.');
+    }
+    return { kind: 'encrypted', share: { header, ciphertext: reader.rest(), format: 'bundle' } };
+  }
+
+  const meta: BundleMeta = JSON.parse(new TextDecoder().decode(await decompressBytes(reader.bytes(reader.uint32()))));
+  const chunkCount = reader.uint32();
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < chunkCount; i++) {
+    chunks.push(reader.bytes(reader.uint32()));
+  }
+
+  const withAudio = (song: Song) => {
+    const audio = meta.audio[song.id];
+    if (!audio || !chunks[audio.chunk]) return song;
+    const blob = new Blob([chunks[audio.chunk]], { type: audio.mimeType });
+    return { ...song, url: URL.createObjectURL(blob) };
+  };
+  const songs = meta.playlist.songs.map(withAudio);
+  const versions = meta.playlist.versions?.map(withAudio);
+  return { kind: 'playlist', playlist: { ...meta.playlist, songs, ...(versions && { versions }) } };
+};
+
+export const shareBundleToHash = (bundle: Uint8Array): string => `${BUNDLE_HASH_PREFIX}${bytesToBase64Url(bundle)}`;
+
+// Decodes the part of a share URL after '#', in either the binary or the legacy format
+export const decodeShareHash = async (hash: string): Promise<DecodedShare> => {
+  if (hash.startsWith(BUNDLE_HASH_PREFIX)) {
+    return decodeShareBundle(base64UrlToBytes(hash.substring(BUNDLE_HASH_PREFIX.length)));
+  }
+
+  const decoded: unknown = JSON.parse(base64ToText(hash));
+  if (isEncryptedEnvelope(decoded)) {
+    const { ciphertext, ...header } = decoded;
+    return { kind: 'encrypted', share: { header, ciphertext: base64ToBytes(ciphertext), format: 'json' } };
+  }
+  return { kind: 'playlist', playlist: decoded as Playlist };
+};
+
+export const unlockShare = async (share: EncryptedShare, password: string): Promise<Playlist> => {
+  const plaintext = await decryptBytes(share.header, share.ciphertext, password);
+  if (share.format === 'json') {
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  }
+  const decoded = await decodeShareBundle(plaintext);
+  if (decoded.kind !== 'playlist') {
+    throw new InvalidShareError('Encrypted share contains another encrypted share.');
+  }
+  return decoded.playlist;
+};
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SMART_RULES, evaluateSmartRules } from './smartPlaylist';
+import type { Song } from '../types';
+
+const song = (id: string, addedAt?: number): Song => ({ id, name: id, duration: 120, addedAt });
+
+describe('evaluateSmartRules', () => {
+  it('lists the most recently uploaded songs first by default, whatever order the library is in', () => {
+    const library = [song('b', 2000), song('legacy'), song('c', 3000), song('a', 1000)];
+
+    expect(evaluateSmartRules({ ...DEFAULT_SMART_RULES, limit: 2 }, library).map(s => s.id)).toEqual(['c', 'b']);
+  });
+});
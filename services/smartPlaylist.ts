@@ -0,0 +1,71 @@
+import type { Playlist, SmartPlaylistRules, SmartRule, Song } from '../types';
+import { sortSongs } from './libraryQuery';
+import { areCompatibleKeys, parseKey } from '../utils/musicKey';
+
+// Smart playlists hold rules instead of a hand-picked track list. Their songs
+// are recomputed from the library whenever it changes, and freezing one turns
+// the current result into an ordinary playlist.
+
+export const DEFAULT_SMART_RULES: SmartPlaylistRules = {
+  match: 'all',
+  rules: [],
+  sort: { field: 'added', direction: 'desc' },
+};
+
+const includesText = (value: string | undefined, text: string) =>
+  !!value && value.toLowerCase().includes(text.trim().toLowerCase());
+
+export const matchesRule = (song: Song, rule: SmartRule): boolean => {
+  switch (rule.type) {
+    case 'tag': return !!song.genreTags?.some(tag => includesText(tag, rule.value));
+    case 'genre': return includesText(song.genre, rule.value);
+    case 'mood': return includesText(song.mood, rule.value);
+    case 'bpm': {
+      const bpm = parseFloat(song.bpm || '');
+      return Number.isFinite(bpm) && (rule.min === undefined || bpm >= rule.min) && (rule.max === undefined || bpm <= rule.max);
+    }
+    case 'compatibleKey': {
+      const songKey = parseKey(song.key);
+      const ruleKey = parseKey(rule.key);
+      return !!songKey && !!ruleKey && areCompatibleKeys(songKey, ruleKey);
+    }
+    case 'addedAfter': return song.addedAt !== undefined && song.addedAt > rule.date;
+    case 'noComments': return !song.comments?.length;
+  }
+};
+
+export const evaluateSmartRules = (smart: SmartPlaylistRules, library: Song[]): Song[] => {
+  const matching = library.filter(song => smart.rules.length === 0 || (smart.match === 'all'
+    ? smart.rules.every(rule => matchesRule(song, rule))
+    : smart.rules.some(rule => matchesRule(song, rule))));
+  const sorted = sortSongs(matching, smart.sort);
+  return smart.limit ? sorted.slice(0, smart.limit) : sorted;
+};
+
+// Recomputes a smart playlist's songs. Comments belong to the playlist rather
+// than the library, so they're carried over for songs that are still in it.
+export const refreshSmartPlaylist = (playlist: Playlist, library: Song[]): Playlist => {
+  if (!playlist.smart) return playlist;
+  const previous = new Map(playlist.songs.map(song => [song.id, song]));
+  const songs = evaluateSmartRules(playlist.smart, library).map(song => {
+    const comments = previous.get(song.id)?.comments;
+    return comments ? { ...song, comments } : song;
+  });
+  return { ...playlist, songs };
+};
+
+export const freezePlaylist = ({ smart, ...playlist }: Playlist): Playlist => playlist;
+
+export const describeRule = (rule: SmartRule): string => {
+  switch (rule.type) {
+    case 'tag': return `tagged "${rule.value}"`;
+    case 'genre': return `genre "${rule.value}"`;
+    case 'mood': return `mood "${rule.value}"`;
+    case 'bpm':
+      if (rule.min !== undefined && rule.max !== undefined) return `${rule.min}–${rule.max} BPM`;
+      return rule.min !== undefined ? `at least ${rule.min} BPM` : rule.max !== undefined ? `at most ${rule.max} BPM` : 'any BPM';
+    case 'compatibleKey': return `mixes with ${rule.key}`;
+    case 'addedAfter': return `added after ${new Date(rule.date).toLocaleDateString()}`;
+    case 'noComments': return 'no comments';
+  }
+};
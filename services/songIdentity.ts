@@ -0,0 +1,122 @@
+import type { Song } from '../types';
+import { decodeAudioFile } from './audioAnalysis';
+import { deleteAudio, saveAudio } from './audioStore';
+
+// Library songs are identified by a hash of the uploaded file's bytes, so the
+// same bounce is recognised whatever it's called, and two different bounces
+// that happen to share a name and size no longer collide. A lightweight
+// fingerprint of the decoded audio (its loudness contour) additionally catches
+// the same mix in a different encoding, e.g. a WAV and its MP3.
+//
+// Songs uploaded before this have ids of the form `${file.name}-${file.size}`;
+// see `isLegacySongId`.
+
+const ID_PREFIX = 'sha256-';
+const FINGERPRINT_LENGTH = 64;
+const FINGERPRINT_SAMPLE_RATE = 11025; // The contour doesn't need more
+const NEAR_DUPLICATE_CORRELATION = 0.97;
+const DURATION_TOLERANCE = 1.5; // seconds; encoders pad the start and end differently
+
+export type DuplicateKind = 'identical' | 'similar';
+
+// Merge keeps the library song (filling in anything it lacks), keep adds the
+// upload as a separate song, and replace swaps the upload in for the library
+// song everywhere it's used
+export type DuplicateResolution = 'merge' | 'keep' | 'replace';
+
+export interface DuplicateMatch {
+  song: Song; // The new upload
+  existing: Song; // Already in the library
+  kind: DuplicateKind;
+}
+
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const songIdForFile = async (file: Blob) => `${ID_PREFIX}${(await hashFile(file)).slice(0, 32)}`;
+
+export const isLegacySongId = (songId: string) => !songId.startsWith(ID_PREFIX);
+
+// A second copy of the same file kept alongside the first needs an id of its own
+export const uniqueSongId = (songId: string, takenIds: Set<string>) => {
+  let copy = 2;
+  while (takenIds.has(`${songId}-${copy}`)) copy++;
+  return `${songId}-${copy}`;
+};
+
+// RMS loudness of FINGERPRINT_LENGTH equal slices of the track, normalized to 0..1
+export const computeFingerprint = async (file: Blob): Promise<number[]> => {
+  const buffer = await decodeAudioFile(file, FINGERPRINT_SAMPLE_RATE);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const sliceLength = Math.max(1, Math.floor(buffer.length / FINGERPRINT_LENGTH));
+
+  const energies: number[] = [];
+  for (let slice = 0; slice < FINGERPRINT_LENGTH; slice++) {
+    const start = slice * sliceLength;
+    const end = Math.min(buffer.length, start + sliceLength);
+    let sum = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) sum += channel[i] * channel[i];
+    }
+    energies.push(Math.sqrt(sum / Math.max(1, (end - start) * channels.length)));
+  }
+  const loudest = Math.max(...energies);
+  return energies.map(energy => loudest > 0 ? Math.round((energy / loudest) * 100) / 100 : 0);
+};
+
+// Pearson correlation, so overall level differences between encodes don't matter
+const correlate = (a: number[], b: number[]) => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  a.forEach((value, i) => {
+    covariance += (value - meanA) * (b[i] - meanB);
+    varianceA += (value - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  });
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+const isSimilar = (a: Song, b: Song) =>
+  !!a.fingerprint && !!b.fingerprint
+  && a.duration > 0 && Math.abs(a.duration - b.duration) <= DURATION_TOLERANCE
+  && correlate(a.fingerprint, b.fingerprint) >= NEAR_DUPLICATE_CORRELATION;
+
+// The library song a new upload duplicates, if any. An identical file wins over
+// a merely similar one.
+export const findDuplicate = (song: Song, library: Song[]): DuplicateMatch | null => {
+  const identical = library.find(existing => existing.id === song.id);
+  if (identical) return { song, existing: identical, kind: 'identical' };
+  const similar = library.find(existing => isSimilar(song, existing));
+  return similar ? { song, existing: similar, kind: 'similar' } : null;
+};
+
+// Re-keys songs uploaded before content hashing, moving their stored audio
+// along, and returns the renames (old id -> new id). Songs without audio in
+// this browser keep their old id, as does a copy of a file that's already in
+// the library under its hash.
+export const migrateLegacySongIds = async (songs: Song[]): Promise<Map<string, string>> => {
+  const renamed = new Map<string, string>();
+  const takenIds = new Set(songs.map(song => song.id));
+  // One at a time, since each file is read into memory whole
+  for (const song of songs) {
+    if (!isLegacySongId(song.id) || !song.file) continue;
+    try {
+      const id = await songIdForFile(song.file);
+      if (takenIds.has(id)) continue;
+      await saveAudio(id, song.file);
+      await deleteAudio(song.id);
+      takenIds.add(id);
+      renamed.set(song.id, id);
+    } catch (error) {
+      console.error(`Failed to migrate id for song: ${song.name}`, error);
+    }
+  }
+  return renamed;
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { UnsupportedFormatError, writeTags } from './tagWriter';
+import { readTags } from './tags';
+
+const bytes = (...parts: (string | number[])[]) =>
+  Uint8Array.from(parts.flatMap(part => typeof part === 'string' ? [...part].map(c => c.charCodeAt(0)) : part));
+
+const EMPTY_ID3 = bytes('ID3', [4, 0, 0, 0, 0, 0, 0]);
+const STREAMINFO = bytes([0x80, 0, 0, 34], new Array(34).fill(0)); // The last metadata block
+const FLAC = bytes('fLaC', [...STREAMINFO], [1, 2, 3, 4]);
+const MPEG_FRAME = [0xff, 0xfb, 0x90, 0x64, 0, 0, 0, 0];
+
+const head = async (blob: Blob, length: number) => new TextDecoder().decode((await blob.slice(0, length).arrayBuffer()));
+
+describe('writeTags', () => {
+  const tags = { title: 'Night drive', genres: ['Trap'] };
+
+  it('writes Vorbis comments into FLAC', async () => {
+    const tagged = await writeTags(new Blob([FLAC]), tags);
+
+    expect(await head(tagged, 4)).toBe('fLaC');
+    expect((await readTags(tagged)).title).toBe('Night drive');
+  });
+
+  it('treats FLAC behind an ID3 tag as FLAC', async () => {
+    const tagged = await writeTags(new Blob([EMPTY_ID3, FLAC], { type: 'audio/flac' }), tags);
+
+    expect(await head(tagged, 4)).toBe('fLaC');
+    expect(tagged.type).toBe('audio/flac');
+    expect((await readTags(tagged)).title).toBe('Night drive');
+  });
+
+  it('writes an ID3 tag into MP3, with or without an existing one', async () => {
+    for (const mp3 of [bytes(MPEG_FRAME), bytes([...EMPTY_ID3], MPEG_FRAME)]) {
+      const tagged = await writeTags(new Blob([mp3]), tags);
+
+      expect(await head(tagged, 3)).toBe('ID3');
+      expect((await readTags(tagged)).title).toBe('Night drive');
+    }
+  });
+
+  it('rejects other formats', async () => {
+    await expect(writeTags(new Blob([bytes('RIFF', [0, 0, 0, 0], 'WAVE')]), tags)).rejects.toBeInstanceOf(UnsupportedFormatError);
+  });
+});
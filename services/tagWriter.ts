@@ -0,0 +1,290 @@
+import type { Song } from '../types';
+import { base64ToBytes } from './encoding';
+import type { EmbeddedPicture } from './tags';
+
+// Writes a song's metadata into a copy of its audio file: an ID3v2.4 tag for
+// MP3 and Vorbis comments for FLAC. Fields the app doesn't manage (track
+// numbers, comments, ReplayGain and so on) are carried over, and so is any
+// existing cover art, which is usually larger than the thumbnail we keep. The
+// audio itself is passed through untouched.
+
+export interface WritableTags {
+  title: string;
+  artist?: string;
+  album?: string;
+  bpm?: string;
+  key?: string;
+  genres: string[]; // Main genre first
+  mood?: string;
+  picture?: EmbeddedPicture;
+}
+
+export class UnsupportedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+const FRONT_COVER = 3;
+const FLAC_PADDING_BYTES = 4096; // Room for later edits without rewriting the file
+
+const encoder = new TextEncoder();
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const uint32BE = (value: number) => Uint8Array.of(value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+const uint32LE = (value: number) => Uint8Array.of(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, value >>> 24);
+const uint24BE = (value: number) => Uint8Array.of((value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+const syncsafe = (value: number) => Uint8Array.of((value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f);
+
+const readUint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+const readUint32LE = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] + (bytes[offset + 1] << 8) + (bytes[offset + 2] << 16) + ((bytes[offset + 3] << 24) >>> 0);
+const readSyncsafe = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+
+// "F# minor" -> "F#m", "A major" -> "A": the short form ID3 TKEY expects and
+// DJ software reads from Vorbis comments. Anything else is written as is.
+const shortKey = (key: string) => {
+  const match = key.match(/^([A-G][#b]?) (major|minor)$/);
+  if (!match) return key;
+  return match[2] === 'minor' ? `${match[1]}m` : match[1];
+};
+
+const wholeBpm = (bpm: string) => {
+  const value = parseFloat(bpm);
+  return Number.isFinite(value) && value > 0 ? String(Math.round(value)) : undefined;
+};
+
+// --- MP3 / ID3v2.4 --------------------------------------------------------------
+
+// Frames this writer owns; any existing copies are replaced
+const ID3_MANAGED_FRAMES = new Set(['TIT2', 'TPE1', 'TALB', 'TBPM', 'TKEY', 'TCON', 'TMOO']);
+
+const id3Frame = (id: string, data: Uint8Array) =>
+  concat([encoder.encode(id), syncsafe(data.length), Uint8Array.of(0, 0), data]);
+
+// UTF-8; v2.4 separates multiple values with a null
+const id3TextFrame = (id: string, values: string[]) =>
+  id3Frame(id, concat([Uint8Array.of(3), encoder.encode(values.join('\0'))]));
+
+const id3PictureFrame = (picture: EmbeddedPicture) =>
+  id3Frame('APIC', concat([
+    Uint8Array.of(0), encoder.encode(picture.mimeType), Uint8Array.of(0),
+    Uint8Array.of(FRONT_COVER, 0), // Picture type, empty description
+    picture.data,
+  ]));
+
+interface ExistingId3 {
+  length: number; // Bytes to skip to reach the audio
+  frames: Uint8Array[]; // Unmanaged frames, already in v2.4 form
+  hasPicture: boolean;
+}
+
+// Frames from a v2.3 or v2.4 tag that can be copied into the new one verbatim.
+// Compressed, encrypted or unsynchronised frames (and whole v2.2 tags, whose
+// frame ids differ) are rare enough in practice that they're simply dropped.
+const readExistingId3 = async (file: Blob): Promise<ExistingId3> => {
+  const header = await readBytes(file, 0, 10);
+  if (header.length < 10 || ascii(header, 0, 3) !== 'ID3') return { length: 0, frames: [], hasPicture: false };
+  const major = header[3];
+  const flags = header[5];
+  const length = 10 + readSyncsafe(header, 6) + (flags & 0x10 ? 10 : 0); // Footer
+  const result: ExistingId3 = { length, frames: [], hasPicture: false };
+  if ((major !== 3 && major !== 4) || flags & 0x80) return result;
+
+  const body = await readBytes(file, 10, 10 + readSyncsafe(header, 6));
+  let offset = 0;
+  if (flags & 0x40) offset = major === 4 ? readSyncsafe(body, 0) : readUint32BE(body, 0) + 4;
+  while (offset + 10 <= body.length) {
+    const id = ascii(body, offset, 4);
+    if (!/^[A-Z0-9]{4}$/.test(id)) break; // Reached the padding
+    const size = major === 4 ? readSyncsafe(body, offset + 4) : readUint32BE(body, offset + 4);
+    const formatFlags = body[offset + 9];
+    const data = body.subarray(offset + 10, offset + 10 + size);
+    offset += 10 + size;
+    if (ID3_MANAGED_FRAMES.has(id) || formatFlags !== 0) continue;
+    if (id === 'APIC') result.hasPicture = true;
+    result.frames.push(id3Frame(id, data));
+  }
+  return result;
+};
+
+const writeId3 = async (file: Blob, tags: WritableTags): Promise<Blob> => {
+  const existing = await readExistingId3(file);
+  const bpm = tags.bpm && wholeBpm(tags.bpm);
+  const frames = [
+    id3TextFrame('TIT2', [tags.title]),
+    tags.artist && id3TextFrame('TPE1', [tags.artist]),
+    tags.album && id3TextFrame('TALB', [tags.album]),
+    bpm && id3TextFrame('TBPM', [bpm]),
+    tags.key && id3TextFrame('TKEY', [shortKey(tags.key)]),
+    tags.genres.length > 0 && id3TextFrame('TCON', tags.genres),
+    tags.mood && id3TextFrame('TMOO', [tags.mood]),
+    ...existing.frames,
+    !existing.hasPicture && tags.picture && id3PictureFrame(tags.picture),
+  ].filter((frame): frame is Uint8Array => !!frame);
+  const body = concat(frames);
+  const header = concat([encoder.encode('ID3'), Uint8Array.of(4, 0, 0), syncsafe(body.length)]);
+
+  // A stale ID3v1 tag at the end would contradict the new one in older players
+  const tail = await readBytes(file, Math.max(file.size - 128, 0), file.size);
+  const audioEnd = tail.length === 128 && ascii(tail, 0, 3) === 'TAG' ? file.size - 128 : file.size;
+  return new Blob([header, body, file.slice(existing.length, audioEnd)], { type: file.type || 'audio/mpeg' });
+};
+
+// --- FLAC / Vorbis comments -----------------------------------------------------
+
+const VORBIS_MANAGED_FIELDS = new Set(['TITLE', 'ARTIST', 'ALBUM', 'BPM', 'TEMPO', 'KEY', 'INITIALKEY', 'GENRE', 'MOOD']);
+
+const FLAC_STREAMINFO = 0;
+const FLAC_PADDING_BLOCK = 1;
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+
+const flacBlock = (type: number, data: Uint8Array, isLast: boolean) =>
+  concat([Uint8Array.of((isLast ? 0x80 : 0) | type), uint24BE(data.length), data]);
+
+const flacPictureBlock = (picture: EmbeddedPicture) => {
+  const mimeType = encoder.encode(picture.mimeType);
+  return concat([
+    uint32BE(FRONT_COVER),
+    uint32BE(mimeType.length), mimeType,
+    uint32BE(0), // Description
+    uint32BE(0), uint32BE(0), uint32BE(0), uint32BE(0), // Width, height, colour depth, palette size; 0 means unknown
+    uint32BE(picture.data.length), picture.data,
+  ]);
+};
+
+// The vendor string and the comments this writer doesn't manage
+const readVorbisComments = (block: Uint8Array) => {
+  const decoder = new TextDecoder('utf-8');
+  const vendorLength = readUint32LE(block, 0);
+  const vendor = decoder.decode(block.subarray(4, 4 + vendorLength));
+  const count = readUint32LE(block, 4 + vendorLength);
+  const comments: string[] = [];
+  let cursor = 8 + vendorLength;
+  for (let i = 0; i < count && cursor + 4 <= block.length; i++) {
+    const length = readUint32LE(block, cursor);
+    comments.push(decoder.decode(block.subarray(cursor + 4, cursor + 4 + length)));
+    cursor += 4 + length;
+  }
+  return { vendor, comments };
+};
+
+const vorbisCommentBlock = (vendor: string, comments: string[]) =>
+  concat([
+    uint32LE(encoder.encode(vendor).length), encoder.encode(vendor),
+    uint32LE(comments.length),
+    ...comments.map(comment => concat([uint32LE(encoder.encode(comment).length), encoder.encode(comment)])),
+  ]);
+
+const writeFlac = async (file: Blob, tags: WritableTags): Promise<Blob> => {
+  const kept: { type: number; data: Uint8Array }[] = [];
+  let vendor = 'The Playlist';
+  let otherComments: string[] = [];
+  let hasPicture = false;
+
+  let offset = 4; // After "fLaC"
+  for (let isLast = false; !isLast;) {
+    const header = await readBytes(file, offset, offset + 4);
+    if (header.length < 4) throw new UnsupportedFormatError('This FLAC file is damaged.');
+    isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    const data = await readBytes(file, offset + 4, offset + 4 + length);
+    offset += 4 + length;
+
+    if (type === FLAC_VORBIS_COMMENT) {
+      const existing = readVorbisComments(data);
+      vendor = existing.vendor;
+      otherComments = existing.comments.filter(comment => !VORBIS_MANAGED_FIELDS.has(comment.split('=')[0].toUpperCase()));
+      hasPicture ||= otherComments.some(comment => comment.toUpperCase().startsWith('METADATA_BLOCK_PICTURE='));
+    } else if (type !== FLAC_PADDING_BLOCK) {
+      if (type === FLAC_PICTURE) hasPicture = true;
+      kept.push({ type, data });
+    }
+  }
+  if (kept[0]?.type !== FLAC_STREAMINFO) throw new UnsupportedFormatError('This FLAC file is damaged.');
+
+  const bpm = tags.bpm && wholeBpm(tags.bpm);
+  const comments = [
+    `TITLE=${tags.title}`,
+    tags.artist && `ARTIST=${tags.artist}`,
+    tags.album && `ALBUM=${tags.album}`,
+    bpm && `BPM=${bpm}`,
+    tags.key && `INITIALKEY=${shortKey(tags.key)}`,
+    ...tags.genres.map(genre => `GENRE=${genre}`),
+    tags.mood && `MOOD=${tags.mood}`,
+    ...otherComments,
+  ].filter((comment): comment is string => !!comment);
+
+  // STREAMINFO has to stay first; the comments go straight after it
+  const blocks = [
+    kept[0],
+    { type: FLAC_VORBIS_COMMENT, data: vorbisCommentBlock(vendor, comments) },
+    ...kept.slice(1),
+    ...(!hasPicture && tags.picture ? [{ type: FLAC_PICTURE, data: flacPictureBlock(tags.picture) }] : []),
+    { type: FLAC_PADDING_BLOCK, data: new Uint8Array(FLAC_PADDING_BYTES) },
+  ];
+  const metadata = blocks.map((block, i) => flacBlock(block.type, block.data, i === blocks.length - 1));
+  return new Blob([encoder.encode('fLaC'), ...metadata, file.slice(offset)], { type: file.type || 'audio/flac' });
+};
+
+// --- Entry points ---------------------------------------------------------------
+
+// Artwork is stored as a data: URL thumbnail (see utils/image.ts)
+const pictureFromDataUrl = (url: string): EmbeddedPicture | undefined => {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: base64ToBytes(match[2]) } : undefined;
+};
+
+// Placeholder analysis results aren't worth writing into a file
+const known = (value?: string) => (value && value !== 'N/A' ? value : undefined);
+
+export const tagsForSong = (song: Song, producerName?: string): WritableTags => ({
+  title: song.name,
+  artist: song.artist || producerName || undefined,
+  album: song.album,
+  bpm: known(song.bpm),
+  key: known(song.key),
+  genres: [known(song.genre), ...(song.genreTags || [])]
+    .filter((genre): genre is string => !!genre)
+    .filter((genre, i, genres) => genres.findIndex(other => other.toLowerCase() === genre.toLowerCase()) === i),
+  mood: known(song.mood),
+  picture: song.artwork ? pictureFromDataUrl(song.artwork) : undefined,
+});
+
+// Size of the ID3v2 tag a file starts with, if any. Some taggers put one in
+// front of FLAC too, so it says nothing about the format by itself.
+const id3Length = (head: Uint8Array) =>
+  head.length >= 10 && ascii(head, 0, 3) === 'ID3' ? 10 + readSyncsafe(head, 6) + (head[5] & 0x10 ? 10 : 0) : 0;
+
+const isMpegFrame = (head: Uint8Array) => head[0] === 0xff && (head[1] & 0xe0) === 0xe0;
+
+// Returns a copy of `file` carrying `tags`. Throws UnsupportedFormatError for
+// anything other than MP3 or FLAC.
+export const writeTags = async (file: Blob, tags: WritableTags): Promise<Blob> => {
+  const audioStart = id3Length(await readBytes(file, 0, 10));
+  const head = await readBytes(file, audioStart, audioStart + 4);
+  // FLAC gets Vorbis comments in place of any ID3 tag in front of it
+  if (ascii(head, 0, 4) === 'fLaC') return writeFlac(audioStart ? file.slice(audioStart, file.size, file.type) : file, tags);
+  if (audioStart > 0 || isMpegFrame(head)) return writeId3(file, tags);
+  throw new UnsupportedFormatError('Only MP3 and FLAC files can be tagged.');
+};
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { parseId3, readTags, songFieldsFromTags } from './tags';
+
+const text = (value: string) => [...new TextEncoder().encode(value)];
+const uint32BE = (value: number) => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint32LE = (value: number) => [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, value >>> 24];
+const syncsafe = (value: number) => [(value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f];
+const bytes = (...parts: number[][]) => Uint8Array.from(parts.flat());
+
+const PICTURE = [0x89, 0x50, 0x4e, 0x47];
+
+// --- Fixtures -------------------------------------------------------------------
+
+const id3Frame = (id: string, data: number[]) => [...text(id), ...uint32BE(data.length), 0, 0, ...data];
+const id3Text = (id: string, value: string) => id3Frame(id, [0, ...text(value)]);
+
+const id3v23 = (...frames: number[][]) => {
+  const body = frames.flat();
+  return bytes(text('ID3'), [3, 0, 0], syncsafe(body.length), body);
+};
+
+const vorbisComments = (...comments: string[]) => [
+  ...uint32LE(6), ...text('vendor'),
+  ...uint32LE(comments.length),
+  ...comments.flatMap(comment => [...uint32LE(text(comment).length), ...text(comment)]),
+];
+
+const flacBlock = (type: number, data: number[], isLast = false) =>
+  [type | (isLast ? 0x80 : 0), (data.length >>> 16) & 0xff, (data.length >>> 8) & 0xff, data.length & 0xff, ...data];
+
+const flacPicture = (type: number, mimeType: string, data: number[]) => [
+  ...uint32BE(type), ...uint32BE(mimeType.length), ...text(mimeType),
+  ...uint32BE(0), ...new Array(16).fill(0), ...uint32BE(data.length), ...data,
+];
+
+const flac = (...comments: string[]) => bytes(
+  text('fLaC'),
+  flacBlock(0, new Array(34).fill(0)),
+  flacBlock(4, vorbisComments(...comments)),
+  flacBlock(6, flacPicture(3, 'image/png', PICTURE), true),
+  [1, 2, 3, 4],
+);
+
+// One page holding the identification and comment packets
+const oggOpus = (...comments: string[]) => {
+  const head = [...text('OpusHead'), 1, 2, 0, 0, 0x80, 0xbb, 0, 0, 0, 0, 0];
+  const tags = [...text('OpusTags'), ...vorbisComments(...comments)];
+  return bytes(
+    text('OggS'), [0, 2], new Array(8).fill(0), uint32LE(1234), uint32LE(0), uint32LE(0),
+    [2, head.length, tags.length], head, tags,
+  );
+};
+
+const riffChunk = (id: string, data: number[]) => [...text(id), ...uint32LE(data.length), ...data, ...(data.length % 2 ? [0] : [])];
+
+const wav = (...chunks: number[][]) => {
+  const body = [...text('WAVE'), ...riffChunk('fmt ', new Array(16).fill(0)), ...chunks.flat(), ...riffChunk('data', [0, 0])];
+  return bytes(text('RIFF'), uint32LE(body.length), body);
+};
+
+const infoList = (fields: Record<string, string>) =>
+  riffChunk('LIST', [...text('INFO'), ...Object.entries(fields).flatMap(([id, value]) => riffChunk(id, [...text(value), 0]))]);
+
+// --- Tests ----------------------------------------------------------------------
+
+describe('parseId3', () => {
+  it('reads text frames, numeric genres and the cover', () => {
+    const tags = parseId3(id3v23(
+      id3Text('TIT2', 'Night drive'),
+      id3Text('TPE1', 'DJ Test'),
+      id3Text('TBPM', '140'),
+      id3Text('TKEY', 'F#m'),
+      id3Text('TCON', '(7)'),
+      id3Frame('APIC', [0, ...text('image/png'), 0, 3, 0, ...PICTURE]),
+    ));
+
+    expect(tags).toEqual({
+      title: 'Night drive',
+      artist: 'DJ Test',
+      bpm: '140',
+      key: 'F#m',
+      genre: 'Hip-Hop',
+      picture: { data: Uint8Array.from(PICTURE), mimeType: 'image/png' },
+    });
+  });
+
+  it('ignores data that is not an ID3 tag', () => {
+    expect(parseId3(bytes(text('fLaC'), new Array(20).fill(0)))).toEqual({});
+  });
+});
+
+describe('readTags', () => {
+  it('reads Vorbis comments and the picture block from FLAC', async () => {
+    const tags = await readTags(new Blob([flac('TITLE=Night drive', 'genre=Trap', 'BPM=140', 'INITIALKEY=Am')]));
+
+    expect(tags).toEqual({
+      title: 'Night drive',
+      genre: 'Trap',
+      bpm: '140',
+      key: 'Am',
+      picture: { data: Uint8Array.from(PICTURE), mimeType: 'image/png' },
+    });
+  });
+
+  it('reads the comment header of Ogg Opus', async () => {
+    expect(await readTags(new Blob([oggOpus('TITLE=Night drive', 'ARTIST=DJ Test')]))).toEqual({ title: 'Night drive', artist: 'DJ Test' });
+  });
+
+  it('reads WAV LIST/INFO, preferring an id3 chunk', async () => {
+    const infoOnly = await readTags(new Blob([wav(infoList({ INAM: 'Night drive', IART: 'DJ Test', IGNR: 'Trap' }))]));
+    expect(infoOnly).toEqual({ title: 'Night drive', artist: 'DJ Test', genre: 'Trap' });
+
+    const withId3 = await readTags(new Blob([wav(infoList({ INAM: 'Old name', IART: 'DJ Test' }), riffChunk('id3 ', [...id3v23(id3Text('TIT2', 'Night drive'))]))]));
+    expect(withId3).toEqual({ title: 'Night drive', artist: 'DJ Test' });
+  });
+
+  it('prefers the FLAC comments behind a leading ID3 tag, filling gaps from it', async () => {
+    const file = new Blob([id3v23(id3Text('TIT2', 'Stale title'), id3Text('TALB', 'Tape')), flac('TITLE=Night drive')]);
+
+    expect(await readTags(file)).toEqual({
+      title: 'Night drive',
+      album: 'Tape',
+      picture: { data: Uint8Array.from(PICTURE), mimeType: 'image/png' },
+    });
+  });
+
+  it('reads MP3 ID3 tags', async () => {
+    const file = new Blob([id3v23(id3Text('TIT2', 'Night drive')), bytes([0xff, 0xfb, 0x90, 0x64], new Array(8).fill(0))]);
+
+    expect(await readTags(file)).toEqual({ title: 'Night drive' });
+  });
+});
+
+describe('songFieldsFromTags', () => {
+  it('normalizes tempo and key and records which fields came from tags', () => {
+    expect(songFieldsFromTags({ title: 'Night drive', bpm: '139.96', key: 'F#m' })).toEqual({
+      name: 'Night drive',
+      bpm: '140',
+      key: 'F# minor',
+      taggedFields: ['name', 'bpm', 'key'],
+    });
+  });
+});
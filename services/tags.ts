@@ -0,0 +1,413 @@
+import type { Song, TaggedField } from '../types';
+import { base64ToBytes } from './encoding';
+
+// Reads the metadata DAWs and taggers embed in audio files: ID3v2 (MP3, and
+// `id3 ` chunks in WAV), Vorbis comments (FLAC, Ogg Vorbis and Opus) and WAV
+// LIST/INFO and iXML chunks. Only the parts of the file that hold tags are
+// read, never the audio itself.
+
+export interface EmbeddedPicture {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface EmbeddedTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  bpm?: string;
+  key?: string;
+  genre?: string;
+  picture?: EmbeddedPicture;
+}
+
+const OGG_READ_LIMIT = 4 * 1024 * 1024; // Comment packets with cover art can be large
+const CHUNK_READ_LIMIT = 8 * 1024 * 1024;
+const FRONT_COVER = 3; // Picture type shared by ID3 APIC and FLAC PICTURE
+
+// ID3v1 genre numbers, still referenced as "(17)" by some ID3v2 writers
+const ID3_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+];
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const uint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+
+const uint32LE = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] + (bytes[offset + 1] << 8) + (bytes[offset + 2] << 16) + ((bytes[offset + 3] << 24) >>> 0);
+
+const syncsafe = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+
+const clean = (value: string | undefined) => value?.replace(/\0/g, '').trim() || undefined;
+
+// Keeps the first picture seen unless a later one is the front cover
+const preferPicture = (current: EmbeddedPicture | undefined, candidate: EmbeddedPicture, isFrontCover: boolean) =>
+  !current || isFrontCover ? candidate : current;
+
+// --- ID3v2 ------------------------------------------------------------------
+
+const decodeId3Text = (bytes: Uint8Array, encoding: number) => {
+  switch (encoding) {
+    case 1: { // UTF-16 with byte order mark
+      const bigEndian = bytes[0] === 0xfe && bytes[1] === 0xff;
+      return new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(bytes.subarray(2));
+    }
+    case 2: return new TextDecoder('utf-16be').decode(bytes);
+    case 3: return new TextDecoder('utf-8').decode(bytes);
+    default: return new TextDecoder('iso-8859-1').decode(bytes);
+  }
+};
+
+// Index just past the string terminator starting at `start` (two zero bytes for UTF-16)
+const skipTerminated = (bytes: Uint8Array, start: number, encoding: number) => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i + (wide ? 2 : 1);
+  }
+  return bytes.length;
+};
+
+const removeUnsynchronisation = (bytes: Uint8Array) => {
+  const result: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    result.push(bytes[i]);
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return new Uint8Array(result);
+};
+
+const parseId3Genre = (value: string) => {
+  // "(17)", "(17)Rock" or "17" in older writers
+  const withoutRefs = value.replace(/\(\d+\)/g, '').trim();
+  if (withoutRefs && !/^\d+$/.test(withoutRefs)) return withoutRefs;
+  const ref = Number(value.match(/\d+/)?.[0]);
+  return ID3_GENRES[ref];
+};
+
+const ID3_TEXT_FRAMES: Record<string, keyof Omit<EmbeddedTags, 'picture'>> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+  TBPM: 'bpm', TBP: 'bpm',
+  TKEY: 'key', TKE: 'key',
+  TCON: 'genre', TCO: 'genre',
+};
+
+export const parseId3 = (bytes: Uint8Array): EmbeddedTags => {
+  if (bytes.length < 10 || ascii(bytes, 0, 3) !== 'ID3') return {};
+  const major = bytes[3];
+  const flags = bytes[5];
+  let body = bytes.subarray(10, 10 + syncsafe(bytes, 6));
+  if (major < 4 && flags & 0x80) body = removeUnsynchronisation(body);
+
+  const tags: EmbeddedTags = {};
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+  let offset = 0;
+  if (flags & 0x40) {
+    offset = major === 4 ? syncsafe(body, 0) : uint32BE(body, 0) + 4;
+  }
+
+  while (offset + headerLength <= body.length) {
+    const frameStart = offset;
+    const id = ascii(body, frameStart, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Reached the padding
+    const size = major === 2
+      ? (body[frameStart + 3] << 16) | (body[frameStart + 4] << 8) | body[frameStart + 5]
+      : major === 4 ? syncsafe(body, frameStart + 4) : uint32BE(body, frameStart + 4);
+    let data = body.subarray(frameStart + headerLength, frameStart + headerLength + size);
+    offset += headerLength + size;
+
+    const formatFlags = body[frameStart + 9];
+    if (major === 3) {
+      if (formatFlags & 0xc0) continue; // Compressed or encrypted
+      if (formatFlags & 0x20) data = data.subarray(1); // Group id
+    } else if (major === 4) {
+      if (formatFlags & 0x0c) continue; // Compressed or encrypted
+      if (formatFlags & 0x40) data = data.subarray(1); // Group id
+      if (formatFlags & 0x01) data = data.subarray(4); // Data length indicator
+      if (formatFlags & 0x02) data = removeUnsynchronisation(data);
+    }
+    if (data.length < 2) continue;
+
+    const field = ID3_TEXT_FRAMES[id];
+    if (field) {
+      // v2.4 separates multiple values with nulls; the first is enough
+      const value = clean(decodeId3Text(data.subarray(1), data[0]).split('\0')[0]);
+      if (value && !tags[field]) tags[field] = field === 'genre' ? parseId3Genre(value) : value;
+    } else if (id === 'APIC' || id === 'PIC') {
+      const encoding = data[0];
+      let cursor: number;
+      let mimeType: string;
+      if (id === 'PIC') {
+        mimeType = ascii(data, 1, 3).toUpperCase() === 'PNG' ? 'image/png' : 'image/jpeg';
+        cursor = 4;
+      } else {
+        cursor = skipTerminated(data, 1, 0);
+        mimeType = ascii(data, 1, cursor - 2) || 'image/jpeg';
+      }
+      const pictureType = data[cursor];
+      cursor = skipTerminated(data, cursor + 1, encoding);
+      if (cursor < data.length) {
+        tags.picture = preferPicture(tags.picture, { data: data.slice(cursor), mimeType }, pictureType === FRONT_COVER);
+      }
+    }
+  }
+  return tags;
+};
+
+// --- Vorbis comments (FLAC, Ogg) ----------------------------------------------
+
+const parseFlacPicture = (bytes: Uint8Array): { picture: EmbeddedPicture; type: number } | null => {
+  if (bytes.length < 32) return null;
+  const type = uint32BE(bytes, 0);
+  const mimeLength = uint32BE(bytes, 4);
+  const mimeType = ascii(bytes, 8, mimeLength);
+  let cursor = 8 + mimeLength;
+  cursor += 4 + uint32BE(bytes, cursor); // Description
+  cursor += 16; // Width, height, colour depth, palette size
+  const length = uint32BE(bytes, cursor);
+  const data = bytes.slice(cursor + 4, cursor + 4 + length);
+  return data.length > 0 ? { picture: { data, mimeType: mimeType || 'image/jpeg' }, type } : null;
+};
+
+export const parseVorbisComments = (bytes: Uint8Array): EmbeddedTags => {
+  const tags: EmbeddedTags = {};
+  const decoder = new TextDecoder('utf-8');
+  let cursor = 4 + uint32LE(bytes, 0); // Vendor string
+  const count = uint32LE(bytes, cursor);
+  cursor += 4;
+
+  for (let i = 0; i < count && cursor + 4 <= bytes.length; i++) {
+    const length = uint32LE(bytes, cursor);
+    const comment = decoder.decode(bytes.subarray(cursor + 4, cursor + 4 + length));
+    cursor += 4 + length;
+    const separator = comment.indexOf('=');
+    if (separator === -1) continue;
+    const name = comment.slice(0, separator).toUpperCase();
+    const value = clean(comment.slice(separator + 1));
+    if (!value) continue;
+
+    if (name === 'TITLE') tags.title ??= value;
+    else if (name === 'ARTIST') tags.artist ??= value;
+    else if (name === 'ALBUM') tags.album ??= value;
+    else if (name === 'GENRE') tags.genre ??= value;
+    else if (name === 'BPM' || name === 'TEMPO') tags.bpm ??= value;
+    else if (name === 'KEY' || name === 'INITIALKEY') tags.key ??= value;
+    else if (name === 'METADATA_BLOCK_PICTURE') {
+      try {
+        const parsed = parseFlacPicture(base64ToBytes(value));
+        if (parsed) tags.picture = preferPicture(tags.picture, parsed.picture, parsed.type === FRONT_COVER);
+      } catch (error) {
+        console.error("Skipping unreadable embedded picture:", error);
+      }
+    }
+  }
+  return tags;
+};
+
+// `start` is where "fLaC" is, after any ID3 tag in front of it
+const readFlac = async (file: Blob, start: number): Promise<EmbeddedTags> => {
+  let tags: EmbeddedTags = {};
+  let offset = start + 4; // After "fLaC"
+  for (let isLast = false; !isLast && offset < file.size;) {
+    const header = await readBytes(file, offset, offset + 4);
+    if (header.length < 4) break;
+    isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    offset += 4;
+    if ((type === 4 || type === 6) && length <= CHUNK_READ_LIMIT) {
+      const block = await readBytes(file, offset, offset + length);
+      if (type === 4) {
+        tags = { ...parseVorbisComments(block), picture: tags.picture };
+      } else {
+        const parsed = parseFlacPicture(block);
+        if (parsed) tags.picture = preferPicture(tags.picture, parsed.picture, parsed.type === FRONT_COVER);
+      }
+    }
+    offset += length;
+  }
+  return tags;
+};
+
+// The comment header is the second packet of the first logical stream
+export const parseOgg = (bytes: Uint8Array): EmbeddedTags => {
+  const packets: Uint8Array[] = [];
+  let packet: number[] = [];
+  let serial: number | null = null;
+  let offset = 0;
+
+  while (packets.length < 2 && offset + 27 <= bytes.length && ascii(bytes, offset, 4) === 'OggS') {
+    const pageSerial = uint32LE(bytes, offset + 14);
+    const segmentCount = bytes[offset + 26];
+    const segments = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    let cursor = offset + 27 + segmentCount;
+    serial ??= pageSerial;
+    segments.forEach(length => {
+      if (pageSerial === serial && packets.length < 2) {
+        packet.push(...bytes.subarray(cursor, cursor + length));
+        if (length < 255) {
+          packets.push(new Uint8Array(packet));
+          packet = [];
+        }
+      }
+      cursor += length;
+    });
+    offset = cursor;
+  }
+
+  const header = packets[1];
+  if (!header) return {};
+  if (header[0] === 3 && ascii(header, 1, 6) === 'vorbis') return parseVorbisComments(header.subarray(7));
+  if (ascii(header, 0, 8) === 'OpusTags') return parseVorbisComments(header.subarray(8));
+  return {};
+};
+
+// --- WAV ----------------------------------------------------------------------
+
+const INFO_FIELDS: Record<string, keyof Omit<EmbeddedTags, 'picture'>> = {
+  INAM: 'title',
+  IART: 'artist',
+  IPRD: 'album',
+  IGNR: 'genre',
+};
+
+const parseInfoList = (bytes: Uint8Array): EmbeddedTags => {
+  const tags: EmbeddedTags = {};
+  const decoder = new TextDecoder('utf-8');
+  for (let offset = 4; offset + 8 <= bytes.length;) {
+    const id = ascii(bytes, offset, 4);
+    const size = uint32LE(bytes, offset + 4);
+    const field = INFO_FIELDS[id];
+    if (field) tags[field] ??= clean(decoder.decode(bytes.subarray(offset + 8, offset + 8 + size)));
+    offset += 8 + size + (size % 2);
+  }
+  return tags;
+};
+
+// iXML has no standard title or tempo fields, but some DAWs add them
+const parseIxml = (bytes: Uint8Array): EmbeddedTags => {
+  const xml = new TextDecoder('utf-8').decode(bytes);
+  const element = (...names: string[]) => {
+    for (const name of names) {
+      const value = clean(xml.match(new RegExp(`<${name}>([^<]*)</${name}>`, 'i'))?.[1]);
+      if (value) return value;
+    }
+    return undefined;
+  };
+  return {
+    title: element('TRACK_NAME', 'TITLE'),
+    album: element('PROJECT'),
+    bpm: element('BPM', 'TEMPO'),
+    key: element('KEY'),
+  };
+};
+
+// Field by field, the first source that has a value wins
+const mergeTags = (...sources: (EmbeddedTags | undefined)[]): EmbeddedTags => {
+  const merged: EmbeddedTags = {};
+  sources.forEach(source => {
+    if (!source) return;
+    (Object.keys(source) as (keyof EmbeddedTags)[]).forEach(field => {
+      if (merged[field] === undefined && source[field] !== undefined) {
+        Object.assign(merged, { [field]: source[field] });
+      }
+    });
+  });
+  return merged;
+};
+
+const readWav = async (file: Blob, start: number): Promise<EmbeddedTags> => {
+  const found: { id3?: EmbeddedTags; info?: EmbeddedTags; ixml?: EmbeddedTags } = {};
+
+  for (let offset = start + 12; offset + 8 <= file.size;) {
+    const header = await readBytes(file, offset, offset + 8);
+    const id = ascii(header, 0, 4);
+    const size = uint32LE(header, 4);
+    const isTagChunk = id === 'LIST' || id === 'iXML' || id.toLowerCase() === 'id3 ';
+    if (isTagChunk && size <= CHUNK_READ_LIMIT) {
+      const chunk = await readBytes(file, offset + 8, offset + 8 + size);
+      if (id === 'LIST' && ascii(chunk, 0, 4) === 'INFO') found.info = parseInfoList(chunk);
+      else if (id === 'iXML') found.ixml = parseIxml(chunk);
+      else if (id !== 'LIST') found.id3 = parseId3(chunk);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  // An ID3 chunk is usually the most complete, so it's preferred
+  return mergeTags(found.id3, found.info, found.ixml);
+};
+
+// --- Entry points ---------------------------------------------------------------
+
+// Tags of the container starting at `start`
+const readContainerTags = async (file: Blob, start: number): Promise<EmbeddedTags> => {
+  const head = await readBytes(file, start, start + 12);
+  if (head.length < 12) return {};
+  if (ascii(head, 0, 4) === 'fLaC') return readFlac(file, start);
+  if (ascii(head, 0, 4) === 'OggS') return parseOgg(await readBytes(file, start, start + OGG_READ_LIMIT));
+  if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'WAVE') return readWav(file, start);
+  return {};
+};
+
+export const readTags = async (file: Blob): Promise<EmbeddedTags> => {
+  const head = await readBytes(file, 0, 12);
+  if (head.length < 12) return {};
+  if (ascii(head, 0, 3) !== 'ID3') return readContainerTags(file, 0);
+  // Some taggers put an ID3 tag in front of FLAC or Ogg too. The container's
+  // own comments are then the real metadata, with the ID3 tag filling gaps.
+  const id3 = parseId3(await readBytes(file, 0, 10 + syncsafe(head, 6)));
+  const audioStart = 10 + syncsafe(head, 6) + (head[5] & 0x10 ? 10 : 0); // Footer
+  return mergeTags(await readContainerTags(file, audioStart), id3);
+};
+
+const normalizeBpm = (value?: string) => {
+  const bpm = parseFloat(value || '');
+  return Number.isFinite(bpm) && bpm > 0 ? String(Math.round(bpm * 10) / 10) : undefined;
+};
+
+// "Am", "F#m", "Bbmaj" -> "A minor", "F# minor", "Bb major", matching what
+// analysis produces. Anything else (Camelot "8A", Open Key "1m") is kept as is.
+const normalizeKey = (value?: string) => {
+  const match = value?.match(/^([A-Ga-g])([#b♯♭]?)\s*(m|min|minor|maj|major)?$/);
+  if (!match) return value;
+  const accidental = match[2] === '♯' ? '#' : match[2] === '♭' ? 'b' : match[2];
+  const isMinor = match[3] !== undefined && !match[3].startsWith('maj');
+  return `${match[1].toUpperCase()}${accidental} ${isMinor ? 'minor' : 'major'}`;
+};
+
+// The Song fields the tags provide, with `taggedFields` recording which they are
+export const songFieldsFromTags = (tags: EmbeddedTags): Partial<Song> => {
+  const fields: Partial<Song> = {};
+  const tagged: TaggedField[] = [];
+  const values: Record<TaggedField, string | undefined> = {
+    name: tags.title,
+    artist: tags.artist,
+    album: tags.album,
+    bpm: normalizeBpm(tags.bpm),
+    key: normalizeKey(tags.key),
+    genre: tags.genre,
+  };
+  (Object.keys(values) as TaggedField[]).forEach(field => {
+    const value = values[field];
+    if (!value) return;
+    fields[field] = value;
+    tagged.push(field);
+  });
+  if (tagged.length > 0) fields.taggedFields = tagged;
+  return fields;
+};
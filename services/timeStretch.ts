@@ -0,0 +1,55 @@
+import { stretchSamples } from './wsola';
+import type { StretchRequest, StretchResponse } from './timeStretch.worker';
+
+// Speeds decoded tracks up or slows them down without changing their pitch,
+// for auditioning at a different tempo. The WSOLA pass runs in a Web Worker.
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (channels: Float32Array[]) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./timeStretch.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<StretchResponse>) => {
+      const response = event.data;
+      const pending = pendingRequests.get(response.id);
+      if (!pending) return;
+      pendingRequests.delete(response.id);
+      if ('error' in response) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.channels);
+      }
+    };
+    worker.onerror = (event) => {
+      pendingRequests.forEach(pending => pending.reject(new Error(event.message || 'Time stretch worker failed')));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const stretchInWorker = (channels: Float32Array[], sampleRate: number, tempo: number): Promise<Float32Array[]> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(stretchSamples(channels, sampleRate, tempo));
+  }
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    const request: StretchRequest = { id, channels, sampleRate, tempo };
+    getWorker().postMessage(request, channels.map(channel => channel.buffer));
+  });
+};
+
+// Returns a new buffer that plays `tempo` times as fast at the same pitch
+export const stretchAudioBuffer = async (buffer: AudioBuffer, tempo: number, context: BaseAudioContext): Promise<AudioBuffer> => {
+  // Copies, so they can be transferred without detaching the decoded track
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice());
+  const stretched = await stretchInWorker(channels, buffer.sampleRate, tempo);
+  const result = context.createBuffer(stretched.length, Math.max(1, stretched[0].length), buffer.sampleRate);
+  stretched.forEach((channel, i) => result.copyToChannel(channel, i));
+  return result;
+};
@@ -0,0 +1,26 @@
+// Time stretching gets its own worker, so a speed change doesn't wait behind
+// library analysis.
+import { stretchSamples } from './wsola';
+
+export interface StretchRequest {
+  id: number;
+  channels: Float32Array[];
+  sampleRate: number;
+  tempo: number;
+}
+
+export type StretchResponse =
+  | { id: number; channels: Float32Array[] }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<StretchRequest>) => {
+  const { id, channels, sampleRate, tempo } = event.data;
+  try {
+    const stretched = stretchSamples(channels, sampleRate, tempo);
+    const response: StretchResponse = { id, channels: stretched };
+    self.postMessage(response, { transfer: stretched.map(channel => channel.buffer) });
+  } catch (error) {
+    const response: StretchResponse = { id, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,104 @@
+import type { Song } from '../types';
+import type { Workspace } from './history';
+
+// Revisions of the same track ("v1", "v2", "final_final") are separate songs
+// in the library that share a versionGroup. One version per group is current:
+// it's the one the library lists and the one playlists hold. The rest stay in
+// the library, marked superseded, for the version history and A/B comparison.
+
+const byAdded = (a: Song, b: Song) => (a.addedAt ?? 0) - (b.addedAt ?? 0);
+
+// Every version of `song` found in `pool`, oldest first
+export const versionsOf = (song: Song, pool: Song[]): Song[] => {
+  if (!song.versionGroup) return [song];
+  const versions = pool.filter(s => s.versionGroup === song.versionGroup);
+  if (!versions.some(s => s.id === song.id)) versions.push(song);
+  return versions.sort(byAdded);
+};
+
+export const versionLabel = (song: Song, versions: Song[]) =>
+  song.versionLabel || `v${versions.findIndex(s => s.id === song.id) + 1}`;
+
+// The songs the library lists: ungrouped songs, plus one version per group.
+// A group whose current version was deleted falls back to its newest version.
+export const currentVersions = (songs: Song[]): Song[] => {
+  const shown = new Map<string, Song>();
+  songs.forEach(song => {
+    if (!song.versionGroup) return;
+    const best = shown.get(song.versionGroup);
+    const isBetter = !best
+      || (best.supersededVersion && !song.supersededVersion)
+      || (!!best.supersededVersion === !!song.supersededVersion && byAdded(best, song) < 0);
+    if (isBetter) shown.set(song.versionGroup, song);
+  });
+  return songs.filter(song => !song.versionGroup || shown.get(song.versionGroup) === song);
+};
+
+// Points every playlist entry for the group at `version`, keeping the entry's comments
+const swapVersion = (songs: Song[], groupIds: Set<string>, version: Song) => {
+  let changed = false;
+  const swapped = songs.map(song => {
+    if (!groupIds.has(song.id) || song.id === version.id) return song;
+    changed = true;
+    return { ...version, comments: song.comments };
+  });
+  return changed ? swapped : songs;
+};
+
+const withCurrentVersion = (workspace: Workspace, library: Song[], version: Song, groupIds: Set<string>): Workspace => {
+  const swap = (songs: Song[]) => swapVersion(songs, groupIds, version);
+  const playlistSongs = swap(workspace.playlist.songs);
+  return {
+    ...workspace,
+    library,
+    playlist: playlistSongs === workspace.playlist.songs ? workspace.playlist : { ...workspace.playlist, songs: playlistSongs },
+    savedPlaylists: workspace.savedPlaylists.map(p => {
+      const songs = swap(p.songs);
+      return songs === p.songs ? p : { ...p, songs };
+    }),
+  };
+};
+
+// Adds `upload` as the newest, current version of `song`'s track
+export const addVersion = (workspace: Workspace, song: Song, upload: Song): Workspace => {
+  const base = workspace.library.find(s => s.id === song.id) ?? song;
+  const group = base.versionGroup ?? base.id;
+  const existing = versionsOf(base, workspace.library);
+  const groupIds = new Set(existing.map(s => s.id));
+  const version: Song = {
+    ...upload,
+    name: base.name,
+    artist: upload.artist ?? base.artist,
+    versionGroup: group,
+    versionLabel: `v${existing.length + 1}`,
+  };
+  const library = [
+    ...workspace.library.map(s => groupIds.has(s.id)
+      ? { ...s, versionGroup: group, versionLabel: versionLabel(s, existing), supersededVersion: true }
+      : s),
+    version,
+  ];
+  return withCurrentVersion(workspace, library, version, groupIds);
+};
+
+export const makeCurrentVersion = (workspace: Workspace, version: Song): Workspace => {
+  const versions = versionsOf(version, workspace.library);
+  const groupIds = new Set(versions.map(s => s.id));
+  const library = workspace.library.map(s => {
+    if (!groupIds.has(s.id)) return s;
+    if (s.id === version.id) {
+      const { supersededVersion, ...current } = s;
+      return current;
+    }
+    return s.supersededVersion ? s : { ...s, supersededVersion: true };
+  });
+  const current = library.find(s => s.id === version.id) ?? version;
+  return withCurrentVersion(workspace, library, current, groupIds);
+};
+
+// The other versions of a playlist's tracks, for shares that include them
+export const otherVersions = (songs: Song[], library: Song[]): Song[] => {
+  const inPlaylist = new Set(songs.map(s => s.id));
+  const groups = new Set(songs.map(s => s.versionGroup).filter(Boolean));
+  return library.filter(s => s.versionGroup && groups.has(s.versionGroup) && !inPlaylist.has(s.id));
+};
@@ -0,0 +1,31 @@
+import { decodeAudioFile } from './audioAnalysis';
+
+// Peak data for waveform display. Computed once per song and stored on the
+// Song itself, so it is persisted with the library and travels in share links.
+
+export const PEAK_COUNT = 200;
+
+export const computePeaks = async (file: Blob, peakCount = PEAK_COUNT): Promise<number[]> => {
+  const buffer = await decodeAudioFile(file);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const bucketSize = Math.max(1, Math.floor(buffer.length / peakCount));
+
+  const peaks: number[] = [];
+  let maxPeak = 0;
+  for (let bucket = 0; bucket < peakCount; bucket++) {
+    const start = bucket * bucketSize;
+    const end = Math.min(buffer.length, start + bucketSize);
+    let peak = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(channel[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks.push(peak);
+    maxPeak = Math.max(maxPeak, peak);
+  }
+
+  // Normalize to 0..1 and round so the data stays small in storage and share links
+  return peaks.map(peak => maxPeak > 0 ? Math.round((peak / maxPeak) * 100) / 100 : 0);
+};
@@ -0,0 +1,92 @@
+// Pitch-preserving time stretching by WSOLA (waveform-similarity overlap-add):
+// the audio is cut into overlapping windowed frames that are laid back down at
+// a different spacing, each one nudged to where it best continues the last so
+// the waveform stays coherent. Pure number crunching, so it runs in a worker.
+
+const FRAME_SECONDS = 0.04;
+const TOLERANCE_SECONDS = 0.01; // How far a frame may move to line up with the previous one
+const GUIDE_DECIMATION = 4; // Frames are lined up on a coarse mono copy first, then refined
+
+// Box-filtered mono copy at a quarter of the rate, for the coarse search
+const guideSignal = (mono: Float32Array) => {
+  const guide = new Float32Array(Math.floor(mono.length / GUIDE_DECIMATION));
+  for (let i = 0; i < guide.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < GUIDE_DECIMATION; j++) sum += mono[i * GUIDE_DECIMATION + j];
+    guide[i] = sum;
+  }
+  return guide;
+};
+
+const correlation = (signal: Float32Array, a: number, b: number, length: number) => {
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += signal[a + i] * signal[b + i];
+  return sum;
+};
+
+// The position within `from`..`to` whose next `length` samples best match those at `target`
+const bestMatch = (signal: Float32Array, target: number, from: number, to: number, length: number) => {
+  let best = from;
+  let bestScore = -Infinity;
+  for (let position = from; position <= to; position++) {
+    const score = correlation(signal, position, target, length);
+    if (score > bestScore) {
+      bestScore = score;
+      best = position;
+    }
+  }
+  return best;
+};
+
+// Returns the channels played `tempo` times as fast at the same pitch
+export const stretchSamples = (channels: Float32Array[], sampleRate: number, tempo: number): Float32Array[] => {
+  const length = channels[0]?.length ?? 0;
+  const frame = 2 * Math.round((FRAME_SECONDS * sampleRate) / 2);
+  const hop = frame / 2;
+  const tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+  const outputLength = Math.ceil(length / tempo);
+  const output = channels.map(() => new Float32Array(outputLength + frame));
+  // A periodic Hann window sums to exactly 1 at 50% overlap
+  const window = Float32Array.from({ length: frame }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame));
+
+  const mono = new Float32Array(length);
+  channels.forEach(channel => {
+    for (let i = 0; i < length; i++) mono[i] += channel[i];
+  });
+  const guide = guideSignal(mono);
+  const lastStart = Math.max(0, length - frame);
+
+  let previous = 0; // Where the previous frame was taken from
+  for (let out = 0, index = 0; out < outputLength; out += hop, index++) {
+    const nominal = Math.min(lastStart, Math.round(index * hop * tempo));
+    let start = nominal;
+    if (index > 0) {
+      // Where the previous frame would naturally carry on
+      const target = Math.min(lastStart, previous + hop);
+      const from = Math.max(0, nominal - tolerance);
+      const to = Math.min(lastStart, nominal + tolerance);
+      const coarse = bestMatch(
+        guide,
+        Math.floor(target / GUIDE_DECIMATION),
+        Math.floor(from / GUIDE_DECIMATION),
+        Math.floor(to / GUIDE_DECIMATION),
+        Math.floor(Math.min(hop, length - target - 1, length - to - 1) / GUIDE_DECIMATION),
+      ) * GUIDE_DECIMATION;
+      start = bestMatch(
+        mono,
+        target,
+        Math.max(from, coarse - GUIDE_DECIMATION + 1),
+        Math.min(to, coarse + GUIDE_DECIMATION - 1),
+        Math.min(hop, length - target - 1, length - to - 1),
+      );
+    }
+    for (let c = 0; c < channels.length; c++) {
+      const input = channels[c];
+      const target = output[c];
+      const count = Math.min(frame, length - start);
+      for (let i = 0; i < count; i++) target[out + i] += input[start + i] * window[i];
+    }
+    previous = start;
+  }
+  return output.map(channel => channel.slice(0, outputLength));
+};
@@ -1,21 +1,71 @@
 export interface Comment {
+  id?: string;
   text: string;
+  author?: string;
+  createdAt?: number; // Unix timestamp in milliseconds
+  unread?: boolean; // Set on feedback imported into the producer workspace until viewed
+  timestamp?: number; // seconds into the track the comment refers to
+  endTimestamp?: number; // end of the referenced range, if the comment covers one
 }
 
-export interface Song {
+export type SectionKind = 'intro' | 'verse' | 'hook' | 'bridge' | 'outro';
+
+// A labeled cue on a song's timeline, see services/markers.ts
+export interface Marker {
   id: string;
+  label: string;
+  time: number; // seconds into the track
+  section?: SectionKind; // Set when the marker starts a section of the song
+  endTime?: number; // end of the marked range; a section without one runs to the next marker
+}
+
+// Song fields that can be read from a file's embedded tags
+export type TaggedField = 'name' | 'artist' | 'album' | 'bpm' | 'key' | 'genre';
+
+export interface Song {
+  id: string; // See services/songIdentity.ts
   name: string;
+  fileName?: string; // The uploaded file's name and size, for relinking
+  fileSize?: number;
+  fingerprint?: number[]; // Loudness contour for spotting the same audio in another encoding
+  artist?: string;
+  album?: string;
+  artwork?: string; // Small data: URL thumbnail of the embedded cover art
+  taggedFields?: TaggedField[]; // Fields read from the file's embedded tags, which analysis leaves alone
   url?: string;
   duration: number; // in seconds
+  addedAt?: number; // Unix timestamp in milliseconds of the upload; absent for older songs
   file?: File;
   analyzing?: boolean;
   bpm?: string;
+  bpmConfidence?: number; // 0..1, set when detected from the audio itself
   genre?: string;
   key?: string;
+  keyConfidence?: number; // 0..1, set when detected from the audio itself
   mood?: string;
   instrumentation?: string[];
   genreTags?: string[];
   comments?: Comment[];
+  markers?: Marker[]; // In time order
+  peaks?: number[]; // Normalized 0..1 waveform peaks for display
+  loudness?: number; // Integrated loudness in LUFS, see services/loudness.ts
+  truePeak?: number; // dBTP
+  loudnessRange?: number; // LU, how much the loudness varies over the track
+  versionGroup?: string; // Shared by every revision of the same track, see services/versions.ts
+  versionLabel?: string; // e.g. "v2"
+  supersededVersion?: boolean; // Set on revisions that aren't their group's current version
+  previewOffset?: number; // In shared previews, seconds into the original where the clip starts
+}
+
+// The song editing form; list fields are comma-separated text
+export interface EditFormData {
+    name?: string;
+    bpm?: string;
+    key?: string;
+    genre?: string;
+    mood?: string;
+    instrumentation?: string;
+    genreTags?: string;
 }
 
 export interface ProducerProfile {
@@ -29,6 +79,52 @@ export interface Playlist {
   name: string;
   songs: Song[];
   expiresAt?: number; // Unix timestamp in milliseconds
-  password?: string;
+  password?: string; // Only present in legacy share links; new links are encrypted instead
+  crossfade?: number; // Seconds of overlap between tracks; absent or 0 plays them back to back with no gap
+  loudnessMatch?: boolean; // Plays every track at the same loudness; clients hear the same when shared
   producerProfile?: ProducerProfile;
-}
\ No newline at end of file
+  smart?: SmartPlaylistRules; // Present on smart playlists, whose songs are computed from the library
+  versions?: Song[]; // Earlier versions of the songs, in shares that let clients compare them
+  preview?: PreviewSettings; // Present when shares carry preview clips instead of the original files
+  schemaVersion?: number; // See services/schema.ts; absent on records from before versioning
+}
+// How shared preview clips are rendered, see services/preview.ts
+export interface PreviewSettings {
+  start: number; // Seconds into each track, moved earlier on tracks too short for it
+  length: number; // Seconds
+  fadeOut: number; // Seconds
+  format: 'opus' | 'wav';
+  bitrate: number; // kbps, for Opus
+  voiceTag?: { interval: number; volume: number }; // Overlays the producer's voice tag every `interval` seconds, at volume 0..1
+}
+
+export type LibrarySortField = 'added' | 'name' | 'bpm' | 'key' | 'duration';
+
+export interface LibrarySort {
+  field: LibrarySortField;
+  direction: 'asc' | 'desc';
+}
+
+// A named library search, see services/libraryQuery.ts for the query syntax
+export interface LibraryFilterPreset {
+  id: string;
+  name: string;
+  query: string;
+  sort: LibrarySort;
+}
+
+export type SmartRule =
+  | { type: 'tag'; value: string } // A genre tag includes the text
+  | { type: 'genre'; value: string }
+  | { type: 'mood'; value: string }
+  | { type: 'bpm'; min?: number; max?: number }
+  | { type: 'compatibleKey'; key: string } // Mixes harmonically with this key
+  | { type: 'addedAfter'; date: number } // Unix timestamp in milliseconds
+  | { type: 'noComments' };
+
+export interface SmartPlaylistRules {
+  match: 'all' | 'any';
+  rules: SmartRule[];
+  sort: LibrarySort;
+  limit?: number;
+}
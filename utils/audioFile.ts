@@ -0,0 +1,17 @@
+export const songNameForFile = (file: File) => file.name.replace(/\.[^/.]+$/, "");
+
+export const getAudioDuration = (file: File): Promise<number> => {
+  return new Promise((resolve) => {
+    const audio = document.createElement('audio');
+    audio.src = URL.createObjectURL(file);
+    audio.addEventListener('loadedmetadata', () => {
+      resolve(audio.duration);
+      URL.revokeObjectURL(audio.src);
+    });
+    // Unreadable files resolve with no duration rather than hanging
+    audio.addEventListener('error', () => {
+      resolve(0);
+      URL.revokeObjectURL(audio.src);
+    });
+  });
+};
@@ -0,0 +1,33 @@
+import type { Comment } from '../types';
+
+export const formatTime = (seconds: number) => {
+  const floorSeconds = Math.floor(seconds);
+  const minutes = Math.floor(floorSeconds / 60);
+  const remainingSeconds = floorSeconds % 60;
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+export const formatCommentTimestamp = (comment: Comment) => {
+  if (comment.timestamp === undefined) return null;
+  return comment.endTimestamp !== undefined
+    ? `${formatTime(comment.timestamp)}–${formatTime(comment.endTimestamp)}`
+    : formatTime(comment.timestamp);
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${value.toFixed(1)} ${units[unitIndex]}`;
+};
+
+// Signed, so a level change reads as a boost or a cut
+export const formatDecibels = (decibels: number) => {
+  const rounded = Math.round(decibels * 10) / 10 || 0;
+  return `${rounded > 0 ? '+' : ''}${rounded.toFixed(1)} dB`;
+};
@@ -0,0 +1,12 @@
+// Downscales an image to a small JPEG data: URL, cheap enough to store with a
+// song in localStorage and carry in share links
+export const createThumbnail = async (image: Blob, size = 160): Promise<string> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
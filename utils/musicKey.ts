@@ -0,0 +1,49 @@
+// Musical keys as analysis, tags and people write them: "A minor", "Am",
+// "F#m", "Bb major", "Bbmaj", or Camelot wheel positions like "8A".
+
+export interface MusicKey {
+  pitchClass: number; // 0 = C ... 11 = B
+  minor: boolean;
+}
+
+const NOTE_PITCHES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export const parseKey = (text?: string): MusicKey | null => {
+  const value = text?.trim();
+  if (!value) return null;
+
+  const camelot = value.match(/^(1[0-2]|[1-9])\s*([AB])$/i);
+  if (camelot) {
+    // Inverse of camelotPosition: 7 is its own inverse mod 12
+    const major = (7 * (Number(camelot[1]) - 8) % 12 + 12) % 12;
+    const minor = camelot[2].toUpperCase() === 'A';
+    return { pitchClass: minor ? (major + 9) % 12 : major, minor };
+  }
+
+  const named = value.match(/^([A-Ga-g])\s*([#b♯♭]?)\s*(m|min|minor|maj|major)?$/);
+  if (!named) return null;
+  const accidental = named[2] === '#' || named[2] === '♯' ? 1 : named[2] === 'b' || named[2] === '♭' ? -1 : 0;
+  return {
+    pitchClass: (NOTE_PITCHES[named[1].toUpperCase()] + accidental + 12) % 12,
+    minor: named[3] !== undefined && !named[3].startsWith('maj'),
+  };
+};
+
+// 1-12 around the Camelot wheel, where neighbours mix harmonically. A minor
+// key shares its number with its relative major (A minor and C major are both 8).
+export const camelotPosition = (key: MusicKey) => {
+  const relativeMajor = key.minor ? (key.pitchClass + 3) % 12 : key.pitchClass;
+  return (relativeMajor * 7 + 7) % 12 + 1;
+};
+
+export const sameKey = (a: MusicKey, b: MusicKey) => a.pitchClass === b.pitchClass && a.minor === b.minor;
+
+// Neighbours on the Camelot wheel: the same key, its relative major or minor,
+// and one step either way in the same mode
+export const areCompatibleKeys = (a: MusicKey, b: MusicKey) => {
+  const positionA = camelotPosition(a);
+  const positionB = camelotPosition(b);
+  if (positionA === positionB) return true;
+  const steps = Math.abs(positionA - positionB);
+  return a.minor === b.minor && (steps === 1 || steps === 11);
+};
@@ -0,0 +1,43 @@
+// Multi-select in a list the way file managers do it: ctrl/cmd-click toggles
+// one item, shift-click selects the range from the last item clicked.
+
+export interface Selection {
+  ids: string[];
+  anchor: string | null; // Where the next shift-click range starts
+}
+
+export const EMPTY_SELECTION: Selection = { ids: [], anchor: null };
+
+export const selectWithModifiers = (
+  selection: Selection,
+  orderedIds: string[],
+  id: string,
+  modifiers: { shift: boolean; toggle: boolean },
+): Selection => {
+  const anchorIndex = selection.anchor ? orderedIds.indexOf(selection.anchor) : -1;
+  if (modifiers.shift && anchorIndex !== -1) {
+    const index = orderedIds.indexOf(id);
+    const range = orderedIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+    // Shift with ctrl/cmd extends the selection instead of replacing it
+    const ids = modifiers.toggle ? [...new Set([...selection.ids, ...range])] : range;
+    return { ids, anchor: selection.anchor };
+  }
+  const ids = selection.ids.includes(id) ? selection.ids.filter(selected => selected !== id) : [...selection.ids, id];
+  return { ids, anchor: id };
+};
+
+// Drops ids that are no longer in the list, keeping the same object when nothing changed
+export const pruneSelection = (selection: Selection, orderedIds: string[]): Selection => {
+  const present = new Set(orderedIds);
+  if (selection.ids.every(id => present.has(id))) return selection;
+  return {
+    ids: selection.ids.filter(id => present.has(id)),
+    anchor: selection.anchor && present.has(selection.anchor) ? selection.anchor : null,
+  };
+};
+
+// Selected ids in list order
+export const orderedSelection = (selection: Selection, orderedIds: string[]): string[] => {
+  const selected = new Set(selection.ids);
+  return orderedIds.filter(id => selected.has(id));
+};